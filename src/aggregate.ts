@@ -0,0 +1,276 @@
+import * as core from '@actions/core';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import type { OutputSink } from './inputs';
+import { ARTIFACT_MANIFEST_SCHEMA_VERSION, writeArtifactManifest } from './manifest';
+import { uploadChecksumFiles, uploadUpdaterJson } from './release';
+import type { ReleaseBackend, ReleaseSummary, UploadedReleaseAsset } from './release';
+import { inferUpdateChannel, updaterFilePrefix } from './release/channels';
+import { findMissingPlatforms, platformKey } from './release/targets';
+import type { ArtifactManifest, ArtifactManifestEntry } from './types';
+
+const MANIFEST_FILE_PATTERN = /^makepad-artifacts.*\.json$/;
+
+export type LoadedArtifactManifest = {
+  path: string;
+  manifest: ArtifactManifest;
+};
+
+function findManifestFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findManifestFiles(path));
+    } else if (entry.isFile() && MANIFEST_FILE_PATTERN.test(entry.name)) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Read every `makepad-artifacts*.json` below `dir` (e.g. workflow artifacts downloaded into one
+ * directory per job).
+ */
+export function readArtifactManifests(dir: string): LoadedArtifactManifest[] {
+  if (!statSync(dir, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new Error(`aggregate_manifests directory not found: ${dir}`);
+  }
+
+  const loaded: LoadedArtifactManifest[] = [];
+  for (const path of findManifestFiles(dir)) {
+    let manifest: ArtifactManifest;
+    try {
+      manifest = JSON.parse(readFileSync(path, 'utf8')) as ArtifactManifest;
+    } catch (error) {
+      throw new Error(`Failed to parse artifact manifest ${path}: ${(error as Error).message}`);
+    }
+    if (typeof manifest?.schema_version !== 'number' || !Array.isArray(manifest.artifacts)) {
+      throw new Error(`${path} is not a makepad-artifacts.json manifest.`);
+    }
+    if (manifest.schema_version > ARTIFACT_MANIFEST_SCHEMA_VERSION) {
+      throw new Error(
+        `${path} uses manifest schema ${manifest.schema_version}; this version of the action reads up to ${ARTIFACT_MANIFEST_SCHEMA_VERSION}.`,
+      );
+    }
+    loaded.push({ path, manifest });
+  }
+  if (loaded.length === 0) {
+    throw new Error(`No makepad-artifacts*.json manifests found in ${dir}.`);
+  }
+  return loaded;
+}
+
+function uniqueValues(values: (string | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+}
+
+/**
+ * Combine job manifests into one. Toolchain versions are merged per tool; builds are listed per job.
+ */
+export function mergeArtifactManifests(
+  loaded: LoadedArtifactManifest[],
+  release?: ArtifactManifest['release'],
+): ArtifactManifest {
+  const manifests = loaded.map((item) => item.manifest);
+  return {
+    schema_version: ARTIFACT_MANIFEST_SCHEMA_VERSION,
+    generated_at: new Date().toISOString(),
+    app: {
+      name: uniqueValues(manifests.map((manifest) => manifest.app?.name))[0],
+      version: uniqueValues(manifests.map((manifest) => manifest.app?.version))[0],
+      identifier: uniqueValues(manifests.map((manifest) => manifest.app?.identifier))[0],
+    },
+    ...(release ? { release } : {}),
+    toolchain: Object.assign({}, ...manifests.map((manifest) => manifest.toolchain ?? {})),
+    builds: manifests.flatMap((manifest) => manifest.builds ?? []),
+    artifacts: manifests.flatMap((manifest) => manifest.artifacts),
+  };
+}
+
+/**
+ * Aggregate mode: validate the manifests of all matrix jobs, then write the combined updater JSON
+ * and checksum files once and optionally publish the draft release.
+ * Nothing is written to the release unless every check passes.
+ */
+export async function runAggregate(params: {
+  manifestDir: string;
+  // Created only when the manifests (or `releaseId`) point at a release.
+  createBackend: () => ReleaseBackend;
+  releaseId?: string;
+  expectedPlatforms?: string[];
+  publishRelease: boolean;
+  uploadUpdaterJson: boolean;
+  uploadChecksums: boolean;
+  checksumSha512: boolean;
+  updateChannel?: string;
+  channelIndex: boolean;
+  allowDowngrade: boolean;
+  releaseBody?: string;
+  retryAttempts: number;
+  outputPath: string;
+  dryRun: boolean;
+  setOutput: OutputSink;
+}): Promise<void> {
+  const { manifestDir, expectedPlatforms, dryRun, setOutput } = params;
+
+  const loaded = readArtifactManifests(manifestDir);
+  core.info(`Aggregating ${loaded.length} artifact manifest(s) from ${manifestDir}:`);
+  for (const { path, manifest } of loaded) {
+    core.info(`  ${relative(manifestDir, path)}: ${manifest.artifacts.length} artifact(s)`);
+  }
+
+  const manifests = loaded.map((item) => item.manifest);
+  const versions = uniqueValues(manifests.map((manifest) => manifest.app?.version));
+  if (versions.length > 1) {
+    throw new Error(`Artifact manifests disagree on the app version: ${versions.join(', ')}.`);
+  }
+  const app_version = versions[0];
+
+  const release_ids = uniqueValues(manifests.map((manifest) => manifest.release?.id));
+  if (!params.releaseId && release_ids.length > 1) {
+    throw new Error(`Artifact manifests reference different releases: ${release_ids.join(', ')}.`);
+  }
+  const release_id = params.releaseId ?? release_ids[0];
+  if (!release_id && params.publishRelease) {
+    throw new Error('publish_release requires releaseId or manifests from jobs that uploaded to a release.');
+  }
+
+  const entries = manifests.flatMap((manifest) => manifest.artifacts);
+  const errors: string[] = [];
+
+  let backend: ReleaseBackend | undefined;
+  let release: ReleaseSummary | null = null;
+  let uploaded_assets: UploadedReleaseAsset[] = [];
+  let present_entries: ArtifactManifestEntry[] = entries;
+  if (release_id && !dryRun) {
+    backend = params.createBackend();
+    release = await backend.getRelease(release_id);
+    if (!release) {
+      throw new Error(`Release id=${release_id} was not found on ${backend.target}.`);
+    }
+    const release_assets = new Map((await backend.listAssets(release_id)).map((asset) => [asset.name, asset]));
+
+    // A job can write its manifest and still fail before all uploads finished.
+    present_entries = [];
+    for (const entry of entries) {
+      if (!entry.asset_name) {
+        continue;
+      }
+      const asset = release_assets.get(entry.asset_name);
+      if (!asset) {
+        errors.push(`Asset "${entry.asset_name}" (${entry.file_name}) is listed in a manifest but missing on the release.`);
+        continue;
+      }
+      present_entries.push(entry);
+      if (entry.sha256) {
+        uploaded_assets.push({
+          id: asset.id,
+          name: asset.name,
+          url: asset.browser_download_url,
+          artifact: {
+            path: entry.path,
+            mode: entry.mode,
+            version: entry.version,
+            platform: entry.platform,
+            arch: entry.arch,
+            ...(entry.app ? { app: entry.app } : {}),
+            ...(entry.flavor ? { flavor: entry.flavor } : {}),
+            ...(entry.profile ? { profile: entry.profile } : {}),
+            ...(entry.target_triple ? { target_triple: entry.target_triple } : {}),
+          },
+          uploadPath: entry.asset_name,
+          sha256: entry.sha256,
+          sha512: entry.sha512,
+        });
+      }
+    }
+  }
+
+  const present_platforms = new Set(present_entries.map((entry) => platformKey(entry.platform, entry.arch)));
+  core.info(`Platforms present: ${Array.from(present_platforms).sort().join(', ') || '(none)'}`);
+  if (expectedPlatforms) {
+    const missing = findMissingPlatforms(expectedPlatforms, present_platforms);
+    if (missing.length > 0) {
+      errors.push(`Missing expected platforms: ${missing.join(', ')}.`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Aggregation failed; the release was left unchanged.\n${errors.join('\n')}`);
+  }
+
+  const release_channels = uniqueValues(manifests.map((manifest) => manifest.release?.update_channel));
+  const channel = params.updateChannel ?? (release_channels.length === 1 ? release_channels[0] : inferUpdateChannel(app_version));
+  const merged = mergeArtifactManifests(loaded, release_id
+    ? {
+      backend: backend?.kind ?? uniqueValues(manifests.map((manifest) => manifest.release?.backend))[0] ?? '',
+      id: release_id,
+      tag: release?.tag_name ?? uniqueValues(manifests.map((manifest) => manifest.release?.tag))[0],
+      url: release?.html_url ?? uniqueValues(manifests.map((manifest) => manifest.release?.url))[0],
+      update_channel: params.uploadUpdaterJson ? channel : undefined,
+    }
+    : undefined);
+
+  if (dryRun) {
+    core.info('dry_run enabled; manifests validated, nothing was uploaded or published.');
+  } else if (backend && release) {
+    if (params.uploadChecksums && uploaded_assets.length > 0) {
+      core.info(`Uploading combined checksums to release id=${release.id}...`);
+      await uploadChecksumFiles({
+        backend,
+        releaseId: release.id,
+        uploadedAssets: uploaded_assets,
+        includeSha512: params.checksumSha512,
+        retryAttempts: params.retryAttempts,
+      });
+    }
+    // Jobs that packaged several apps (`apps`) or flavors get one updater JSON per app and flavor.
+    const assets_by_app = new Map<string | undefined, UploadedReleaseAsset[]>();
+    for (const asset of uploaded_assets) {
+      const prefix = updaterFilePrefix(asset.artifact.app, asset.artifact.flavor);
+      assets_by_app.set(prefix, [...(assets_by_app.get(prefix) ?? []), asset]);
+    }
+    for (const [app, app_assets] of params.uploadUpdaterJson ? assets_by_app : []) {
+      core.info(`Uploading combined updater JSON${app ? ` of ${app}` : ''} to release id=${release.id}...`);
+      await uploadUpdaterJson({
+        backend,
+        releaseId: release.id,
+        appVersion: app ? app_assets[0].artifact.version : app_version,
+        releaseTagName: release.tag_name,
+        releaseBody: params.releaseBody ?? release.body,
+        releaseCreatedAt: release.created_at,
+        uploadedAssets: app_assets,
+        retryAttempts: params.retryAttempts,
+        channel,
+        channelIndex: params.channelIndex,
+        allowDowngrade: params.allowDowngrade,
+        ...(app ? { app, assetNames: app_assets.map((asset) => asset.name) } : {}),
+      });
+    }
+    if (params.publishRelease && release.draft) {
+      release = await backend.publishRelease(release.id);
+      core.info(`Published release id=${release.id} (${release.html_url}).`);
+    } else if (params.publishRelease) {
+      core.info(`Release id=${release.id} is already published.`);
+    }
+  }
+
+  writeArtifactManifest(params.outputPath, merged);
+  core.info(`Wrote combined artifact manifest: ${params.outputPath}`);
+
+  if (merged.app.name) {
+    setOutput('app_name', merged.app.name);
+  }
+  if (app_version) {
+    setOutput('app_version', app_version);
+  }
+  if (release_id) {
+    setOutput('release_id', release_id);
+  }
+  if (merged.release?.url) {
+    setOutput('release_url', merged.release.url);
+  }
+  setOutput('artifacts', JSON.stringify(merged.artifacts));
+  setOutput('artifact_manifest', params.outputPath);
+}
@@ -0,0 +1,134 @@
+import { dirname, resolve } from 'node:path';
+import { loadCargoProject } from './cargo';
+import { PackagingConfig } from './config';
+import type { AppsEntryFileConfig } from './config';
+import { parseCargoProfile } from './flavors';
+import type { BuildFlavor } from './flavors';
+import { updaterFilePrefix } from './release/channels';
+import type { Artifact, BuildOptions, InitOptions } from './types';
+
+/**
+ * One app a run packages. Single-app runs have no `key`; with `apps`, `key` is the package name that
+ * tags the app's artifacts and prefixes its updater JSON. With flavors, each app is packaged once per
+ * `flavor`, which likewise tags the artifacts and prefixes the updater JSON.
+ */
+export interface PackagedApp {
+  key?: string;
+  project_path: string;
+  name?: string;
+  version?: string;
+  identifier?: string;
+  main_binary?: string;
+  asset_name_template?: string;
+  // Cargo profile of release builds; the flavor's profile wins.
+  profile?: string;
+  flavor?: BuildFlavor;
+}
+
+/**
+ * Init options of the app's build: the flavor's `app_label` replaces the app name and its
+ * `identifier_suffix` is appended to the identifier (the Cargo.toml default when unset).
+ */
+export function appInitOptions(app: PackagedApp): InitOptions {
+  const suffix = app.flavor?.identifier_suffix;
+  const identifier = suffix
+    ? `${app.identifier ?? PackagingConfig.fromMobilePackagingConfig(app.project_path).android_config.identifier}${suffix}`
+    : app.identifier;
+  return {
+    identifier,
+    app_name: app.flavor?.app_label ?? app.name,
+    app_version: app.version,
+    main_binary_name: app.main_binary,
+  };
+}
+
+export function appBuildOptions(app: PackagedApp, buildOptions: BuildOptions): BuildOptions {
+  return {
+    ...buildOptions,
+    profile: app.flavor?.profile ?? app.profile,
+    features: app.flavor?.features,
+  };
+}
+
+/**
+ * Every app once per flavor, flavors in order within each app.
+ */
+export function expandAppFlavors(apps: PackagedApp[], flavors?: BuildFlavor[]): PackagedApp[] {
+  return flavors ? apps.flatMap((app) => flavors.map((flavor) => ({ ...app, flavor }))) : apps;
+}
+
+/**
+ * `<app>`, `<flavor>` or `<app>-<flavor>`: names the app in logs and prefixes its updater JSON.
+ * Undefined for a plain single-app run.
+ */
+export function appLabel(app: PackagedApp): string | undefined {
+  return updaterFilePrefix(app.key, app.flavor?.name);
+}
+
+export function tagAppArtifact(app: PackagedApp, artifact: Artifact): Artifact {
+  return {
+    ...artifact,
+    ...(app.key ? { app: app.key } : {}),
+    ...(app.flavor ? { flavor: app.flavor.name } : {}),
+  };
+}
+
+/**
+ * Apps of a multi-app run: the `apps` input (package names) in order, else the `[apps.<package>]`
+ * tables of the packaging config. Members are looked up among the workspace packages of `projectPath`,
+ * or at `[apps.<package>].path`. Returns undefined when neither is set.
+ *
+ * Shared values follow the usual precedence: the `app_version`, `profile` and `asset_name_template` inputs
+ * win over `[apps.<package>]`, which wins over `[app]`/`[release]` and then Cargo.toml.
+ */
+export function resolvePackagedApps(params: {
+  projectPath: string;
+  selection?: string[];
+  fileApps: Record<string, AppsEntryFileConfig>;
+  versionInput?: string;
+  fileVersion?: string;
+  profileInput?: string;
+  fileProfile?: string;
+  assetNameTemplateInput?: string;
+  fileAssetNameTemplate?: string;
+}): PackagedApp[] | undefined {
+  const { projectPath, fileApps } = params;
+  const keys = Array.from(new Set(params.selection ?? Object.keys(fileApps)));
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  const workspace = loadCargoProject(projectPath);
+  return keys.map((key): PackagedApp => {
+    const entry = fileApps[key] ?? {};
+    let project_path: string;
+    if (entry.path) {
+      project_path = resolve(projectPath, entry.path);
+    } else {
+      const member = workspace.packages.find((pkg) => pkg.name === key);
+      if (!member) {
+        const names = workspace.packages.map((pkg) => pkg.name).join(', ') || 'none found';
+        throw new Error(
+          `App "${key}" is not a package of the workspace at ${workspace.workspace_root} (packages: ${names}). ` +
+          `Set [apps.${key}].path in the packaging config to its directory.`,
+        );
+      }
+      project_path = dirname(member.manifest_path);
+    }
+
+    const cargo_package = loadCargoProject(project_path).package;
+    if (!cargo_package) {
+      throw new Error(`No Cargo package found for app "${key}" at ${project_path}.`);
+    }
+    return {
+      key,
+      project_path,
+      name: entry.name ?? cargo_package.name,
+      version: params.versionInput ?? entry.version ?? params.fileVersion ?? cargo_package.version,
+      identifier: entry.identifier,
+      main_binary: entry.main_binary,
+      profile: parseCargoProfile(params.profileInput ?? entry.profile ?? params.fileProfile),
+      asset_name_template: params.assetNameTemplateInput ?? entry.asset_name_template ?? params.fileAssetNameTemplate,
+    };
+  });
+}
@@ -1,7 +1,34 @@
 import { buildDesktopArtifacts } from "./builds/desktop";
-import { buildMobileArtifacts, checkAndInstallMobilePackagingTools } from "./builds/mobile";
-import type { Artifact, BuildOptions, InitOptions } from "./types";
-import { getTargetInfo } from "./utils";
+import { planDesktopPackaging, predictDesktopArtifacts } from "./builds/desktop/common";
+import { applyMobileBuildDefaults, buildMobileArtifacts, checkAndInstallMobilePackagingTools } from "./builds/mobile";
+import { planAndroidBuild } from "./builds/mobile/android";
+import { planIosBuild } from "./builds/mobile/ios";
+import { buildWebArtifacts, installWebBuildDependencies, planWebBuild } from "./builds/web";
+import type { AndroidABI, Artifact, BuildOptions, DesktopTarget, InitOptions, TargetInfo } from "./types";
+import { cargoProfileArgs, getTargetInfo } from "./utils";
+
+export interface PlannedCommand {
+  command: string;
+  args: string[];
+  cwd: string;
+}
+
+/**
+ * What `buildProject` would do for one mode: the commands it runs and the artifacts it expects.
+ */
+export interface BuildPlan {
+  // Package name of the app, for multi-app runs (`apps`).
+  app?: string;
+  // Build flavor (`[flavors.<name>]`).
+  flavor?: string;
+  mode: "debug" | "release";
+  // Custom cargo profile of a release-mode build.
+  profile?: string;
+  target_info: TargetInfo;
+  commands: PlannedCommand[];
+  artifacts: Artifact[];
+  notes: string[];
+}
 
 export async function buildProject(
   root: string,
@@ -9,38 +36,156 @@ export async function buildProject(
   initOptions: InitOptions,
   buildOptions: BuildOptions,
 ): Promise<Artifact[]> {
-  const args = debug
-    ? (buildOptions.args ?? [])
-    : (buildOptions.args ?? []).concat(["--release"]);
-
-  const target_triple = parseTargetTripleFromArgs(args);
-  const target_info = target_triple
-    ? getTargetInfo(target_triple)
-    : getTargetInfo();
-
-  buildOptions = {
-    ...buildOptions,
-    args,
-    target_info,
-    mode: debug ? "debug" : "release",
-  };
+  buildOptions = resolveModeBuildOptions(debug, buildOptions);
+  const target_info = buildOptions.target_info as TargetInfo;
 
   console.log(
     `======== Build Target Info ========\nTarget platform type: ${target_info.type}\nTarget platform: ${target_info.target_platform} (${target_info.arch})\n===================================`,
   );
 
+  if (buildOptions.profile) {
+    console.log(`Using cargo profile "${buildOptions.profile}".`);
+  }
+
+  let artifacts: Artifact[];
   const target_platform_type = target_info.type;
   if (target_platform_type === "desktop") {
-    return await buildDesktopArtifacts(root, initOptions, buildOptions);
+    if (buildOptions.features?.length) {
+      console.warn(
+        `⚠️  cargo-packager builds the app through its before-packaging command; enable the features ${buildOptions.features.join(",")} there.`,
+      );
+    }
+    artifacts = await buildDesktopArtifacts(root, initOptions, buildOptions);
   } else if (target_platform_type === "mobile") {
     await checkAndInstallMobilePackagingTools();
-    return await buildMobileArtifacts(root, initOptions, buildOptions);
+    artifacts = await buildMobileArtifacts(root, initOptions, buildOptions);
+  } else if (target_platform_type === "web") {
+    // Web builds are driven by `cargo makepad wasm`, same tool as mobile.
+    await checkAndInstallMobilePackagingTools();
+    await installWebBuildDependencies();
+    artifacts = await buildWebArtifacts(root, initOptions, buildOptions);
   } else {
     throw new Error(`Unsupported target type: ${target_platform_type}`);
   }
+  return tagProfile(artifacts, buildOptions.profile);
+}
+
+/**
+ * Resolve the same commands and artifact paths as `buildProject` without installing tools or building.
+ */
+export function planBuild(
+  root: string,
+  debug: boolean,
+  initOptions: InitOptions,
+  buildOptions: BuildOptions,
+): BuildPlan {
+  buildOptions = resolveModeBuildOptions(debug, buildOptions);
+  const target_info = buildOptions.target_info as TargetInfo;
+  const mode = buildOptions.mode as "debug" | "release";
+  const commands: PlannedCommand[] = [];
+  const artifacts: Artifact[] = [];
+  const notes: string[] = [];
+
+  if (target_info.type === "desktop") {
+    const platform = target_info.target_platform as DesktopTarget;
+    const plan = planDesktopPackaging(root, initOptions, buildOptions);
+    notes.push("cargo-packager and robius-packaging-commands are installed when missing.");
+    commands.push({ command: "cargo", args: ["packager", ...plan.packager_cli_args], cwd: root });
+    artifacts.push(...predictDesktopArtifacts(root, plan, platform, target_info.arch, mode));
+    if (platform === "macos" && buildOptions.enable_macos_notarization) {
+      notes.push("The macOS bundle is notarized with App Store Connect credentials.");
+    }
+    if (buildOptions.features?.length) {
+      notes.push(`Features ${buildOptions.features.join(",")} must be enabled in the cargo-packager before-packaging command.`);
+    }
+  } else if (target_info.type === "mobile") {
+    applyMobileBuildDefaults(root, initOptions, buildOptions);
+    notes.push("cargo-makepad is installed when missing.");
+
+    if (target_info.target_platform === "android") {
+      const abi = buildOptions.android_abi ?? (target_info.arch as AndroidABI);
+      const install_args = ["makepad", "android", `--abi=${Array.isArray(abi) ? abi.join(",") : abi}`, "install-toolchain"];
+      if (buildOptions.android_full_ndk) install_args.push("--full-ndk");
+      commands.push({ command: "cargo", args: install_args, cwd: root });
+
+      const plan = planAndroidBuild(root, buildOptions);
+      if (plan.identifier_changed) {
+        notes.push(`Android package name normalized to "${plan.package_identifier}".`);
+      }
+      for (const step of [...plan.apk_steps, ...(plan.universal_step ? [plan.universal_step] : [])]) {
+        commands.push({ command: "cargo", args: step.cargo_args, cwd: root });
+      }
+      if (plan.aab) {
+        notes.push(`App Bundle is converted from ${plan.aab.source.artifact.path} with bundletool.`);
+      }
+      if (buildOptions.android_keystore_base64) {
+        notes.push("APK/AAB outputs are signed with the configured release keystore.");
+      }
+      artifacts.push(...plan.artifacts);
+    } else if (target_info.target_platform === "ios") {
+      commands.push({ command: "cargo", args: ["makepad", "apple", "ios", "install-toolchain"], cwd: root });
+
+      // Profile/cert are derived from the APPLE_* secrets during a real build.
+      const derive_signing = !buildOptions.ios_sim && (!buildOptions.ios_profile || !buildOptions.ios_cert);
+      if (derive_signing) {
+        notes.push("Provisioning profile and certificate are derived from the APPLE_* signing secrets.");
+      }
+      const plan = planIosBuild(root, buildOptions, {
+        profile: buildOptions.ios_profile ?? (derive_signing ? "<derived-profile>" : undefined),
+        cert: buildOptions.ios_cert ?? (derive_signing ? "<derived-cert>" : undefined),
+      });
+      commands.push({ command: "cargo", args: plan.cargo_args, cwd: root });
+      artifacts.push(...plan.artifacts);
+    }
+  } else if (target_info.type === "web") {
+    notes.push("cargo-makepad is installed when missing.");
+    commands.push({ command: "cargo", args: ["makepad", "wasm", "install-toolchain"], cwd: root });
+    const plan = planWebBuild(root, initOptions, buildOptions);
+    commands.push({ command: "cargo", args: plan.cargo_args, cwd: root });
+    notes.push(`Web bundle ${plan.output_dir} is zipped into ${plan.artifact.path}.`);
+    artifacts.push(plan.artifact);
+  } else {
+    throw new Error(`Unsupported target type: ${target_info.type}`);
+  }
+
+  const profile = buildOptions.profile;
+  return {
+    mode,
+    ...(profile ? { profile } : {}),
+    target_info,
+    commands,
+    artifacts: tagProfile(artifacts, profile),
+    notes,
+  };
+}
+
+function tagProfile(artifacts: Artifact[], profile?: string): Artifact[] {
+  return profile ? artifacts.map((artifact) => ({ ...artifact, profile })) : artifacts;
+}
+
+/**
+ * Debug builds use cargo's `dev` profile; release builds use `--release` or the custom `profile`.
+ */
+function resolveModeBuildOptions(debug: boolean, buildOptions: BuildOptions): BuildOptions {
+  const mode = debug ? "debug" : "release";
+  const profile = debug || buildOptions.profile === "release" ? undefined : buildOptions.profile;
+  const args = (buildOptions.args ?? []).concat(cargoProfileArgs({ mode, profile }));
+
+  const target_triple = parseTargetTripleFromArgs(args);
+  const target_info = target_triple
+    ? getTargetInfo(target_triple)
+    : getTargetInfo();
+
+  return {
+    ...buildOptions,
+    args,
+    target_info,
+    mode,
+    profile,
+  };
 }
 
-function parseTargetTripleFromArgs(args: string[]): string | undefined {
+export function parseTargetTripleFromArgs(args: string[]): string | undefined {
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "--target" || arg === "-t") {
@@ -1,13 +1,12 @@
-import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from "fs";
 import { tmpdir } from "os";
-import { isAbsolute, join } from "path";
+import { basename, dirname, isAbsolute, join } from "path";
+import { loadCargoProject, resolveMainBinary } from "../../cargo";
 import type { Artifact, BuildOptions, DesktopTarget, InitOptions } from "../../types";
 import {
   execCommand,
   getTargetInfo,
   isCommandAvailable,
-  parse_manifest_toml,
-  resolveManifestPackageField,
   retry,
   sleep,
 } from "../../utils";
@@ -82,25 +81,27 @@ async function checkAndInstallDesktopPackagingTools(): Promise<DesktopPackagingT
 function resolveDesktopDefaults(
   root: string,
   initOptions: InitOptions,
-): { app_name: string; app_version: string; out_dir: string } {
-  const manifest = parse_manifest_toml(root) as Record<string, any> | null;
-  if (!manifest || !manifest.package) {
+): { app_name: string; app_version: string; out_dir: string; main_binary_name: string } {
+  const cargo_package = loadCargoProject(root).package;
+  if (!cargo_package) {
     throw new Error("Failed to read Cargo.toml package metadata.");
   }
 
-  const app_name = initOptions.app_name ?? resolveManifestPackageField(root, "name");
-  const app_version = initOptions.app_version ?? resolveManifestPackageField(root, "version");
+  const app_name = initOptions.app_name ?? cargo_package.name;
+  const app_version = initOptions.app_version ?? cargo_package.version;
 
   if (!app_name || !app_version) {
     throw new Error("Missing app name or version from Cargo.toml (including workspace.package inheritance).");
   }
 
-  const out_dir = resolvePackagerOutDir(root, manifest);
-  return { app_name, app_version, out_dir };
+  const out_dir = resolvePackagerOutDir(root, cargo_package.metadata);
+  const main_binary_name = resolveMainBinary(cargo_package, initOptions.main_binary_name);
+  assertPackagerMainBinary(cargo_package.metadata, main_binary_name);
+  return { app_name, app_version, out_dir, main_binary_name };
 }
 
-function resolvePackagerOutDir(root: string, manifest: Record<string, any>): string {
-  const out_dir = manifest?.package?.metadata?.packager?.out_dir;
+function resolvePackagerOutDir(root: string, metadata: Record<string, any>): string {
+  const out_dir = metadata?.packager?.out_dir;
   const out_dir_text = typeof out_dir === "string" ? out_dir.trim() : "";
   if (out_dir_text.length > 0) {
     return isAbsolute(out_dir_text) ? out_dir_text : join(root, out_dir_text);
@@ -127,8 +128,8 @@ function parseTargetTripleFromArgs(args: string[]): string | undefined {
   return undefined;
 }
 
-function readBeforeEachPackageCommand(manifest: Record<string, any>): string | undefined {
-  const packager = manifest?.package?.metadata?.packager as Record<string, any> | undefined;
+function readBeforeEachPackageCommand(metadata: Record<string, any>): string | undefined {
+  const packager = metadata?.packager as Record<string, any> | undefined;
   if (!packager) {
     return undefined;
   }
@@ -146,18 +147,62 @@ function parsePathToBinaryArg(command: string): string | undefined {
   return match[1] ?? match[2] ?? match[3];
 }
 
+/**
+ * The robius `--path-to-binary` names the profile directory of the binary (`target/release/app`),
+ * which no longer matches once a custom cargo profile builds into `target/<profile>/`.
+ */
+function warnPackagerProfileMismatch(metadata: Record<string, any>, buildOptions: BuildOptions): void {
+  const beforeEachCommand = readBeforeEachPackageCommand(metadata);
+  const pathToBinary = beforeEachCommand ? parsePathToBinaryArg(beforeEachCommand) : undefined;
+  const profile_dir = pathToBinary ? basename(dirname(pathToBinary)) : undefined;
+  if (profile_dir && buildOptions.profile && buildOptions.mode !== "debug" && profile_dir !== buildOptions.profile) {
+    console.warn(
+      `⚠️  Building with cargo profile "${buildOptions.profile}", but the packager config packages ${pathToBinary}; point --path-to-binary at the ${buildOptions.profile}/ directory.`,
+    );
+  }
+}
+
+/**
+ * Fail early when the packager config names a different main binary than the resolved one, e.g. a
+ * robius `--path-to-binary` or the `main = true` entry of `package.metadata.packager.binaries`.
+ */
+function assertPackagerMainBinary(metadata: Record<string, any>, main_binary_name: string): void {
+  const configured: { source: string; name: string }[] = [];
+  const beforeEachCommand = readBeforeEachPackageCommand(metadata);
+  const pathToBinary = beforeEachCommand ? parsePathToBinaryArg(beforeEachCommand) : undefined;
+  if (pathToBinary) {
+    configured.push({ source: `--path-to-binary ${pathToBinary}`, name: basename(pathToBinary) });
+  }
+  const binaries = metadata?.packager?.binaries;
+  const main = Array.isArray(binaries) ? binaries.find((binary) => binary?.main === true) : undefined;
+  if (typeof main?.path === "string") {
+    configured.push({ source: `package.metadata.packager.binaries (main = true, path = "${main.path}")`, name: basename(main.path) });
+  }
+
+  for (const { source, name } of configured) {
+    if (name.replace(/\.exe$/i, "") !== main_binary_name) {
+      throw new Error(
+        [
+          `The main binary resolves to "${main_binary_name}", but the packager config uses "${name}" (${source}).`,
+          "Set the main_binary input (or [app].main_binary in makepad-packaging.toml) to the binary you package, or update the packager config.",
+        ].join("\n")
+      );
+    }
+  }
+}
+
 function assertNoLikelyPackagerTargetMismatch(root: string, args: string[]): void {
   const targetTriple = parseTargetTripleFromArgs(args);
   if (!targetTriple) {
     return;
   }
 
-  const manifest = parse_manifest_toml(root) as Record<string, any> | null;
-  if (!manifest) {
+  const cargo_package = loadCargoProject(root).package;
+  if (!cargo_package) {
     return;
   }
 
-  const beforeEachCommand = readBeforeEachPackageCommand(manifest);
+  const beforeEachCommand = readBeforeEachPackageCommand(cargo_package.metadata);
   if (!beforeEachCommand) {
     return;
   }
@@ -210,8 +255,27 @@ function isDesktopArtifactFile(filename: string): boolean {
   return suffixes.some((suffix) => lower.endsWith(suffix));
 }
 
+// Modification times of the packages already in `outDir`, keyed by file name.
+function snapshotDesktopArtifacts(outDir: string): Map<string, number> {
+  const snapshot = new Map<string, number>();
+  if (!existsSync(outDir)) {
+    return snapshot;
+  }
+  for (const entry of readdirSync(outDir, { withFileTypes: true })) {
+    if (entry.isFile() && isDesktopArtifactFile(entry.name)) {
+      snapshot.set(entry.name, statSync(join(outDir, entry.name)).mtimeMs);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Packages the packager run wrote: files missing from `before` or modified since. The out dir is shared
+ * by every target, mode and earlier run, so older files there belong to other builds.
+ */
 function collectDesktopArtifacts(
   outDir: string,
+  before: Map<string, number>,
   mode: "debug" | "release",
   version: string,
   platform: Artifact["platform"],
@@ -223,11 +287,10 @@ function collectDesktopArtifacts(
   }
 
   const artifacts: Artifact[] = [];
-  for (const entry of readdirSync(outDir, { withFileTypes: true })) {
-    if (!entry.isFile()) continue;
-    if (!isDesktopArtifactFile(entry.name)) continue;
+  for (const [name, mtime] of snapshotDesktopArtifacts(outDir)) {
+    if (before.get(name) === mtime) continue;
     artifacts.push({
-      path: join(outDir, entry.name),
+      path: join(outDir, name),
       mode,
       version,
       platform,
@@ -308,19 +371,10 @@ export async function buildDesktopArtifactsForPlatform(
 ): Promise<Artifact[]> {
   await checkAndInstallDesktopPackagingTools();
 
-  const { app_name, app_version, out_dir } = resolveDesktopDefaults(root, initOptions);
+  const { app_name, app_version, out_dir, packager_cli_args } = planDesktopPackaging(root, initOptions, buildOptions);
   const target_info = buildOptions.target_info ?? getTargetInfo();
-  const args = buildOptions.args ?? [];
-  const packager_args = buildOptions.packager_args ?? [];
-  const packager_formats = buildOptions.packager_formats ?? [];
 
-  assertNoLikelyPackagerTargetMismatch(root, args);
-
-  const packager_cli_args = [...args, ...packager_args];
-  const has_formats_arg = packager_cli_args.some((arg) => arg.startsWith("--formats"));
-  if (packager_formats.length > 0 && !has_formats_arg) {
-    packager_cli_args.push("--formats", packager_formats.join(","));
-  }
+  assertNoLikelyPackagerTargetMismatch(root, buildOptions.args ?? []);
 
   const command_env: NodeJS.ProcessEnv = { ...process.env };
   let generated_notary_temp_dir: string | undefined;
@@ -345,6 +399,7 @@ export async function buildDesktopArtifactsForPlatform(
     console.log("Reusing APP_STORE_CONNECT_* credentials for macOS notarization.");
   }
 
+  const existing_artifacts = snapshotDesktopArtifacts(out_dir);
   try {
     const maxPackagerAttempts = platform === "macos" ? 3 : 1;
     for (let attempt = 1; attempt <= maxPackagerAttempts; attempt++) {
@@ -378,6 +433,7 @@ export async function buildDesktopArtifactsForPlatform(
   const mode = buildOptions.mode ?? "release";
   const artifacts = collectDesktopArtifacts(
     out_dir,
+    existing_artifacts,
     mode,
     app_version,
     platform,
@@ -390,3 +446,96 @@ export async function buildDesktopArtifactsForPlatform(
 
   return artifacts;
 }
+
+export interface DesktopPackagingPlan {
+  app_name: string;
+  app_version: string;
+  out_dir: string;
+  main_binary_name: string;
+  packager_cli_args: string[];
+  // Explicit formats (input/args/Cargo metadata), or the cargo-packager defaults for the platform.
+  formats: string[];
+}
+
+const DEFAULT_PACKAGER_FORMATS: Record<DesktopTarget, string[]> = {
+  linux: ["deb", "appimage", "pacman"],
+  macos: ["app", "dmg"],
+  windows: ["nsis", "wix"],
+};
+
+/**
+ * Resolve the `cargo packager` command line and output directory without running it.
+ */
+export function planDesktopPackaging(
+  root: string,
+  initOptions: InitOptions,
+  buildOptions: BuildOptions,
+): DesktopPackagingPlan {
+  const { app_name, app_version, out_dir, main_binary_name } = resolveDesktopDefaults(root, initOptions);
+  const target_info = buildOptions.target_info ?? getTargetInfo();
+  warnPackagerProfileMismatch(loadCargoProject(root).package?.metadata ?? {}, buildOptions);
+  const args = buildOptions.args ?? [];
+  const packager_args = buildOptions.packager_args ?? [];
+  const packager_formats = buildOptions.packager_formats ?? [];
+
+  const packager_cli_args = [...args, ...packager_args];
+  const formats_arg_index = packager_cli_args.findIndex((arg) => arg.startsWith("--formats"));
+  if (packager_formats.length > 0 && formats_arg_index < 0) {
+    packager_cli_args.push("--formats", packager_formats.join(","));
+  }
+
+  let formats: string[] = packager_formats;
+  if (formats_arg_index >= 0) {
+    const arg = packager_cli_args[formats_arg_index];
+    const value = arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : packager_cli_args[formats_arg_index + 1] ?? "";
+    formats = value.split(",").map((item) => item.trim()).filter(Boolean);
+  } else if (formats.length === 0) {
+    const configured = loadCargoProject(root).package?.metadata?.packager?.formats;
+    formats = Array.isArray(configured)
+      ? configured.map(String)
+      : DEFAULT_PACKAGER_FORMATS[target_info.target_platform as DesktopTarget] ?? [];
+  }
+
+  return { app_name, app_version, out_dir, main_binary_name, packager_cli_args, formats };
+}
+
+/**
+ * Predict the files cargo-packager writes for each format, following its default file naming.
+ * Used for dry runs only; real builds collect whatever the packager actually produced.
+ */
+export function predictDesktopArtifacts(
+  root: string,
+  plan: DesktopPackagingPlan,
+  platform: DesktopTarget,
+  arch: Artifact["arch"],
+  mode: "debug" | "release",
+): Artifact[] {
+  const packager = loadCargoProject(root).package?.metadata?.packager;
+  const configured_product_name = packager?.product_name ?? packager?.["product-name"];
+  const product = typeof configured_product_name === "string" ? configured_product_name : plan.app_name;
+  const prefix = `${product}_${plan.app_version}`;
+  const debian_arch = ({ x86_64: "amd64", aarch64: "arm64", i686: "i386", armv7: "armhf" } as Record<string, string>)[arch] ?? arch;
+  const windows_arch = ({ x86_64: "x64", aarch64: "arm64", i686: "x86" } as Record<string, string>)[arch] ?? arch;
+  const macos_arch = arch === "x86_64" ? "x64" : arch;
+
+  const file_names: string[] = [];
+  for (const format of plan.formats.map((value) => value.toLowerCase())) {
+    if (format === "deb") file_names.push(`${prefix}_${debian_arch}.deb`);
+    else if (format === "appimage") file_names.push(`${prefix}_${arch}.AppImage`);
+    else if (format === "pacman") file_names.push(`${prefix}_${arch}.tar.gz`);
+    else if (format === "nsis") file_names.push(`${prefix}_${windows_arch}-setup.exe`);
+    else if (format === "wix") file_names.push(`${prefix}_${windows_arch}_en-US.msi`);
+    else if (format === "dmg") file_names.push(`${prefix}_${macos_arch}.dmg`);
+    // `app` produces a bundle directory, which is not collected as an artifact.
+  }
+
+  return file_names
+    .filter((file_name) => isDesktopArtifactFile(file_name))
+    .map((file_name) => ({
+      path: join(plan.out_dir, file_name),
+      mode,
+      version: plan.app_version,
+      platform,
+      arch,
+    }));
+}
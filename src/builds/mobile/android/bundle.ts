@@ -0,0 +1,95 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, renameSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { execCommand, extractZip, zipDirectoryContents } from "../../../utils";
+import { resolveAndroidBuildTool, resolveBundletoolCommand } from "./tools";
+
+// Top-level APK entries that map onto a dedicated directory of the bundle's base module.
+const MODULE_DIRECTORIES = new Set(['lib', 'res', 'assets']);
+
+/**
+ * Build an Android App Bundle (.aab) from an APK produced by `cargo makepad android build`.
+ *
+ * The APK is converted to protobuf resources with `aapt2 convert`, rearranged into the
+ * bundletool base-module layout (manifest/, dex/, lib/, res/, assets/, root/, resources.pb),
+ * and packed with `bundletool build-bundle`. The resulting bundle is unsigned.
+ */
+export async function buildAndroidAppBundle(params: {
+  apk_path: string;
+  output_path: string;
+}): Promise<string> {
+  const { apk_path, output_path } = params;
+  if (!existsSync(apk_path)) {
+    throw new Error(`Cannot build Android App Bundle: APK not found at ${apk_path}`);
+  }
+
+  const aapt2 = resolveAndroidBuildTool('aapt2');
+  const bundletool = await resolveBundletoolCommand();
+  const work_dir = mkdtempSync(join(process.env.RUNNER_TEMP ?? tmpdir(), 'makepad-aab-'));
+
+  try {
+    const proto_apk = join(work_dir, 'proto.apk');
+    const extracted_dir = join(work_dir, 'extracted');
+    const module_dir = join(work_dir, 'base');
+    const module_zip = join(work_dir, 'base.zip');
+
+    console.log(`Converting ${apk_path} resources to protobuf format...`);
+    await execCommand(aapt2, ['convert', '--output-format', 'proto', '-o', proto_apk, apk_path]);
+
+    mkdirSync(extracted_dir, { recursive: true });
+    await extractZip(proto_apk, extracted_dir);
+    layoutBaseModule(extracted_dir, module_dir);
+    await zipDirectoryContents(module_dir, module_zip);
+
+    mkdirSync(dirname(output_path), { recursive: true });
+    rmSync(output_path, { force: true });
+    await execCommand(bundletool.cmd, [
+      ...bundletool.args,
+      'build-bundle',
+      `--modules=${module_zip}`,
+      `--output=${output_path}`,
+    ]);
+
+    console.log(`✅ Android App Bundle created: ${output_path}`);
+    return output_path;
+  } finally {
+    rmSync(work_dir, { recursive: true, force: true });
+  }
+}
+
+function layoutBaseModule(extracted_dir: string, module_dir: string): void {
+  mkdirSync(join(module_dir, 'manifest'), { recursive: true });
+
+  for (const entry of readdirSync(extracted_dir, { withFileTypes: true })) {
+    const source = join(extracted_dir, entry.name);
+
+    if (entry.name === 'META-INF') {
+      // Signatures of the source APK are not valid for the bundle.
+      continue;
+    }
+    if (entry.isFile() && entry.name === 'AndroidManifest.xml') {
+      renameSync(source, join(module_dir, 'manifest', entry.name));
+      continue;
+    }
+    if (entry.isFile() && entry.name === 'resources.pb') {
+      renameSync(source, join(module_dir, entry.name));
+      continue;
+    }
+    if (entry.isFile() && /^classes\d*\.dex$/.test(entry.name)) {
+      mkdirSync(join(module_dir, 'dex'), { recursive: true });
+      renameSync(source, join(module_dir, 'dex', entry.name));
+      continue;
+    }
+    if (entry.isDirectory() && MODULE_DIRECTORIES.has(entry.name)) {
+      renameSync(source, join(module_dir, entry.name));
+      continue;
+    }
+
+    mkdirSync(join(module_dir, 'root'), { recursive: true });
+    renameSync(source, join(module_dir, 'root', entry.name));
+  }
+
+  if (!existsSync(join(module_dir, 'manifest', 'AndroidManifest.xml'))) {
+    throw new Error('Converted APK does not contain an AndroidManifest.xml.');
+  }
+}
@@ -0,0 +1,292 @@
+import * as core from '@actions/core';
+import { createSign } from 'node:crypto';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { basename } from 'node:path';
+import type { Artifact } from '../../../types';
+
+export type GooglePlayTrack = 'internal' | 'alpha' | 'beta' | 'production';
+export type GooglePlayReleaseStatus = 'completed' | 'draft';
+
+export const GOOGLE_PLAY_TRACKS: readonly GooglePlayTrack[] = ['internal', 'alpha', 'beta', 'production'];
+export const GOOGLE_PLAY_RELEASE_STATUSES: readonly GooglePlayReleaseStatus[] = ['completed', 'draft'];
+
+const DEFAULT_API_BASE_URL = 'https://androidpublisher.googleapis.com';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const ANDROID_PUBLISHER_SCOPE = 'https://www.googleapis.com/auth/androidpublisher';
+// Play Console rejects release notes longer than 500 characters per language.
+const MAX_RELEASE_NOTES_LENGTH = 500;
+
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+/**
+ * Upload the release AAB (or APKs) to a Google Play track via the Android Publisher API.
+ *
+ * Runs a full edit transaction: insert edit → upload bundles/APKs → update track → commit.
+ * Per-ABI builds upload every file in the same edit, so the track release lists all their version codes.
+ * The edit is deleted when any step fails so no half-configured edit is left behind.
+ */
+export async function uploadToGooglePlay(params: {
+  artifacts: Artifact[];
+  serviceAccountJson: string;
+  packageName: string;
+  track: GooglePlayTrack;
+  releaseStatus?: GooglePlayReleaseStatus;
+  releaseNotes?: string;
+  releaseNotesLanguage?: string;
+  // Overrides for pointing the upload at a local stand-in of the Android Publisher API.
+  apiBaseUrl?: string;
+  tokenUri?: string;
+}): Promise<{ versionCodes: number[]; editId: string }> {
+  const {
+    artifacts,
+    serviceAccountJson,
+    packageName,
+    track,
+    releaseStatus = 'completed',
+    releaseNotes,
+    releaseNotesLanguage = 'en-US',
+  } = params;
+
+  const selected = pickAndroidPlayArtifacts(artifacts);
+  if (selected.length === 0) {
+    throw new Error(
+      'Google Play upload requested but no Android .aab/.apk artifact was built. Build a release for an Android target.',
+    );
+  }
+  for (const artifact of selected) {
+    if (!existsSync(artifact.path) || !statSync(artifact.path).isFile()) {
+      throw new Error(`Google Play upload failed: artifact not found at ${artifact.path}`);
+    }
+    if (artifact.mode !== 'release') {
+      core.warning(`Uploading a ${artifact.mode} build to Google Play: ${artifact.path}`);
+    }
+    core.info(`Selected Android artifact for Google Play upload: ${artifact.path}`);
+  }
+
+  const service_account = parseServiceAccountKey(serviceAccountJson);
+  const api_base_url = (params.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+  const token_uri = params.tokenUri ?? service_account.token_uri ?? DEFAULT_TOKEN_URI;
+  const access_token = await fetchAccessToken(service_account, token_uri);
+
+  const client = new AndroidPublisherClient(api_base_url, packageName, access_token);
+  const edit_id = await client.insertEdit();
+  core.info(`Opened Google Play edit ${edit_id} for ${packageName}.`);
+
+  try {
+    const version_codes: number[] = [];
+    for (const artifact of selected) {
+      const is_bundle = artifact.path.toLowerCase().endsWith('.aab');
+      core.info(`Uploading ${basename(artifact.path)} to Google Play...`);
+      const version_code = await client.upload(edit_id, is_bundle ? 'bundles' : 'apks', readFileSync(artifact.path));
+      core.info(`Uploaded ${is_bundle ? 'bundle' : 'APK'} with versionCode ${version_code}.`);
+      version_codes.push(version_code);
+    }
+
+    const notes = normalizeReleaseNotes(releaseNotes);
+    await client.updateTrack(edit_id, track, {
+      versionCodes: version_codes.map(String),
+      status: releaseStatus,
+      ...(notes ? { releaseNotes: [{ language: releaseNotesLanguage, text: notes }] } : {}),
+    });
+    core.info(`Assigned versionCode ${version_codes.join(', ')} to the "${track}" track (status: ${releaseStatus}).`);
+
+    await client.commitEdit(edit_id);
+    core.info('Successfully committed Google Play edit.');
+    return { versionCodes: version_codes, editId: edit_id };
+  } catch (error) {
+    try {
+      await client.deleteEdit(edit_id);
+    } catch (cleanupError) {
+      core.warning(`Failed to delete Google Play edit ${edit_id}: ${(cleanupError as Error).message}`);
+    }
+    throw error;
+  }
+}
+
+export function parseGooglePlayTrack(value: string): GooglePlayTrack {
+  const normalized = value.trim().toLowerCase();
+  if (!GOOGLE_PLAY_TRACKS.includes(normalized as GooglePlayTrack)) {
+    throw new Error(`Unsupported Google Play track: ${value}. Expected ${GOOGLE_PLAY_TRACKS.join(', ')}.`);
+  }
+  return normalized as GooglePlayTrack;
+}
+
+export function parseGooglePlayReleaseStatus(value: string): GooglePlayReleaseStatus {
+  const normalized = value.trim().toLowerCase();
+  if (!GOOGLE_PLAY_RELEASE_STATUSES.includes(normalized as GooglePlayReleaseStatus)) {
+    throw new Error(
+      `Unsupported Google Play release status: ${value}. Expected ${GOOGLE_PLAY_RELEASE_STATUSES.join(', ')}.`,
+    );
+  }
+  return normalized as GooglePlayReleaseStatus;
+}
+
+class AndroidPublisherClient {
+  private readonly edits_url: string;
+  private readonly upload_edits_url: string;
+
+  constructor(api_base_url: string, package_name: string, private readonly access_token: string) {
+    const app_path = `androidpublisher/v3/applications/${encodeURIComponent(package_name)}/edits`;
+    this.edits_url = `${api_base_url}/${app_path}`;
+    this.upload_edits_url = `${api_base_url}/upload/${app_path}`;
+  }
+
+  async insertEdit(): Promise<string> {
+    const body = await this.request<{ id?: string }>('POST', this.edits_url, { json: {} });
+    if (!body.id) {
+      throw new Error('Google Play did not return an edit id.');
+    }
+    return body.id;
+  }
+
+  async upload(edit_id: string, kind: 'bundles' | 'apks', data: Buffer): Promise<number> {
+    const url = `${this.upload_edits_url}/${encodeURIComponent(edit_id)}/${kind}?uploadType=media`;
+    const body = await this.request<{ versionCode?: number }>('POST', url, { binary: data });
+    if (typeof body.versionCode !== 'number') {
+      throw new Error(`Google Play did not return a versionCode for the uploaded ${kind === 'bundles' ? 'bundle' : 'APK'}.`);
+    }
+    return body.versionCode;
+  }
+
+  async updateTrack(edit_id: string, track: GooglePlayTrack, release: Record<string, unknown>): Promise<void> {
+    const url = `${this.edits_url}/${encodeURIComponent(edit_id)}/tracks/${track}`;
+    await this.request('PUT', url, { json: { track, releases: [release] } });
+  }
+
+  async commitEdit(edit_id: string): Promise<void> {
+    await this.request('POST', `${this.edits_url}/${encodeURIComponent(edit_id)}:commit`, {});
+  }
+
+  async deleteEdit(edit_id: string): Promise<void> {
+    await this.request('DELETE', `${this.edits_url}/${encodeURIComponent(edit_id)}`, {});
+  }
+
+  private async request<T>(
+    method: string,
+    url: string,
+    payload: { json?: unknown; binary?: Buffer },
+  ): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.access_token}` };
+    let body: BodyInit | undefined;
+    if (payload.binary) {
+      headers['Content-Type'] = 'application/octet-stream';
+      body = new Blob([new Uint8Array(payload.binary)]);
+    } else if (payload.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(payload.json);
+    }
+
+    const response = await fetch(url, { method, headers, body });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Google Play API ${method} ${url} failed (${response.status}): ${extractApiError(text)}`);
+    }
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+}
+
+async function fetchAccessToken(service_account: ServiceAccountKey, token_uri: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = signJwt(service_account.private_key, {
+    iss: service_account.client_email,
+    scope: ANDROID_PUBLISHER_SCOPE,
+    aud: token_uri,
+    iat: now,
+    exp: now + 3600,
+  });
+
+  const response = await fetch(token_uri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }).toString(),
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`Google OAuth token request failed (${response.status}): ${extractApiError(text)}`);
+  }
+  const token = (JSON.parse(text) as { access_token?: string }).access_token;
+  if (!token) {
+    throw new Error('Google OAuth token response did not include an access_token.');
+  }
+  return token;
+}
+
+function signJwt(private_key: string, claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signing_input = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = createSign('RSA-SHA256').update(signing_input).sign(private_key).toString('base64url');
+  return `${signing_input}.${signature}`;
+}
+
+function parseServiceAccountKey(json: string): ServiceAccountKey {
+  let parsed: Partial<ServiceAccountKey>;
+  try {
+    parsed = JSON.parse(json) as Partial<ServiceAccountKey>;
+  } catch (error) {
+    throw new Error(`Google Play service account JSON is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!parsed.client_email || !parsed.private_key) {
+    throw new Error('Google Play service account JSON must contain client_email and private_key.');
+  }
+  return {
+    client_email: parsed.client_email,
+    private_key: parsed.private_key,
+    token_uri: parsed.token_uri,
+  };
+}
+
+function normalizeReleaseNotes(notes?: string): string | undefined {
+  const trimmed = notes?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length > MAX_RELEASE_NOTES_LENGTH) {
+    core.warning(`Google Play release notes exceed ${MAX_RELEASE_NOTES_LENGTH} characters; truncating.`);
+    return `${trimmed.slice(0, MAX_RELEASE_NOTES_LENGTH - 1)}…`;
+  }
+  return trimmed;
+}
+
+function extractApiError(text: string): string {
+  try {
+    const parsed = JSON.parse(text) as { error?: { message?: string } | string; error_description?: string };
+    if (typeof parsed.error === 'object' && parsed.error?.message) {
+      return parsed.error.message;
+    }
+    return parsed.error_description ?? (typeof parsed.error === 'string' ? parsed.error : text);
+  } catch {
+    return text || 'empty response';
+  }
+}
+
+/**
+ * Files to upload to Google Play: the AAB, else the universal APK, else every per-ABI APK
+ * (`android_abi` lists or several Android `targets`). Empty when no Android package was built.
+ */
+export function pickAndroidPlayArtifacts(artifacts: Artifact[]): Artifact[] {
+  const candidates = artifacts.filter((artifact) => {
+    const path = artifact.path.toLowerCase();
+    return artifact.platform === 'android' && (path.endsWith('.aab') || path.endsWith('.apk'));
+  });
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const release_candidates = candidates.filter((artifact) => artifact.mode === 'release');
+  const pool = release_candidates.length > 0 ? release_candidates : candidates;
+  // Play serves per-ABI splits from a bundle, so prefer the AAB (one per ABI with several Android
+  // `targets`), then the universal APK.
+  const bundles = pool.filter((artifact) => artifact.path.toLowerCase().endsWith('.aab'));
+  if (bundles.length > 0) {
+    return bundles;
+  }
+  const universal = pool.find((artifact) => artifact.arch === 'universal');
+  return universal ? [universal] : pool;
+}
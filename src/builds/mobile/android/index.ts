@@ -0,0 +1,378 @@
+import { existsSync } from "fs";
+import { basename, join } from "path";
+import { loadCargoProject } from "../../../cargo";
+import type { AndroidABI, AndroidPackageFormat, AndroidVariant, Artifact, BuildOptions, ConcreteAndroidABI, TargetArch } from "../../../types";
+import { cargoFeatureArgs, cargoProfileArgs, execCommand, retry } from "../../../utils";
+import { buildAndroidAppBundle } from "./bundle";
+import { ensureAndroidSigning, signAndroidApk, signAndroidAppBundle } from "./signing";
+import type { AndroidSigningContext } from "./signing";
+
+export type AndroidHostOs = 'windows_x64' | 'macos_x64' | 'macos_aarch64' | 'linux_x64';
+
+// 'default' is the standard Android build variant, 'quest' is for Oculus Quest (now Meta Quest) VR devices
+export interface AndroidBuildOptions {
+  abi: AndroidABI;
+  package_name: string;
+  app_label: string;
+  sdk_path?: string;
+  full_ndk?: boolean; // Install the full NDK prebuilts for the selected host OS (default installs a minimal subset). Required for apps compiling native code in Rust.
+  keep_sdk_sources?: boolean; // Keep downloaded SDK source files (default is to remove them).
+  host_os?: AndroidHostOs;
+  variant?: AndroidVariant;
+}
+
+export interface AndroidPackagingConfig {
+  identifier: string; // e.g., com.example.makepadapp
+  product_name: string; // e.g., MakepadApp
+  version: string; // e.g., 1.0.0
+}
+
+// Toolchains installed by this process, so later builds (debug mode, other apps) skip `install-toolchain`.
+const installed_android_toolchains = new Set<string>();
+
+export async function installAndroidBuildDependencies(abi: AndroidABI | AndroidABI[], fullNdk: boolean = false) {
+  const abi_arg = formatAndroidAbiArg(abi);
+  const toolchain_key = `${abi_arg}${fullNdk ? ':full-ndk' : ''}`;
+  if (installed_android_toolchains.has(toolchain_key)) {
+    console.log(`Android toolchain for ABI '${abi_arg}' is already installed.`);
+    return;
+  }
+  console.log(`🔧 Installing Android build dependencies for ABI: ${abi_arg}...`);
+  let installed = false;
+
+  await retry(async () => {
+    const args = [
+      'makepad',
+      'android',
+      `--abi=${abi_arg}`,
+      'install-toolchain',
+    ];
+
+    if (fullNdk) {
+      args.push('--full-ndk');
+    }
+
+    const { matched } = await execCommand(
+        'cargo',
+        args,
+        {
+          captureOutput: true,
+          keyword: 'Android toolchain has been installed',
+        }
+      );
+
+      if (matched) {
+        installed = true;
+        console.log('🎉 Android toolchain installation verified successfully.');
+      } else {
+        throw new Error('Android toolchain installation verification failed. Will retry...');
+      }
+    }, 3, 5000, (attempt, err) => {
+      console.warn(`❌ Attempt ${attempt} to install Android build dependencies failed:`, err);
+      console.log('⏳ Retrying...');
+    }
+  );
+
+  if (!installed) {
+    throw new Error('❌ Android toolchain installation did not complete successfully after retries.');
+  }
+
+  installed_android_toolchains.add(toolchain_key);
+  console.log(`✅ Android build dependencies for ABI '${abi_arg}' are installed and verified.`);
+}
+
+export interface AndroidApkBuildStep {
+  abi_arg: string;
+  app_label: string;
+  cargo_args: string[];
+  artifact: Artifact;
+}
+
+/**
+ * Everything `buildAndroidArtifacts` will run and produce, resolved without touching the toolchain.
+ */
+export interface AndroidBuildPlan {
+  package_identifier: string;
+  identifier_changed: boolean;
+  abis: ConcreteAndroidABI[];
+  cargo_extra_args: string[];
+  apk_steps: AndroidApkBuildStep[];
+  universal_step?: AndroidApkBuildStep;
+  aab?: { source: AndroidApkBuildStep; aab_path: string };
+  artifacts: Artifact[];
+}
+
+export function planAndroidBuild(root: string, buildOptions: BuildOptions): AndroidBuildPlan {
+  const { target_info: { arch }, app_name, app_version, identifier, package_name, mode, android_abi, android_variant } = buildOptions as {
+    target_info: { arch: TargetArch };
+    app_name: string;
+    app_version: string;
+    identifier: string;
+    package_name: string;
+    mode: 'debug' | 'release';
+    android_abi?: AndroidABI | AndroidABI[];
+    android_variant?: AndroidVariant;
+  };
+
+  const { value: package_identifier, changed: identifier_changed } = sanitizeAndroidPackageName(identifier);
+  const resolved_abis = resolveAndroidAbis(android_abi, arch);
+  const variant_arg = android_variant && android_variant !== 'default'
+    ? [`--variant=${android_variant}`]
+    : [];
+  const cargo_extra_args = [
+    ...(buildOptions.mobile_cargo_extra_args ?? []),
+    ...(buildOptions.android_cargo_extra_args ?? []),
+  ];
+
+  // <target dir>/makepad-android-apk/<package_name>/apk/
+  const android_build_path = join(loadCargoProject(root).target_directory, 'makepad-android-apk', package_name);
+  const apk_build_path = join(android_build_path, 'apk');
+  const apk_step = (abi_arg: string, label_suffix: string, artifact_arch: TargetArch): AndroidApkBuildStep => {
+    const apk_prefix = `${app_name}_v${app_version}_${label_suffix}`;
+    const app_label = mode === 'debug' ? `${apk_prefix}_debug` : apk_prefix;
+    return {
+      abi_arg,
+      app_label,
+      cargo_args: [
+        'makepad',
+        'android',
+        `--abi=${abi_arg}`,
+        '--package-name=' + package_identifier,
+        '--app-label=' + app_label,
+        ...variant_arg,
+        'build',
+        '-p',
+        package_name,
+        ...cargo_extra_args,
+        ...cargoFeatureArgs(buildOptions),
+        ...cargoProfileArgs(buildOptions),
+      ],
+      artifact: {
+        path: join(apk_build_path, `${app_label}.apk`),
+        mode,
+        version: app_version,
+        platform: 'android',
+        arch: artifact_arch,
+      },
+    };
+  };
+
+  const package_format = buildOptions.android_package_format ?? 'apk';
+  const include_apks = package_format !== 'aab';
+  const include_aab = package_format !== 'apk';
+  const multi_abi = resolved_abis.length > 1;
+
+  // A multi-ABI bundle is built from the universal APK, so per-ABI APKs are skipped when only an AAB is wanted.
+  const apk_steps = include_apks || !multi_abi
+    ? resolved_abis.map((abi) => apk_step(abi, abi, abi))
+    : [];
+
+  const include_universal_apk = Boolean(buildOptions.android_universal_apk) && include_apks;
+  const universal_step = multi_abi && (include_universal_apk || include_aab)
+    // cargo-makepad packs every ABI passed via --abi into a single APK.
+    ? apk_step(resolved_abis.join(','), 'universal', 'universal')
+    : undefined;
+
+  const artifacts: Artifact[] = [];
+  if (include_apks) {
+    artifacts.push(...apk_steps.map((step) => step.artifact));
+    if (include_universal_apk && universal_step) {
+      artifacts.push(universal_step.artifact);
+    }
+  }
+
+  let aab: AndroidBuildPlan['aab'];
+  if (include_aab) {
+    const source = universal_step ?? apk_steps[0];
+    const aab_path = join(android_build_path, 'aab', `${basename(source.artifact.path, '.apk')}.aab`);
+    aab = { source, aab_path };
+    artifacts.push({ ...source.artifact, path: aab_path });
+  }
+
+  return {
+    package_identifier,
+    identifier_changed,
+    abis: resolved_abis,
+    cargo_extra_args,
+    apk_steps,
+    universal_step,
+    aab,
+    artifacts,
+  };
+}
+
+export async function buildAndroidArtifacts(
+  root: string,
+  buildOptions: BuildOptions
+): Promise<Artifact[]> {
+  console.log('Building Android artifacts...');
+
+  const { identifier, mode } = buildOptions as { identifier: string; mode: 'debug' | 'release' };
+  const plan = planAndroidBuild(root, buildOptions);
+
+  if (plan.identifier_changed) {
+    console.warn(`⚠️  Android package name normalized from "${identifier}" to "${plan.package_identifier}".`);
+  }
+  if (plan.cargo_extra_args.length > 0) {
+    console.log(`Using ${plan.cargo_extra_args.length} extra Android cargo arg(s).`);
+  }
+
+  if (mode === 'debug') {
+    console.log(' ⚠️  WARNING - compiling a DEBUG build of the application, this creates a very slow and big app. Enable include_release for a fast build, or set profile (e.g. small) for a small one.');
+  }
+  if (plan.abis.length > 1) {
+    console.log(`Building ${plan.abis.length} Android ABIs in sequence: ${plan.abis.join(', ')}`);
+  }
+  if (buildOptions.android_universal_apk && plan.abis.length <= 1) {
+    console.warn('⚠️  android_universal_apk requires more than one ABI; skipping universal APK.');
+  }
+
+  let signing: AndroidSigningContext | undefined;
+  if (mode === 'release') {
+    signing = await ensureAndroidSigning({
+      android_keystore_base64: buildOptions.android_keystore_base64,
+      android_keystore_password: buildOptions.android_keystore_password,
+      android_key_alias: buildOptions.android_key_alias,
+      android_key_password: buildOptions.android_key_password,
+    });
+    if (!signing) {
+      console.warn(' ⚠️  ANDROID_KEYSTORE_BASE64 not set; release APK/AAB will not be signed with a release key.');
+    }
+  }
+
+  try {
+    const run_step = async (step: AndroidApkBuildStep): Promise<void> => {
+      console.log(` ⚙️  Building Android ${mode} APK (abi=${step.abi_arg})...`);
+      await execCommand('cargo', step.cargo_args, { cwd: root });
+
+      const apk_path = step.artifact.path;
+      if (!existsSync(apk_path)) {
+        console.warn(`⚠️  Android APK not found after build: ${apk_path}`);
+      } else if (signing) {
+        await signAndroidApk(apk_path, signing);
+      }
+    };
+
+    for (const step of plan.apk_steps) {
+      await run_step(step);
+    }
+    if (plan.universal_step) {
+      await run_step(plan.universal_step);
+    }
+
+    const built_apks = [...plan.apk_steps, ...(plan.universal_step ? [plan.universal_step] : [])]
+      .map((step) => step.artifact);
+    const missing = built_apks.filter((artifact) => !existsSync(artifact.path));
+    if (built_apks.length > 1 && missing.length > 0) {
+      throw new Error(
+        `Android APK(s) missing after multi-ABI build (a later build may have cleaned the output directory):\n${missing.map((artifact) => artifact.path).join('\n')}`,
+      );
+    }
+
+    if (plan.aab) {
+      const { source, aab_path } = plan.aab;
+      console.log(` ⚙️  Building Android App Bundle from ${source.artifact.path}...`);
+      await buildAndroidAppBundle({ apk_path: source.artifact.path, output_path: aab_path });
+      if (signing) {
+        await signAndroidAppBundle(aab_path, signing);
+      }
+    }
+
+    return plan.artifacts;
+  } finally {
+    if (signing) {
+      try {
+        await signing.cleanup();
+      } catch (cleanupError) {
+        console.warn(
+          `Failed to clean up temporary Android signing resources: ${(cleanupError as Error).message}`,
+        );
+      }
+    }
+  }
+}
+
+const ANDROID_CONCRETE_ABIS: ConcreteAndroidABI[] = ['x86_64', 'aarch64', 'armv7', 'i686'];
+
+/**
+ * Parse an ABI selection: a single ABI, `all`, or a comma-separated list such as `aarch64,armv7`.
+ */
+export function parseAndroidAbiSelection(value: string): AndroidABI | AndroidABI[] {
+  const parts = value
+    .split(',')
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Android ABI selection is empty.');
+  }
+
+  const allowed: AndroidABI[] = ['all', ...ANDROID_CONCRETE_ABIS];
+  for (const part of parts) {
+    if (!allowed.includes(part as AndroidABI)) {
+      throw new Error(`Unsupported Android ABI: ${part}`);
+    }
+  }
+  if (parts.length > 1 && parts.includes('all')) {
+    throw new Error('Android ABI "all" cannot be combined with other ABIs.');
+  }
+
+  return parts.length === 1 ? parts[0] as AndroidABI : parts as AndroidABI[];
+}
+
+/**
+ * Expand an ABI selection into the concrete ABIs to build, in a stable order without duplicates.
+ */
+export function resolveAndroidAbis(
+  requested: AndroidABI | AndroidABI[] | undefined,
+  arch: TargetArch,
+): ConcreteAndroidABI[] {
+  const list = Array.isArray(requested) ? requested : [requested ?? arch];
+  if (list.includes('all')) {
+    return [...ANDROID_CONCRETE_ABIS];
+  }
+
+  const resolved: ConcreteAndroidABI[] = [];
+  for (const abi of list) {
+    if (!ANDROID_CONCRETE_ABIS.includes(abi as ConcreteAndroidABI)) {
+      throw new Error(`Unsupported Android ABI: ${abi}`);
+    }
+    if (!resolved.includes(abi as ConcreteAndroidABI)) {
+      resolved.push(abi as ConcreteAndroidABI);
+    }
+  }
+
+  return resolved;
+}
+
+export function parseAndroidPackageFormat(value: string): AndroidPackageFormat {
+  const normalized = value.trim().toLowerCase();
+  if (normalized !== 'apk' && normalized !== 'aab' && normalized !== 'both') {
+    throw new Error(`Unsupported Android package format: ${value}. Expected apk, aab or both.`);
+  }
+  return normalized;
+}
+
+function formatAndroidAbiArg(abi: AndroidABI | AndroidABI[]): string {
+  return Array.isArray(abi) ? abi.join(',') : abi;
+}
+
+export function sanitizeAndroidPackageName(identifier: string): { value: string; changed: boolean } {
+  const original = String(identifier ?? '');
+  const parts = original
+    .split('.')
+    .map((part) => String(part).trim())
+    .filter(Boolean)
+    .map((part) => {
+      let normalized = part.replace(/-/g, '_').replace(/[^A-Za-z0-9_]/g, '_');
+      if (!normalized) {
+        normalized = 'app';
+      }
+      if (!/^[A-Za-z]/.test(normalized)) {
+        normalized = `app_${normalized}`;
+      }
+      return normalized.toLowerCase();
+    });
+
+  const sanitized = parts.length > 0 ? parts.join('.') : 'org.makepad.app';
+  return { value: sanitized, changed: sanitized !== original };
+}
@@ -0,0 +1,133 @@
+import { existsSync, mkdtempSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { execCommand, isCommandAvailable } from "../../../utils";
+import { resolveAndroidBuildTool } from "./tools";
+
+export interface AndroidSigningContext {
+  keystore_path: string;
+  key_alias: string;
+  // Passwords are handed to apksigner/jarsigner through env vars so they never appear in argv.
+  env: NodeJS.ProcessEnv;
+  cleanup: () => Promise<void>;
+}
+
+const KEYSTORE_PASSWORD_ENV = 'MAKEPAD_ANDROID_SIGNING_KS_PASS';
+const KEY_PASSWORD_ENV = 'MAKEPAD_ANDROID_SIGNING_KEY_PASS';
+
+/**
+ * Materialize the release keystore from ANDROID_KEYSTORE_BASE64 into a temp dir.
+ * Returns undefined when no keystore is configured; throws when the configuration is incomplete.
+ */
+export async function ensureAndroidSigning(params: {
+  android_keystore_base64?: string;
+  android_keystore_password?: string;
+  android_key_alias?: string;
+  android_key_password?: string;
+}): Promise<AndroidSigningContext | undefined> {
+  const {
+    android_keystore_base64,
+    android_keystore_password,
+    android_key_alias,
+    android_key_password,
+  } = params;
+
+  if (!android_keystore_base64) {
+    if (android_keystore_password || android_key_alias || android_key_password) {
+      throw new Error('ANDROID_KEYSTORE_PASSWORD/ANDROID_KEY_ALIAS/ANDROID_KEY_PASSWORD are set but ANDROID_KEYSTORE_BASE64 is missing.');
+    }
+    return undefined;
+  }
+  if (!android_keystore_password || !android_key_alias) {
+    throw new Error('Android signing requires ANDROID_KEYSTORE_BASE64, ANDROID_KEYSTORE_PASSWORD and ANDROID_KEY_ALIAS.');
+  }
+
+  const keystore = Buffer.from(android_keystore_base64.replace(/\s+/g, ''), 'base64');
+  if (keystore.length === 0) {
+    throw new Error('ANDROID_KEYSTORE_BASE64 is not valid base64 content.');
+  }
+
+  const temp_dir = mkdtempSync(join(process.env.RUNNER_TEMP ?? tmpdir(), 'makepad-android-signing-'));
+  const keystore_path = join(temp_dir, 'release.keystore');
+  writeFileSync(keystore_path, keystore, { mode: 0o600 });
+
+  const cleanup = async (): Promise<void> => {
+    rmSync(temp_dir, { recursive: true, force: true });
+  };
+
+  return {
+    keystore_path,
+    key_alias: android_key_alias,
+    env: {
+      ...process.env,
+      [KEYSTORE_PASSWORD_ENV]: android_keystore_password,
+      [KEY_PASSWORD_ENV]: android_key_password ?? android_keystore_password,
+    },
+    cleanup,
+  };
+}
+
+/**
+ * Zipalign and sign an APK in place with the release key, then verify the signature.
+ */
+export async function signAndroidApk(apk_path: string, signing: AndroidSigningContext): Promise<void> {
+  if (!existsSync(apk_path)) {
+    throw new Error(`Cannot sign APK: file not found at ${apk_path}`);
+  }
+
+  const zipalign = resolveAndroidBuildTool('zipalign');
+  const apksigner = resolveAndroidBuildTool('apksigner');
+  const aligned_path = `${apk_path}.aligned`;
+
+  try {
+    console.log(`🔏 Zipaligning ${apk_path}...`);
+    await execCommand(zipalign, ['-f', '-p', '4', apk_path, aligned_path]);
+
+    console.log(`🔏 Signing ${apk_path} with alias "${signing.key_alias}"...`);
+    await execCommand(apksigner, [
+      'sign',
+      '--ks', signing.keystore_path,
+      '--ks-key-alias', signing.key_alias,
+      '--ks-pass', `env:${KEYSTORE_PASSWORD_ENV}`,
+      '--key-pass', `env:${KEY_PASSWORD_ENV}`,
+      '--v4-signing-enabled', 'false',
+      aligned_path,
+    ], { env: signing.env });
+
+    renameSync(aligned_path, apk_path);
+    await execCommand(apksigner, ['verify', '--verbose', apk_path]);
+    console.log(`✅ APK signed and verified: ${apk_path}`);
+  } finally {
+    rmSync(aligned_path, { force: true });
+  }
+}
+
+/**
+ * Sign an Android App Bundle in place with jarsigner (the format Play expects for upload keys), then verify it.
+ */
+export async function signAndroidAppBundle(aab_path: string, signing: AndroidSigningContext): Promise<void> {
+  if (!existsSync(aab_path)) {
+    throw new Error(`Cannot sign App Bundle: file not found at ${aab_path}`);
+  }
+  if (!isCommandAvailable('jarsigner').installed) {
+    throw new Error('jarsigner (from a JDK) is required to sign Android App Bundles.');
+  }
+
+  console.log(`🔏 Signing ${aab_path} with alias "${signing.key_alias}"...`);
+  await execCommand('jarsigner', [
+    '-keystore', signing.keystore_path,
+    '-storepass:env', KEYSTORE_PASSWORD_ENV,
+    '-keypass:env', KEY_PASSWORD_ENV,
+    aab_path,
+    signing.key_alias,
+  ], { env: signing.env });
+
+  const { matched } = await execCommand('jarsigner', ['-verify', aab_path], {
+    captureOutput: true,
+    keyword: 'jar verified',
+  });
+  if (!matched) {
+    throw new Error(`Signature verification failed for ${aab_path}.`);
+  }
+  console.log(`✅ App Bundle signed and verified: ${aab_path}`);
+}
@@ -0,0 +1,102 @@
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { getEnvValue, isCommandAvailable, retry } from "../../../utils";
+
+export type AndroidBuildTool = 'aapt2' | 'zipalign' | 'apksigner';
+
+const BUNDLETOOL_VERSION = '1.17.2';
+
+/**
+ * Locate an Android SDK build tool (aapt2, zipalign, apksigner).
+ * Lookup order: PATH, then the newest `build-tools/<version>` of ANDROID_HOME / ANDROID_SDK_ROOT.
+ */
+export function resolveAndroidBuildTool(tool: AndroidBuildTool): string {
+  const on_path = isCommandAvailable(tool);
+  if (on_path.installed && on_path.path) {
+    return on_path.path;
+  }
+
+  const executable = process.platform === 'win32'
+    ? (tool === 'apksigner' ? `${tool}.bat` : `${tool}.exe`)
+    : tool;
+
+  for (const sdk_root of resolveAndroidSdkRoots()) {
+    const build_tools_dir = join(sdk_root, 'build-tools');
+    if (!existsSync(build_tools_dir)) continue;
+
+    const versions = readdirSync(build_tools_dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort(compareBuildToolsVersions)
+      .reverse();
+    for (const version of versions) {
+      const candidate = join(build_tools_dir, version, executable);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  throw new Error(
+    `Android build tool "${tool}" not found. Add it to PATH or set ANDROID_HOME/ANDROID_SDK_ROOT to an SDK with build-tools installed.`,
+  );
+}
+
+/**
+ * Resolve the command used to run bundletool: a `bundletool` on PATH, a jar from BUNDLETOOL_JAR,
+ * or a pinned release jar downloaded into the runner temp directory.
+ */
+export async function resolveBundletoolCommand(): Promise<{ cmd: string; args: string[] }> {
+  const on_path = isCommandAvailable('bundletool');
+  if (on_path.installed && on_path.path) {
+    return { cmd: on_path.path, args: [] };
+  }
+
+  const configured_jar = getEnvValue('BUNDLETOOL_JAR');
+  if (configured_jar) {
+    if (!existsSync(configured_jar)) {
+      throw new Error(`BUNDLETOOL_JAR points to a missing file: ${configured_jar}`);
+    }
+    return { cmd: 'java', args: ['-jar', configured_jar] };
+  }
+
+  const cache_dir = join(process.env.RUNNER_TOOL_CACHE ?? process.env.RUNNER_TEMP ?? tmpdir(), 'makepad-bundletool');
+  const jar_path = join(cache_dir, `bundletool-all-${BUNDLETOOL_VERSION}.jar`);
+  if (!existsSync(jar_path)) {
+    const url = `https://github.com/google/bundletool/releases/download/${BUNDLETOOL_VERSION}/bundletool-all-${BUNDLETOOL_VERSION}.jar`;
+    console.log(`Downloading bundletool ${BUNDLETOOL_VERSION}...`);
+    mkdirSync(cache_dir, { recursive: true });
+    await retry(async () => {
+      const response = await fetch(url, { redirect: 'follow' });
+      if (!response.ok) {
+        throw new Error(`Failed to download bundletool (${response.status} ${response.statusText}).`);
+      }
+      writeFileSync(jar_path, Buffer.from(await response.arrayBuffer()));
+    }, 3, 5000, (attempt, err) => {
+      console.warn(`Attempt ${attempt} to download bundletool failed:`, err);
+    });
+  }
+
+  return { cmd: 'java', args: ['-jar', jar_path] };
+}
+
+function resolveAndroidSdkRoots(): string[] {
+  const roots = [
+    getEnvValue('ANDROID_HOME'),
+    getEnvValue('ANDROID_SDK_ROOT'),
+    process.platform === 'darwin' ? join(homedir(), 'Library', 'Android', 'sdk') : undefined,
+    process.platform === 'linux' ? join(homedir(), 'Android', 'Sdk') : undefined,
+  ].filter((root): root is string => Boolean(root));
+  return Array.from(new Set(roots));
+}
+
+function compareBuildToolsVersions(a: string, b: string): number {
+  const pa = a.split(/[.-]/).map((part) => Number.parseInt(part, 10) || 0);
+  const pb = b.split(/[.-]/).map((part) => Number.parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
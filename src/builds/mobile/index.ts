@@ -1,5 +1,6 @@
+import { checkMakepadMainBinary, loadCargoProject } from "../../cargo";
 import { PackagingConfig } from "../../config";
-import type { Artifact, BuildOptions, InitOptions, MobileTarget, TargetArch } from "../../types";
+import type { AndroidABI, Artifact, BuildOptions, InitOptions, MobileTarget, TargetArch } from "../../types";
 import { execCommand, isCommandAvailable, retry } from "../../utils";
 import { buildAndroidArtifacts, installAndroidBuildDependencies } from "./android";
 import { buildIosArtifacts, installIosBuildDependencies } from "./ios";
@@ -67,22 +68,15 @@ export async function buildMobileArtifacts(
 ): Promise<Artifact[]> {
   console.log("Building for mobile...");
 
-  const { android_config } = PackagingConfig.fromMobilePackagingConfig(root);
+  applyMobileBuildDefaults(root, initOptions, buildOptions);
 
   const { target_info: { target_platform, arch } } = buildOptions as {
     target_info: { target_platform: MobileTarget; arch: TargetArch };
   };
 
-  const { app_version, app_name, identifier, main_binary_name } = initOptions;
-
-  buildOptions.app_version = app_version ?? android_config.version;
-  buildOptions.app_name = app_name ?? android_config.product_name;
-  buildOptions.identifier = identifier ?? android_config.identifier;
-  buildOptions.main_binary_name = main_binary_name ?? android_config.main_binary_name;
-
   if (target_platform === "android") {
     await installAndroidBuildDependencies(
-      buildOptions.android_abi ?? arch,
+      buildOptions.android_abi ?? (arch as AndroidABI),
       buildOptions.android_full_ndk ?? false,
     );
     return await buildAndroidArtifacts(root, buildOptions);
@@ -95,3 +89,27 @@ export async function buildMobileArtifacts(
 
   return [];
 }
+
+/**
+ * Fill app name/version/identifier/binary from init options, falling back to Cargo.toml defaults.
+ * cargo-makepad builds the Cargo package (`-p <package>`), which may be named unlike its binary.
+ */
+export function applyMobileBuildDefaults(
+  root: string,
+  initOptions: InitOptions,
+  buildOptions: BuildOptions,
+): void {
+  const { android_config } = PackagingConfig.fromMobilePackagingConfig(root);
+  const { app_version, app_name, identifier, main_binary_name } = initOptions;
+
+  buildOptions.app_version = app_version ?? android_config.version;
+  buildOptions.app_name = app_name ?? android_config.product_name;
+  buildOptions.identifier = identifier ?? android_config.identifier;
+  buildOptions.main_binary_name = main_binary_name;
+  const cargo_package = loadCargoProject(root).package;
+  buildOptions.package_name = cargo_package?.name;
+  // iOS uses main_binary for its bundle identifiers; Android only builds the package.
+  if (cargo_package && buildOptions.target_info?.target_platform === "android") {
+    checkMakepadMainBinary(cargo_package, main_binary_name, "Android");
+  }
+}
@@ -1,11 +1,19 @@
 import { copyFileSync, existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
-import { join } from "path";
+import { basename, join } from "path";
 import { homedir, tmpdir } from "os";
 import { randomBytes } from "crypto";
+import { loadCargoProject } from "../../../cargo";
 import type { Artifact, BuildOptions, TargetArch } from "../../../types";
-import { execCommand, retry } from "../../../utils";
+import { cargoFeatureArgs, cargoProfileArgs, cargoProfileDir, execCommand, retry } from "../../../utils";
+
+// Set once `install-toolchain` succeeded, so later builds (debug mode, other apps) skip it.
+let ios_toolchain_installed = false;
 
 export async function installIosBuildDependencies(): Promise<void> {
+  if (ios_toolchain_installed) {
+    console.log('iOS toolchain is already installed.');
+    return;
+  }
   console.log('🔧 Installing iOS build dependencies...');
   await retry(async () => {
     await execCommand('cargo', ['makepad', 'apple', 'ios', 'install-toolchain']);
@@ -13,6 +21,7 @@ export async function installIosBuildDependencies(): Promise<void> {
     console.warn(`❌ Attempt ${attempt} to install iOS toolchain failed:`, err);
     console.log('⏳ Retrying...');
   });
+  ios_toolchain_installed = true;
   console.log('✅ iOS toolchain installed successfully.');
 }
 
@@ -24,19 +33,11 @@ export async function buildIosArtifacts(
 
   const {
     target_info,
-    app_name,
-    app_version,
-    identifier,
-    main_binary_name,
-    mode,
-    ios_org,
-    ios_app,
+    package_name,
     ios_profile,
     ios_cert,
     ios_sim,
     ios_create_ipa,
-    mobile_cargo_extra_args,
-    ios_cargo_extra_args,
     apple_certificate,
     apple_certificate_password,
     apple_provisioning_profile,
@@ -48,18 +49,10 @@ export async function buildIosArtifacts(
     throw new Error('Missing target info for iOS build.');
   }
 
-  if (!main_binary_name) {
-    throw new Error('Missing main binary name for iOS build.');
+  if (!package_name) {
+    throw new Error('Missing Cargo package name for iOS build.');
   }
 
-  const resolved = resolveIosIdentifiers({
-    ios_org,
-    ios_app,
-    identifier,
-    app_name,
-    main_binary_name,
-  });
-
   let resolved_profile = ios_profile;
   let resolved_cert = ios_cert;
   let signing_cleanup: (() => Promise<void>) | undefined;
@@ -85,59 +78,29 @@ export async function buildIosArtifacts(
     throw new Error('ios_profile and ios_cert are required for iOS device builds.');
   }
 
-  const cargo_args = [
-    'makepad',
-    'apple',
-    'ios',
-    `--org=${resolved.org}`,
-    `--app=${resolved.app}`,
-  ];
-
-  if (resolved_profile) cargo_args.push(`--profile=${resolved_profile}`);
-  if (resolved_cert) cargo_args.push(`--cert=${resolved_cert}`);
-  if (!ios_sim) {
-    cargo_args.push('--device=iPhone');
-  }
-  cargo_args.push(ios_sim ? 'run-sim' : 'run-device');
-  cargo_args.push('-p', main_binary_name);
-  const platform_cargo_extra_args = [
-    ...(mobile_cargo_extra_args ?? []),
-    ...(ios_cargo_extra_args ?? []),
-  ];
-  if (platform_cargo_extra_args.length > 0) {
-    console.log(`Using ${platform_cargo_extra_args.length} extra iOS cargo arg(s).`);
-    cargo_args.push(...platform_cargo_extra_args);
+  const plan = planIosBuild(root, buildOptions, { profile: resolved_profile, cert: resolved_cert });
+  if (plan.cargo_extra_args.length > 0) {
+    console.log(`Using ${plan.cargo_extra_args.length} extra iOS cargo arg(s).`);
   }
-  if (mode === 'release') cargo_args.push('--release');
 
-  await execCommand('cargo', cargo_args, { cwd: root });
-
-  const target_dir = resolveIosTargetDir(target_info.arch, ios_sim);
-  const output_dir = join(root, 'target', 'makepad-apple-app', target_dir, mode ?? 'release');
-  const app_bundle_name = `${resolved.app}.app`;
-  const app_bundle_path = join(output_dir, app_bundle_name);
+  await execCommand('cargo', plan.cargo_args, { cwd: root });
 
+  const { output_dir, app_bundle_name, app_bundle_path } = plan;
   if (!existsSync(app_bundle_path)) {
     console.warn(`⚠️  iOS app bundle not found: ${app_bundle_path}`);
   }
 
-  const artifacts: Artifact[] = [{
-    path: app_bundle_path,
-    mode: mode ?? 'release',
-    version: app_version ?? '0.0.0',
-    platform: 'ios',
-    arch: target_info.arch,
-  }];
+  const artifacts: Artifact[] = [plan.artifacts[0]];
 
   if (ios_create_ipa) {
     if (ios_sim) {
       console.warn('⚠️  ios_create_ipa is ignored for simulator builds.');
     } else {
-      if (!app_version) {
+      const ipa = plan.artifacts[1];
+      if (!ipa) {
         throw new Error('app_version is required to create an IPA.');
       }
-      const ipa_label = app_name ?? resolved.app;
-      const ipa_name = `${ipa_label}-${app_version}-ios.ipa`;
+      const ipa_name = basename(ipa.path);
       const payload_dir = join(output_dir, 'Payload');
 
       rmSync(payload_dir, { recursive: true, force: true });
@@ -146,13 +109,7 @@ export async function buildIosArtifacts(
       await execCommand('ditto', [app_bundle_name, join('Payload', app_bundle_name)], { cwd: output_dir });
       await execCommand('ditto', ['-c', '-k', '--sequesterRsrc', '--keepParent', 'Payload', ipa_name], { cwd: output_dir });
 
-      artifacts.push({
-        path: join(output_dir, ipa_name),
-        mode: mode ?? 'release',
-        version: app_version,
-        platform: 'ios',
-        arch: target_info.arch,
-      });
+      artifacts.push(ipa);
     }
   }
 
@@ -170,6 +127,103 @@ export async function buildIosArtifacts(
   }
 }
 
+export interface IosBuildPlan {
+  cargo_args: string[];
+  cargo_extra_args: string[];
+  output_dir: string;
+  app_bundle_name: string;
+  app_bundle_path: string;
+  // The .app bundle, plus the IPA when one will be created.
+  artifacts: Artifact[];
+}
+
+/**
+ * Resolve the `cargo makepad apple ios` command line and output paths for the given signing values.
+ */
+export function planIosBuild(
+  root: string,
+  buildOptions: BuildOptions,
+  signing: { profile?: string; cert?: string },
+): IosBuildPlan {
+  const {
+    target_info,
+    app_name,
+    app_version,
+    identifier,
+    main_binary_name,
+    package_name,
+    mode,
+    ios_org,
+    ios_app,
+    ios_sim,
+    ios_create_ipa,
+    mobile_cargo_extra_args,
+    ios_cargo_extra_args,
+  } = buildOptions;
+
+  if (!target_info) {
+    throw new Error('Missing target info for iOS build.');
+  }
+  if (!package_name) {
+    throw new Error('Missing Cargo package name for iOS build.');
+  }
+
+  const resolved = resolveIosIdentifiers({
+    ios_org,
+    ios_app,
+    identifier,
+    app_name,
+    main_binary_name: main_binary_name ?? package_name,
+  });
+
+  const cargo_args = [
+    'makepad',
+    'apple',
+    'ios',
+    `--org=${resolved.org}`,
+    `--app=${resolved.app}`,
+  ];
+
+  if (signing.profile) cargo_args.push(`--profile=${signing.profile}`);
+  if (signing.cert) cargo_args.push(`--cert=${signing.cert}`);
+  if (!ios_sim) {
+    cargo_args.push('--device=iPhone');
+  }
+  cargo_args.push(ios_sim ? 'run-sim' : 'run-device');
+  cargo_args.push('-p', package_name);
+  const cargo_extra_args = [
+    ...(mobile_cargo_extra_args ?? []),
+    ...(ios_cargo_extra_args ?? []),
+  ];
+  // `--profile=` before the subcommand is the provisioning profile; the cargo profile flag goes last.
+  cargo_args.push(...cargo_extra_args, ...cargoFeatureArgs(buildOptions), ...cargoProfileArgs(buildOptions));
+
+  const target_dir = resolveIosTargetDir(target_info.arch, ios_sim);
+  const output_dir = join(loadCargoProject(root).target_directory, 'makepad-apple-app', target_dir, cargoProfileDir(buildOptions));
+  const app_bundle_name = `${resolved.app}.app`;
+  const app_bundle_path = join(output_dir, app_bundle_name);
+
+  const artifacts: Artifact[] = [{
+    path: app_bundle_path,
+    mode: mode ?? 'release',
+    version: app_version ?? '0.0.0',
+    platform: 'ios',
+    arch: target_info.arch,
+  }];
+  if (ios_create_ipa && !ios_sim && app_version) {
+    const ipa_label = app_name ?? resolved.app;
+    artifacts.push({
+      path: join(output_dir, `${ipa_label}-${app_version}-ios.ipa`),
+      mode: mode ?? 'release',
+      version: app_version,
+      platform: 'ios',
+      arch: target_info.arch,
+    });
+  }
+
+  return { cargo_args, cargo_extra_args, output_dir, app_bundle_name, app_bundle_path, artifacts };
+}
+
 function resolveIosIdentifiers(params: {
   ios_org?: string;
   ios_app?: string;
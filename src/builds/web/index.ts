@@ -0,0 +1,115 @@
+import { existsSync, readdirSync, rmSync } from "fs";
+import { join } from "path";
+import { checkMakepadMainBinary, loadCargoProject } from "../../cargo";
+import type { Artifact, BuildOptions, InitOptions } from "../../types";
+import { cargoFeatureArgs, cargoProfileArgs, cargoProfileDir, execCommand, retry, zipDirectory } from "../../utils";
+
+// `cargo makepad wasm build` writes the web bundle (index.html, .wasm, JS bridge, resources)
+// to <target dir>/makepad-wasm-app/<profile>/<crate>/.
+// Set once `install-toolchain` succeeded, so later builds (debug mode, other apps) skip it.
+let wasm_toolchain_installed = false;
+
+export async function installWebBuildDependencies(): Promise<void> {
+  if (wasm_toolchain_installed) {
+    console.log('wasm toolchain is already installed.');
+    return;
+  }
+  console.log('🔧 Installing wasm build dependencies...');
+  await retry(async () => {
+    await execCommand('cargo', ['makepad', 'wasm', 'install-toolchain']);
+  }, 3, 5000, (attempt, err) => {
+    console.warn(`❌ Attempt ${attempt} to install wasm toolchain failed:`, err);
+    console.log('⏳ Retrying...');
+  });
+  wasm_toolchain_installed = true;
+  console.log('✅ wasm toolchain installed successfully.');
+}
+
+export interface WebBuildPlan {
+  cargo_args: string[];
+  output_dir: string;
+  artifact: Artifact;
+}
+
+export function planWebBuild(
+  root: string,
+  initOptions: InitOptions,
+  buildOptions: BuildOptions,
+): WebBuildPlan {
+  const { package: cargo_package, target_directory } = loadCargoProject(root);
+  const app_name = initOptions.app_name ?? cargo_package?.name;
+  const app_version = initOptions.app_version ?? cargo_package?.version;
+  const package_name = cargo_package?.name;
+  if (!app_name || !app_version || !package_name) {
+    throw new Error('Missing app name or version from Cargo.toml (including workspace.package inheritance).');
+  }
+  checkMakepadMainBinary(cargo_package, initOptions.main_binary_name, 'web');
+
+  const mode = buildOptions.mode ?? 'release';
+  const cargo_extra_args = buildOptions.web_cargo_extra_args ?? [];
+  const cargo_args = [
+    'makepad', 'wasm', 'build', '-p', package_name,
+    ...cargo_extra_args,
+    ...cargoFeatureArgs(buildOptions),
+    ...cargoProfileArgs(buildOptions),
+  ];
+  const profile_dir = join(target_directory, 'makepad-wasm-app', cargoProfileDir(buildOptions));
+
+  return {
+    cargo_args,
+    output_dir: join(profile_dir, package_name),
+    artifact: {
+      path: join(profile_dir, `${app_name}-${app_version}-web.zip`),
+      mode,
+      version: app_version,
+      platform: 'web',
+      arch: 'wasm32',
+    },
+  };
+}
+
+export async function buildWebArtifacts(
+  root: string,
+  initOptions: InitOptions,
+  buildOptions: BuildOptions,
+): Promise<Artifact[]> {
+  console.log('Building web (wasm) artifacts...');
+
+  const plan = planWebBuild(root, initOptions, buildOptions);
+  const cargo_extra_args = buildOptions.web_cargo_extra_args ?? [];
+  if (cargo_extra_args.length > 0) {
+    console.log(`Using ${cargo_extra_args.length} extra wasm cargo arg(s).`);
+  }
+
+  await execCommand('cargo', plan.cargo_args, { cwd: root });
+
+  assertWebBundleComplete(plan.output_dir);
+
+  const zip_path = plan.artifact.path;
+  rmSync(zip_path, { force: true });
+  console.log(`Zipping web bundle: ${plan.output_dir} -> ${zip_path}`);
+  await zipDirectory(plan.output_dir, zip_path);
+
+  return [plan.artifact];
+}
+
+function assertWebBundleComplete(output_dir: string): void {
+  if (!existsSync(output_dir)) {
+    throw new Error(`Web bundle directory not found after build: ${output_dir}`);
+  }
+
+  const missing: string[] = [];
+  if (!existsSync(join(output_dir, 'index.html'))) missing.push('index.html');
+  if (!containsFileWithSuffix(output_dir, '.wasm')) missing.push('*.wasm');
+  if (missing.length > 0) {
+    throw new Error(`Web bundle at ${output_dir} is incomplete; missing ${missing.join(', ')}.`);
+  }
+}
+
+function containsFileWithSuffix(dir: string, suffix: string): boolean {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isFile() && entry.name.toLowerCase().endsWith(suffix)) return true;
+    if (entry.isDirectory() && containsFileWithSuffix(join(dir, entry.name), suffix)) return true;
+  }
+  return false;
+}
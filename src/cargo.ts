@@ -0,0 +1,276 @@
+import * as core from '@actions/core';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readdirSync, realpathSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { parse_manifest_toml } from './utils';
+
+export interface CargoPackage {
+  name: string;
+  version: string;
+  manifest_path: string;
+  // Inherited `workspace.package` values are already resolved.
+  description?: string;
+  authors: string[];
+  license?: string;
+  homepage?: string;
+  repository?: string;
+  default_run?: string;
+  // Names of the `bin` targets, including the implicit `src/main.rs` and `src/bin/*.rs` ones.
+  bins: string[];
+  // `[package.metadata]`, e.g. `metadata.packager` for cargo-packager.
+  metadata: Record<string, any>;
+}
+
+/**
+ * The cargo project a build runs in, as reported by `cargo metadata`.
+ */
+export interface CargoProject {
+  workspace_root: string;
+  // Honors `CARGO_TARGET_DIR` and `build.target-dir`; shared target dirs of monorepos included.
+  target_directory: string;
+  // Package whose manifest is `<root>/Cargo.toml`; undefined for a virtual workspace manifest.
+  package?: CargoPackage;
+  // Workspace members.
+  packages: CargoPackage[];
+}
+
+type CargoMetadataTarget = { name: string; kind: string[] };
+
+type CargoMetadataPackage = {
+  id: string;
+  name: string;
+  version: string;
+  manifest_path: string;
+  description?: string | null;
+  authors?: string[];
+  license?: string | null;
+  homepage?: string | null;
+  repository?: string | null;
+  default_run?: string | null;
+  targets?: CargoMetadataTarget[];
+  metadata?: Record<string, any> | null;
+};
+
+type CargoMetadata = {
+  packages: CargoMetadataPackage[];
+  workspace_members?: string[];
+  workspace_root: string;
+  target_directory: string;
+};
+
+const projects = new Map<string, CargoProject>();
+
+function samePath(a: string, b: string): boolean {
+  if (resolve(a) === resolve(b)) {
+    return true;
+  }
+  try {
+    return realpathSync(a) === realpathSync(b);
+  } catch {
+    return false;
+  }
+}
+
+function mapMetadataPackage(pkg: CargoMetadataPackage): CargoPackage {
+  return {
+    name: pkg.name,
+    version: pkg.version,
+    manifest_path: pkg.manifest_path,
+    description: pkg.description ?? undefined,
+    authors: pkg.authors ?? [],
+    license: pkg.license ?? undefined,
+    homepage: pkg.homepage ?? undefined,
+    repository: pkg.repository ?? undefined,
+    default_run: pkg.default_run ?? undefined,
+    bins: (pkg.targets ?? []).filter((target) => target.kind.includes('bin')).map((target) => target.name),
+    metadata: pkg.metadata ?? {},
+  };
+}
+
+function readCargoMetadata(manifest_path: string): CargoMetadata {
+  const output = execFileSync(
+    'cargo',
+    ['metadata', '--format-version', '1', '--no-deps', '--manifest-path', manifest_path],
+    // Cargo reads `.cargo/config.toml` (and `build.target-dir`) relative to the working directory.
+    { cwd: dirname(manifest_path), encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'], timeout: 120_000, maxBuffer: 64 * 1024 * 1024 },
+  );
+  return JSON.parse(output) as CargoMetadata;
+}
+
+function toNonEmptyString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function findWorkspaceRoot(root: string): string | undefined {
+  let dir = resolve(root);
+  while (true) {
+    if (existsSync(join(dir, 'Cargo.toml')) && (parse_manifest_toml(dir) as Record<string, unknown> | null)?.workspace) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read the package at `root` from its Cargo.toml, resolving `field.workspace = true` from the
+ * enclosing workspace. Used when `cargo metadata` is not available (e.g. dry runs without Rust).
+ */
+function readManifestPackage(root: string, workspace_root: string | undefined): CargoPackage | undefined {
+  if (!existsSync(join(root, 'Cargo.toml'))) {
+    return undefined;
+  }
+  const manifest = parse_manifest_toml(root) as Record<string, any> | null;
+  const table = manifest?.package as Record<string, any> | undefined;
+  if (!table) {
+    return undefined;
+  }
+  const workspace_package = workspace_root
+    ? (parse_manifest_toml(workspace_root) as Record<string, any> | null)?.workspace?.package as Record<string, any> | undefined
+    : undefined;
+  const field = (key: string): unknown =>
+    table[key]?.workspace === true ? workspace_package?.[key] : table[key];
+
+  const name = toNonEmptyString(field('name'));
+  if (!name) {
+    return undefined;
+  }
+  const authors = field('authors');
+  const bins = new Set<string>();
+  for (const bin of Array.isArray(manifest?.bin) ? manifest.bin : []) {
+    const bin_name = toNonEmptyString(bin?.name);
+    if (bin_name) bins.add(bin_name);
+  }
+  if (table.autobins !== false) {
+    if (existsSync(join(root, 'src', 'main.rs'))) bins.add(name);
+    const bin_dir = join(root, 'src', 'bin');
+    if (existsSync(bin_dir)) {
+      for (const entry of readdirSync(bin_dir, { withFileTypes: true })) {
+        if (entry.isFile() && entry.name.endsWith('.rs')) bins.add(basename(entry.name, '.rs'));
+        else if (entry.isDirectory() && existsSync(join(bin_dir, entry.name, 'main.rs'))) bins.add(entry.name);
+      }
+    }
+  }
+
+  return {
+    name,
+    version: toNonEmptyString(field('version')) ?? '0.0.0',
+    manifest_path: join(root, 'Cargo.toml'),
+    description: toNonEmptyString(field('description')),
+    authors: Array.isArray(authors) ? authors.map(String) : [],
+    license: toNonEmptyString(field('license')),
+    homepage: toNonEmptyString(field('homepage')),
+    repository: toNonEmptyString(field('repository')),
+    default_run: toNonEmptyString(table['default-run']),
+    bins: Array.from(bins),
+    metadata: (table.metadata as Record<string, any> | undefined) ?? {},
+  };
+}
+
+function loadCargoProjectFromManifest(root: string): CargoProject {
+  const workspace_root = findWorkspaceRoot(root);
+  const env_target_dir = toNonEmptyString(process.env.CARGO_TARGET_DIR);
+  const pkg = readManifestPackage(root, workspace_root);
+  return {
+    workspace_root: workspace_root ?? root,
+    target_directory: env_target_dir ? resolve(env_target_dir) : join(workspace_root ?? root, 'target'),
+    package: pkg,
+    packages: pkg ? [pkg] : [],
+  };
+}
+
+/**
+ * Project model of the cargo project at `root` from `cargo metadata --no-deps`, cached per root.
+ * Falls back to reading Cargo.toml (and `CARGO_TARGET_DIR`) when cargo is missing or fails;
+ * `build.target-dir` from `.cargo/config.toml` is only honored through cargo.
+ */
+export function loadCargoProject(root: string): CargoProject {
+  const key = resolve(root);
+  const cached = projects.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const manifest_path = join(key, 'Cargo.toml');
+  let project: CargoProject;
+  if (!existsSync(manifest_path)) {
+    project = loadCargoProjectFromManifest(key);
+  } else {
+    try {
+      const metadata = readCargoMetadata(manifest_path);
+      const members = new Set(metadata.workspace_members ?? []);
+      const packages = metadata.packages
+        .filter((pkg) => members.size === 0 || members.has(pkg.id))
+        .map(mapMetadataPackage);
+      project = {
+        workspace_root: metadata.workspace_root,
+        target_directory: metadata.target_directory,
+        package: packages.find((pkg) => samePath(pkg.manifest_path, manifest_path)),
+        packages,
+      };
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      core.warning(
+        `cargo metadata failed for ${manifest_path}; reading Cargo.toml instead: ${stderr || (error as Error).message}`,
+      );
+      project = loadCargoProjectFromManifest(key);
+    }
+  }
+
+  projects.set(key, project);
+  return project;
+}
+
+/**
+ * Binary a desktop build packages, checked against the cargo-packager config. In order: `explicit`
+ * (`main_binary`), the only `bin` target, `default-run`, the `bin` named like the package.
+ * Packages without `bin` targets (library-only crates) use the package name.
+ */
+export function resolveMainBinary(pkg: CargoPackage, explicit?: string): string {
+  const bins = pkg.bins;
+  if (explicit) {
+    if (bins.length > 0 && !bins.includes(explicit)) {
+      throw new Error(
+        `main_binary "${explicit}" is not a binary of package "${pkg.name}" (binaries: ${bins.join(', ')}).`,
+      );
+    }
+    return explicit;
+  }
+  if (bins.length === 0) {
+    return pkg.name;
+  }
+  if (bins.length === 1) {
+    return bins[0];
+  }
+  if (pkg.default_run && bins.includes(pkg.default_run)) {
+    return pkg.default_run;
+  }
+  if (bins.includes(pkg.name)) {
+    return pkg.name;
+  }
+  throw new Error(
+    `Package "${pkg.name}" has several binaries (${bins.join(', ')}) and none is the default. ` +
+    'Set the main_binary input, [app].main_binary in makepad-packaging.toml, or default-run in Cargo.toml.',
+  );
+}
+
+/**
+ * cargo-makepad builds (Android, web) select the package (`-p <package>`), not a binary: check
+ * that `main_binary` is one of its binaries and warn when it names another one than the package.
+ */
+export function checkMakepadMainBinary(pkg: CargoPackage, explicit: string | undefined, target: string): void {
+  if (!explicit) {
+    return;
+  }
+  resolveMainBinary(pkg, explicit);
+  if (explicit !== pkg.name) {
+    core.warning(
+      `main_binary "${explicit}" does not apply to ${target} builds: cargo-makepad builds package "${pkg.name}" (-p ${pkg.name}).`,
+    );
+  }
+}
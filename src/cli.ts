@@ -0,0 +1,294 @@
+#!/usr/bin/env node
+import { execFileSync } from 'node:child_process';
+import { resolve } from 'node:path';
+import { createStaticInputProvider } from './inputs';
+import { runPipeline } from './pipeline';
+import type { PipelineOptions } from './pipeline';
+
+type CliCommand = NonNullable<PipelineOptions['command']>;
+
+const COMMANDS: readonly CliCommand[] = ['build', 'release', 'plan', 'aggregate'];
+
+// Inputs from action.yaml. Each one is accepted as `--<name>` and in kebab-case (`--tag-name`).
+const VALUE_INPUTS = [
+  'args',
+  'packager_formats',
+  'packager_args',
+  'tagName',
+  'releaseName',
+  'releaseBody',
+  'release_notes',
+  'changelog_path',
+  'artifact_manifest',
+  'aggregate_manifests',
+  'expected_platforms',
+  'releaseId',
+  'releaseCommitish',
+  'retryAttempts',
+  'owner',
+  'repo',
+  'githubBaseUrl',
+  'release_backend',
+  'release_server_url',
+  's3_bucket',
+  's3_region',
+  's3_endpoint',
+  's3_prefix',
+  's3_public_url',
+  'updater_feed',
+  'updater_feed_base_url',
+  'update_channel',
+  'releaseAssetNamePattern',
+  'asset_name_template',
+  'asset_prefix',
+  'github_token',
+  'app_name',
+  'app_version',
+  'identifier',
+  'main_binary',
+  'apps',
+  'profile',
+  'flavors',
+  'targets',
+  'project_path',
+  'config_path',
+];
+const BOOLEAN_INPUTS = [
+  'uploadUpdaterJson',
+  'uploadUpdaterSignatures',
+  'signUpdaterArtifacts',
+  'uploadChecksums',
+  'checksumSha512',
+  'generateReleaseNotes',
+  'releaseDraft',
+  'prerelease',
+  'include_release',
+  'include_debug',
+  'upload_to_testflight',
+  'upload_to_google_play',
+  'enable_macos_notarization',
+  'update_channel_index',
+  'upload_artifact_manifest',
+  'publish_release',
+  'fail_on_missing_platforms',
+  'job_summary',
+  'pr_comment',
+  'allow_updater_downgrade',
+  'delta_updates',
+];
+
+const USAGE = `Usage: makepad-package <build|release|plan> [project_path] [options]
+       makepad-package aggregate <manifest_dir> [options]
+
+Commands:
+  build      Build and package artifacts; no release upload or store delivery.
+  release    Build, then upload to a release (requires --tag-name or --release-id).
+  plan       Print what a release run would do without building or uploading.
+  aggregate  Combine the makepad-artifacts.json of matrix jobs into one updater JSON and checksum set.
+
+Options mirror the action inputs, e.g.:
+  --args "--target aarch64-linux-android"
+  --tag-name v__VERSION__ --release-draft --no-upload-checksums
+  --owner <owner> --repo <repo>   (default: GITHUB_REPOSITORY, then the git origin remote)
+
+Value inputs:   ${VALUE_INPUTS.join(', ')}
+Boolean inputs: ${BOOLEAN_INPUTS.join(', ')} (use --no-<name> to disable)
+
+Environment variables (MAKEPAD_*, signing secrets, release backend tokens) and makepad-packaging.toml
+are read exactly as in the action.`;
+
+const normalizeFlagName = (name: string): string => name.replace(/[-_]/g, '').toLowerCase();
+const INPUT_BY_FLAG = new Map(
+  [...VALUE_INPUTS, ...BOOLEAN_INPUTS].map((name) => [normalizeFlagName(name), name]),
+);
+
+class CliUsageError extends Error {}
+
+function parseArguments(argv: string[]): { command: CliCommand; inputs: Record<string, string> } {
+  const [command, ...rest] = argv;
+  if (!COMMANDS.includes(command as CliCommand)) {
+    throw new CliUsageError(command ? `Unknown command: ${command}` : 'Missing command.');
+  }
+
+  const inputs: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [raw_name, inline_value] = splitFlag(arg.slice(2));
+    const negated = inline_value === undefined && raw_name.startsWith('no-');
+    const name = INPUT_BY_FLAG.get(normalizeFlagName(negated ? raw_name.slice(3) : raw_name));
+    if (!name) {
+      throw new CliUsageError(`Unknown option: --${raw_name}`);
+    }
+
+    if (BOOLEAN_INPUTS.includes(name)) {
+      inputs[name] = inline_value ?? String(!negated);
+      continue;
+    }
+    if (negated) {
+      throw new CliUsageError(`--${raw_name} is not a boolean option.`);
+    }
+    const value = inline_value ?? rest[++i];
+    if (value === undefined) {
+      throw new CliUsageError(`Missing value for --${raw_name}.`);
+    }
+    inputs[name] = value;
+  }
+
+  if (positional.length > 1) {
+    throw new CliUsageError(`Unexpected arguments: ${positional.slice(1).join(' ')}`);
+  }
+  if (positional[0] && command === 'aggregate') {
+    inputs.aggregate_manifests ??= positional[0];
+  } else if (positional[0]) {
+    inputs.project_path ??= positional[0];
+  }
+  return { command: command as CliCommand, inputs };
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+  const index = flag.indexOf('=');
+  return index < 0 ? [flag, undefined] : [flag.slice(0, index), flag.slice(index + 1)];
+}
+
+/**
+ * Resolve `owner/repo` from the git origin remote so local release runs need no extra flags.
+ */
+function resolveRepositoryFromGit(cwd: string): { owner: string; repo: string } | undefined {
+  try {
+    const url = execFileSync('git', ['remote', 'get-url', 'origin'], {
+      cwd,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    const match = url.match(/[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+    return match ? { owner: match[1], repo: match[2] } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rewrite GitHub workflow commands printed by @actions/core (`::warning::`, `::group::`)
+ * into plain terminal text.
+ */
+function installTerminalLogFormatter(): void {
+  const write = process.stdout.write.bind(process.stdout);
+  process.stdout.write = ((chunk: unknown, ...rest: unknown[]) => {
+    if (typeof chunk === 'string' && chunk.startsWith('::')) {
+      chunk = formatWorkflowCommand(chunk);
+    }
+    return (write as (...args: unknown[]) => boolean)(chunk, ...rest);
+  }) as typeof process.stdout.write;
+}
+
+function formatWorkflowCommand(line: string): string {
+  const match = line.match(/^::([\w-]+)(?: [^:]*)?::(.*?)(\r?\n)?$/s);
+  if (!match) {
+    return line;
+  }
+  const [, command, data, eol = ''] = match;
+  const message = data.replace(/%0D/g, '\r').replace(/%0A/g, '\n').replace(/%25/g, '%');
+  switch (command) {
+    case 'warning':
+    case 'error':
+    case 'notice':
+      return `${command}: ${message}${eol}`;
+    case 'group':
+      return `\n== ${message} ==${eol}`;
+    case 'debug':
+      return process.env.RUNNER_DEBUG === '1' ? `debug: ${message}${eol}` : '';
+    case 'endgroup':
+    case 'add-mask':
+      return '';
+    default:
+      return line;
+  }
+}
+
+async function main(): Promise<number> {
+  const argv = process.argv.slice(2);
+  if (argv.length === 0 || argv[0] === '--help' || argv[0] === '-h' || argv[0] === 'help') {
+    console.log(USAGE);
+    return argv.length === 0 ? 1 : 0;
+  }
+
+  let parsed: ReturnType<typeof parseArguments>;
+  try {
+    parsed = parseArguments(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+  const { command, inputs } = parsed;
+
+  if (command !== 'build' && !process.env.GITHUB_REPOSITORY && !(inputs.owner && inputs.repo)) {
+    const repository = resolveRepositoryFromGit(resolve(process.cwd(), inputs.project_path ?? '.'));
+    if (repository) {
+      inputs.owner ??= repository.owner;
+      inputs.repo ??= repository.repo;
+    }
+  }
+
+  installTerminalLogFormatter();
+  const outputs = new Map<string, string>();
+  try {
+    await runPipeline(createStaticInputProvider(inputs), {
+      command,
+      setOutput: (name, value) => outputs.set(name, value),
+    });
+  } catch (error) {
+    console.error(`\nerror: ${(error as Error).message ?? String(error)}`);
+    return 1;
+  }
+
+  printSummary(outputs);
+  return 0;
+}
+
+function printSummary(outputs: Map<string, string>): void {
+  const lines = ['', 'Summary:'];
+  const app_name = outputs.get('app_name');
+  const app_version = outputs.get('app_version');
+  if (app_name || app_version) {
+    lines.push(`  App: ${app_name ?? '(unknown)'} ${app_version ?? ''}`.trimEnd());
+  }
+
+  const artifacts = JSON.parse(outputs.get('artifacts') ?? '[]') as {
+    path: string;
+    platform: string;
+    arch: string;
+    mode: string;
+    profile?: string;
+    flavor?: string;
+    asset_name?: string;
+  }[];
+  lines.push(`  Artifacts (${artifacts.length}):`);
+  for (const artifact of artifacts) {
+    const asset = artifact.asset_name ? ` -> ${artifact.asset_name}` : '';
+    const build = [artifact.profile ?? artifact.mode, artifact.flavor].filter(Boolean).join(' ');
+    lines.push(`    [${artifact.platform}/${artifact.arch} ${build}] ${artifact.path}${asset}`);
+  }
+
+  const release_url = outputs.get('release_url');
+  if (release_url) {
+    lines.push(`  Release: ${release_url}`);
+  } else if (outputs.get('release_id')) {
+    lines.push(`  Release id: ${outputs.get('release_id')}`);
+  }
+  const artifact_manifest = outputs.get('artifact_manifest');
+  if (artifact_manifest) {
+    lines.push(`  Manifest: ${artifact_manifest}`);
+  }
+  console.log(lines.join('\n'));
+}
+
+process.exitCode = await main();
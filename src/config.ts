@@ -1,25 +1,289 @@
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import { parse as parseToml } from '@iarna/toml';
+import stringArgv from 'string-argv';
 import { AndroidPackagingConfig } from "./builds/mobile/android";
-import { parse_manifest_toml, resolveManifestPackageField } from "./utils";
+import { loadCargoProject } from "./cargo";
+
+export const PACKAGING_CONFIG_FILE_NAME = 'makepad-packaging.toml';
+export const PACKAGING_CONFIG_VERSION = 1;
+
+export interface AppFileConfig {
+  name?: string;
+  version?: string;
+  identifier?: string;
+  main_binary?: string;
+  // Cargo profile of release builds, e.g. `small` or `dist`; `release` by default.
+  profile?: string;
+}
+
+// `[apps.<package>]`: one app of a multi-app workspace, keyed by its package name.
+export interface AppsEntryFileConfig extends AppFileConfig {
+  // Member directory relative to the project; by default the member is looked up by package name.
+  path?: string;
+  asset_name_template?: string;
+}
+
+// `[flavors.<name>]`: a named variant of the app built next to the others, e.g. `staging` or `pro`.
+export interface FlavorFileConfig {
+  profile?: string;
+  features?: string[];
+  // Appended to the identifier as is, e.g. `.staging`.
+  identifier_suffix?: string;
+  app_label?: string;
+}
+
+export interface AndroidFileConfig {
+  abi?: string[];
+  universal_apk?: boolean;
+  package_format?: string;
+  full_ndk?: boolean;
+  variant?: string;
+  cargo_extra_args?: string[];
+  upload_google_play?: boolean;
+  google_play_track?: string;
+  google_play_release_status?: string;
+  google_play_release_notes?: string;
+  google_play_package_name?: string;
+}
+
+export interface IosFileConfig {
+  org?: string;
+  app?: string;
+  profile?: string;
+  cert?: string;
+  sim?: boolean;
+  create_ipa?: boolean;
+  upload_testflight?: boolean;
+  cargo_extra_args?: string[];
+}
+
+export interface DesktopFileConfig {
+  packager_formats?: string[];
+  packager_args?: string[];
+  enable_macos_notarization?: boolean;
+}
+
+export interface WebFileConfig {
+  cargo_extra_args?: string[];
+}
+
+export interface ReleaseFileConfig {
+  tag_name?: string;
+  name?: string;
+  body?: string;
+  notes?: string;
+  changelog_path?: string;
+  commitish?: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  generate_release_notes?: boolean;
+  owner?: string;
+  repo?: string;
+  github_base_url?: string;
+  backend?: string;
+  server_url?: string;
+  s3_bucket?: string;
+  s3_region?: string;
+  s3_endpoint?: string;
+  s3_prefix?: string;
+  s3_public_url?: string;
+  updater_feed?: string;
+  updater_feed_base_url?: string;
+  update_channel?: string;
+  update_channel_index?: boolean;
+  allow_updater_downgrade?: boolean;
+  delta_updates?: boolean;
+  artifact_manifest?: string;
+  upload_artifact_manifest?: boolean;
+  expected_platforms?: string[];
+  publish_release?: boolean;
+  fail_on_missing_platforms?: boolean;
+  asset_name_template?: string;
+  asset_name_pattern?: string;
+  asset_prefix?: string;
+  upload_updater_json?: boolean;
+  upload_updater_signatures?: boolean;
+  sign_updater_artifacts?: boolean;
+  upload_checksums?: boolean;
+  checksum_sha512?: boolean;
+  retry_attempts?: number;
+}
+
+/**
+ * Parsed and validated contents of `makepad-packaging.toml`.
+ */
+export interface PackagingFileConfig {
+  version: number;
+  app: AppFileConfig;
+  apps: Record<string, AppsEntryFileConfig>;
+  flavors: Record<string, FlavorFileConfig>;
+  android: AndroidFileConfig;
+  ios: IosFileConfig;
+  desktop: DesktopFileConfig;
+  web: WebFileConfig;
+  release: ReleaseFileConfig;
+}
+
+type FileConfigSection = Exclude<keyof PackagingFileConfig, 'version' | 'apps' | 'flavors'>;
+// Sections holding one table per app or flavor.
+type FileConfigTableSection = 'apps' | 'flavors';
+
+// `list` accepts a TOML array of strings or a comma-separated string,
+// `args` accepts a TOML array of strings or a shell-like argument string.
+type FieldKind = 'string' | 'boolean' | 'integer' | 'list' | 'args';
+
+interface FieldSpec {
+  kind: FieldKind;
+  values?: readonly string[];
+}
+
+const ANDROID_ABI_VALUES = ['all', 'x86_64', 'aarch64', 'armv7', 'i686'] as const;
+const ANDROID_VARIANT_VALUES = ['default', 'quest'] as const;
+const ANDROID_PACKAGE_FORMAT_VALUES = ['apk', 'aab', 'both'] as const;
+const GOOGLE_PLAY_TRACK_VALUES = ['internal', 'alpha', 'beta', 'production'] as const;
+const GOOGLE_PLAY_RELEASE_STATUS_VALUES = ['completed', 'draft'] as const;
+const RELEASE_BACKEND_VALUES = ['github', 'gitea', 'forgejo', 'gitlab', 's3'] as const;
+
+const CONFIG_SCHEMA: Record<FileConfigSection, Record<string, FieldSpec>> = {
+  app: {
+    name: { kind: 'string' },
+    version: { kind: 'string' },
+    identifier: { kind: 'string' },
+    main_binary: { kind: 'string' },
+    profile: { kind: 'string' },
+  },
+  android: {
+    abi: { kind: 'list', values: ANDROID_ABI_VALUES },
+    universal_apk: { kind: 'boolean' },
+    package_format: { kind: 'string', values: ANDROID_PACKAGE_FORMAT_VALUES },
+    full_ndk: { kind: 'boolean' },
+    variant: { kind: 'string', values: ANDROID_VARIANT_VALUES },
+    cargo_extra_args: { kind: 'args' },
+    upload_google_play: { kind: 'boolean' },
+    google_play_track: { kind: 'string', values: GOOGLE_PLAY_TRACK_VALUES },
+    google_play_release_status: { kind: 'string', values: GOOGLE_PLAY_RELEASE_STATUS_VALUES },
+    google_play_release_notes: { kind: 'string' },
+    google_play_package_name: { kind: 'string' },
+  },
+  ios: {
+    org: { kind: 'string' },
+    app: { kind: 'string' },
+    profile: { kind: 'string' },
+    cert: { kind: 'string' },
+    sim: { kind: 'boolean' },
+    create_ipa: { kind: 'boolean' },
+    upload_testflight: { kind: 'boolean' },
+    cargo_extra_args: { kind: 'args' },
+  },
+  desktop: {
+    packager_formats: { kind: 'list' },
+    packager_args: { kind: 'args' },
+    enable_macos_notarization: { kind: 'boolean' },
+  },
+  web: {
+    cargo_extra_args: { kind: 'args' },
+  },
+  release: {
+    tag_name: { kind: 'string' },
+    name: { kind: 'string' },
+    body: { kind: 'string' },
+    notes: { kind: 'string' },
+    changelog_path: { kind: 'string' },
+    commitish: { kind: 'string' },
+    draft: { kind: 'boolean' },
+    prerelease: { kind: 'boolean' },
+    generate_release_notes: { kind: 'boolean' },
+    owner: { kind: 'string' },
+    repo: { kind: 'string' },
+    github_base_url: { kind: 'string' },
+    backend: { kind: 'string', values: RELEASE_BACKEND_VALUES },
+    server_url: { kind: 'string' },
+    s3_bucket: { kind: 'string' },
+    s3_region: { kind: 'string' },
+    s3_endpoint: { kind: 'string' },
+    s3_prefix: { kind: 'string' },
+    s3_public_url: { kind: 'string' },
+    updater_feed: { kind: 'string' },
+    updater_feed_base_url: { kind: 'string' },
+    update_channel: { kind: 'string' },
+    update_channel_index: { kind: 'boolean' },
+    allow_updater_downgrade: { kind: 'boolean' },
+    delta_updates: { kind: 'boolean' },
+    artifact_manifest: { kind: 'string' },
+    upload_artifact_manifest: { kind: 'boolean' },
+    expected_platforms: { kind: 'list' },
+    publish_release: { kind: 'boolean' },
+    fail_on_missing_platforms: { kind: 'boolean' },
+    asset_name_template: { kind: 'string' },
+    asset_name_pattern: { kind: 'string' },
+    asset_prefix: { kind: 'string' },
+    upload_updater_json: { kind: 'boolean' },
+    upload_updater_signatures: { kind: 'boolean' },
+    sign_updater_artifacts: { kind: 'boolean' },
+    upload_checksums: { kind: 'boolean' },
+    checksum_sha512: { kind: 'boolean' },
+    retry_attempts: { kind: 'integer' },
+  },
+};
+
+const APPS_ENTRY_SCHEMA: Record<string, FieldSpec> = {
+  ...CONFIG_SCHEMA.app,
+  path: { kind: 'string' },
+  asset_name_template: { kind: 'string' },
+};
+
+const FLAVOR_SCHEMA: Record<string, FieldSpec> = {
+  profile: { kind: 'string' },
+  features: { kind: 'list' },
+  identifier_suffix: { kind: 'string' },
+  app_label: { kind: 'string' },
+};
+
+const TABLE_SECTION_SCHEMA: Record<FileConfigTableSection, Record<string, FieldSpec>> = {
+  apps: APPS_ENTRY_SCHEMA,
+  flavors: FLAVOR_SCHEMA,
+};
+
+/**
+ * Pick the first defined value, in precedence order (input > env > file > Cargo.toml).
+ */
+export function resolveLayered<T>(...values: (T | undefined)[]): T | undefined {
+  return values.find((value) => value !== undefined);
+}
 
 export class PackagingConfig {
 
   android_config!: AndroidPackagingConfig;
+  file_config?: PackagingFileConfig;
+  file_path?: string;
   // ios_config?: IOSPackagingConfig; // Define iOSPackagingConfig similarly when needed
   // other mobile platform configs...
 
+  /**
+   * Load `makepad-packaging.toml` from the project (or an explicit path relative to it).
+   * A missing default file is not an error; a missing explicit file is.
+   */
+  public static load(project_path: string, config_path?: string): PackagingConfig {
+    const config = new PackagingConfig();
+    const explicit = Boolean(config_path);
+    const file_path = config_path
+      ? (isAbsolute(config_path) ? config_path : resolve(project_path, config_path))
+      : join(project_path, PACKAGING_CONFIG_FILE_NAME);
+
+    if (!existsSync(file_path)) {
+      if (explicit) {
+        throw new Error(`Packaging config file not found: ${file_path}`);
+      }
+      return config;
+    }
+
+    config.file_path = file_path;
+    config.file_config = parsePackagingConfigFile(readFileSync(file_path, 'utf8'), file_path);
+    return config;
+  }
+
   public static fromMobilePackagingConfig(project_path: string): PackagingConfig {
-    // if (existsSync(join(project_path, 'makepad-packaging.toml'))) {
-    //   // Load and parse the makepad-packaging.toml file, to find the [mobile] section
-    //   // TODO: Implement parsing logic, but for now, just return a dummy config
-      
-    //   const config = new PackagingConfig();
-
-    //   const default_config = config.get_default_packaging_config(project_path);
-    //   config.android_config = default_config.android_config;
-    //   // config.ios_config = ... // Load iOS config if present
-    //   return config;
-    // }
-    // throw new Error('Mobile packaging configuration not found.');
     const config = new PackagingConfig();
     const default_config = config.get_default_packaging_config(project_path);
     config.android_config = default_config.android_config;
@@ -30,26 +294,219 @@ export class PackagingConfig {
   private get_default_packaging_config(project_path: string): {
     android_config: AndroidPackagingConfig;
   } {
-    const manifest = parse_manifest_toml(project_path) as Record<string, unknown> | null;
-    if (manifest) {
-      const name = resolveManifestPackageField(project_path, 'name');
-      const version = resolveManifestPackageField(project_path, 'version');
+    const cargo_package = loadCargoProject(project_path).package;
+    if (cargo_package) {
+      const { name, version } = cargo_package;
       if (!name || !version) {
         throw new Error('Could not resolve package name/version from Cargo.toml (including workspace.package inheritance).');
       }
       const identifier = `org.makepad.${name.toLowerCase()}`;
-      const main_binary_name = name; // Default to package name, can be overridden by [[bin]] section if needed.
       return {
         android_config: {
           identifier,
           product_name: name,
           version,
-          main_binary_name,
         }
       };
-    } 
+    }
 
     throw new Error('Could not determine default packaging configuration from Cargo.toml');
   }
 
 }
+
+/**
+ * Parse and validate the text of a `makepad-packaging.toml` file.
+ * All schema violations are reported together, each prefixed with `<file>:<line>`.
+ */
+export function parsePackagingConfigFile(contents: string, file_path: string): PackagingFileConfig {
+  let raw: Record<string, unknown>;
+  try {
+    raw = parseToml(contents) as Record<string, unknown>;
+  } catch (error) {
+    const toml_error = error as Error & { line?: number };
+    const line = typeof toml_error.line === 'number' ? toml_error.line + 1 : undefined;
+    const first_line = String(toml_error.message ?? error).split('\n')[0];
+    throw new Error(`${formatLocation(file_path, line)} invalid TOML: ${first_line}`);
+  }
+
+  const lines = indexKeyLines(contents);
+  const errors: string[] = [];
+  const report = (key: string, message: string) => {
+    errors.push(`${formatLocation(file_path, lines.get(key))} ${message}`);
+  };
+
+  const config: PackagingFileConfig = {
+    version: PACKAGING_CONFIG_VERSION,
+    app: {},
+    apps: {},
+    flavors: {},
+    android: {},
+    ios: {},
+    desktop: {},
+    web: {},
+    release: {},
+  };
+
+  if (raw.version === undefined) {
+    errors.push(`${formatLocation(file_path, 1)} missing required top-level key "version" (expected ${PACKAGING_CONFIG_VERSION}).`);
+  } else if (raw.version !== PACKAGING_CONFIG_VERSION) {
+    report('version', `unsupported config version ${JSON.stringify(raw.version)}; this action supports version = ${PACKAGING_CONFIG_VERSION}.`);
+  }
+
+  for (const [section_name, section_value] of Object.entries(raw)) {
+    if (section_name === 'version') continue;
+    const table_section = Object.prototype.hasOwnProperty.call(TABLE_SECTION_SCHEMA, section_name);
+    if (!table_section && !Object.prototype.hasOwnProperty.call(CONFIG_SCHEMA, section_name)) {
+      const expected = [...Object.keys(CONFIG_SCHEMA).map((name) => `[${name}]`), '[apps.<package>]', '[flavors.<name>]'];
+      report(section_name, `unknown section [${section_name}]; expected one of ${expected.join(', ')}.`);
+      continue;
+    }
+    if (!isTable(section_value)) {
+      report(section_name, `[${section_name}] must be a table.`);
+      continue;
+    }
+
+    if (table_section) {
+      const tables = section_name as FileConfigTableSection;
+      for (const [entry_key, entry_value] of Object.entries(section_value)) {
+        const section = `${tables}.${entry_key}`;
+        if (!isTable(entry_value)) {
+          report(section, `[${section}] must be a table.`);
+          continue;
+        }
+        const entry: Record<string, unknown> = {};
+        readSectionFields(entry_value, TABLE_SECTION_SCHEMA[tables], section, entry, report);
+        config[tables][entry_key] = entry;
+      }
+      continue;
+    }
+
+    const section = section_name as FileConfigSection;
+    readSectionFields(section_value, CONFIG_SCHEMA[section], section, config[section] as Record<string, unknown>, report);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${PACKAGING_CONFIG_FILE_NAME}:\n${errors.join('\n')}`);
+  }
+
+  return config;
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function readSectionFields(
+  values: Record<string, unknown>,
+  schema: Record<string, FieldSpec>,
+  section: string,
+  target: Record<string, unknown>,
+  report: (key: string, message: string) => void,
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    const path = `${section}.${key}`;
+    const spec = schema[key];
+    if (!spec) {
+      report(path, `unknown key "${key}" in [${section}].`);
+      continue;
+    }
+    const coerced = coerceField(value, spec);
+    if (coerced.error) {
+      report(path, `[${section}].${key} ${coerced.error}`);
+      continue;
+    }
+    target[key] = coerced.value;
+  }
+}
+
+function coerceField(value: unknown, spec: FieldSpec): { value?: unknown; error?: string } {
+  switch (spec.kind) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return { error: `must be a string, got ${describeTomlValue(value)}.` };
+      }
+      const trimmed = value.trim();
+      if (spec.values && !spec.values.includes(trimmed)) {
+        return { error: `must be one of ${spec.values.map((item) => `"${item}"`).join(', ')}, got "${trimmed}".` };
+      }
+      return { value: trimmed.length > 0 ? trimmed : undefined };
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return { error: `must be a boolean, got ${describeTomlValue(value)}.` };
+      }
+      return { value };
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        return { error: `must be a non-negative integer, got ${describeTomlValue(value)}.` };
+      }
+      return { value };
+    case 'list': {
+      let items: string[];
+      if (typeof value === 'string') {
+        items = value.split(',').map((item) => item.trim()).filter(Boolean);
+      } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+        items = value.map((item) => item.trim()).filter(Boolean);
+      } else {
+        return { error: `must be an array of strings or a comma-separated string, got ${describeTomlValue(value)}.` };
+      }
+      const invalid = spec.values ? items.filter((item) => !spec.values?.includes(item)) : [];
+      if (invalid.length > 0) {
+        return { error: `entries must be one of ${spec.values?.map((item) => `"${item}"`).join(', ')}, got ${invalid.map((item) => `"${item}"`).join(', ')}.` };
+      }
+      return { value: items };
+    }
+    case 'args':
+      if (typeof value === 'string') {
+        return { value: stringArgv(value) };
+      }
+      if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+        return { value: [...value] };
+      }
+      return { error: `must be an array of strings or an argument string, got ${describeTomlValue(value)}.` };
+  }
+}
+
+function describeTomlValue(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value instanceof Date) return 'a datetime';
+  if (value === null || value === undefined) return 'nothing';
+  if (typeof value === 'object') return 'a table';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function formatLocation(file_path: string, line?: number): string {
+  return line ? `${file_path}:${line}:` : `${file_path}:`;
+}
+
+/**
+ * Map `section.key` (and bare section/top-level key names) to 1-based line numbers,
+ * so schema errors can point at the offending line.
+ */
+function indexKeyLines(contents: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let section: string | undefined;
+
+  contents.split(/\r?\n/).forEach((text, index) => {
+    const line_number = index + 1;
+    const header = text.match(/^\s*\[\s*([A-Za-z0-9_.-]+)\s*\]/);
+    if (header) {
+      section = header[1];
+      if (!lines.has(section)) lines.set(section, line_number);
+      return;
+    }
+
+    const assignment = text.match(/^\s*("[^"]*"|[A-Za-z0-9_.-]+)\s*=/);
+    if (!assignment) return;
+    const key = assignment[1].replace(/^"|"$/g, '');
+    const path = section ? `${section}.${key}` : key;
+    if (!lines.has(path)) lines.set(path, line_number);
+    if (!section && key.includes('.')) {
+      const top_level = key.split('.')[0];
+      if (!lines.has(top_level)) lines.set(top_level, line_number);
+    }
+  });
+
+  return lines;
+}
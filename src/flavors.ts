@@ -0,0 +1,117 @@
+import { existsSync, mkdirSync, renameSync, rmSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { FlavorFileConfig } from './config';
+import type { Artifact, TargetInfo } from './types';
+
+/**
+ * Named variant of the app (`[flavors.<name>]`): its own cargo profile, features, identifier and label.
+ */
+export interface BuildFlavor {
+  name: string;
+  profile?: string;
+  features: string[];
+  identifier_suffix?: string;
+  app_label?: string;
+}
+
+// Flavor names end up in asset and updater JSON file names.
+const FLAVOR_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const CARGO_PROFILE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Validate a cargo profile name (`profile` input, `[app].profile`, `[flavors.<name>].profile`).
+ * Returns undefined when unset.
+ */
+export function parseCargoProfile(value: string | undefined, source = 'profile'): string | undefined {
+  const profile = (value ?? '').trim();
+  if (!profile) {
+    return undefined;
+  }
+  if (!CARGO_PROFILE_PATTERN.test(profile)) {
+    throw new Error(`Invalid ${source} "${value}". Cargo profile names use letters, digits, "-" and "_".`);
+  }
+  return profile;
+}
+
+/**
+ * Flavors of a run: the `flavors` input (names) in order, else every `[flavors.<name>]` table of the
+ * packaging config. Returns undefined when neither is set.
+ */
+export function resolveBuildFlavors(params: {
+  selection?: string[];
+  fileFlavors: Record<string, FlavorFileConfig>;
+}): BuildFlavor[] | undefined {
+  const { fileFlavors } = params;
+  const names = Array.from(new Set(params.selection ?? Object.keys(fileFlavors)));
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  return names.map((name): BuildFlavor => {
+    if (!FLAVOR_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid flavor name "${name}". Use lowercase letters, digits, ".", "_" or "-".`);
+    }
+    const entry = fileFlavors[name];
+    if (!entry) {
+      const defined = Object.keys(fileFlavors).join(', ') || 'none defined';
+      throw new Error(`Flavor "${name}" is not defined (flavors: ${defined}). Add [flavors.${name}] to the packaging config.`);
+    }
+    return {
+      name,
+      profile: parseCargoProfile(entry.profile, `[flavors.${name}].profile`),
+      features: entry.features ?? [],
+      identifier_suffix: entry.identifier_suffix,
+      app_label: entry.app_label,
+    };
+  });
+}
+
+/**
+ * Desktop builds run cargo-packager, which takes features (its before-packaging command), the
+ * identifier and the product name from its own config; only the profile reaches it. Fail instead of
+ * packaging a desktop flavor that would silently ignore its other settings.
+ */
+export function assertDesktopFlavors(flavors: BuildFlavor[], targets: TargetInfo[]): void {
+  const desktop = targets.find((target) => target.type === 'desktop');
+  if (!desktop) {
+    return;
+  }
+  for (const flavor of flavors) {
+    const ignored = [
+      flavor.features.length > 0 ? 'features' : undefined,
+      flavor.identifier_suffix ? 'identifier_suffix' : undefined,
+      flavor.app_label ? 'app_label' : undefined,
+    ].filter(Boolean);
+    if (ignored.length > 0) {
+      throw new Error(
+        `Flavor "${flavor.name}" sets ${ignored.join(', ')}, which the ${desktop.target_platform} build cannot apply: ` +
+        'cargo-packager reads them from package.metadata.packager and its before-packaging command. ' +
+        'Build these flavors for Android, iOS or web targets only, or keep desktop flavors to a profile.',
+      );
+    }
+  }
+}
+
+/**
+ * Where a flavor's artifact is kept: `<dir>/flavors/<flavor>/<file>`, so the next flavor's build,
+ * which writes the same file names, does not replace it.
+ */
+export function flavorArtifactPath(path: string, flavor: string): string {
+  return join(dirname(path), 'flavors', flavor, basename(path));
+}
+
+/**
+ * Move freshly built artifacts (and packager `.sig` files next to them) to their flavor directory.
+ */
+export function moveFlavorArtifacts(artifacts: Artifact[], flavor: string): Artifact[] {
+  return artifacts.map((artifact) => {
+    const path = flavorArtifactPath(artifact.path, flavor);
+    mkdirSync(dirname(path), { recursive: true });
+    rmSync(path, { recursive: true, force: true });
+    renameSync(artifact.path, path);
+    if (existsSync(`${artifact.path}.sig`)) {
+      renameSync(`${artifact.path}.sig`, `${path}.sig`);
+    }
+    return { ...artifact, path };
+  });
+}
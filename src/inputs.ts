@@ -0,0 +1,46 @@
+import * as core from '@actions/core';
+import { normalizeInput } from './utils';
+
+/**
+ * Where the pipeline reads its `action.yaml` inputs from.
+ * The action reads `INPUT_*` through @actions/core; the CLI maps command-line flags.
+ */
+export interface InputProvider {
+  // Returns '' when the input is not set, like `core.getInput`.
+  getInput(name: string): string;
+}
+
+export type OutputSink = (name: string, value: string) => void;
+
+export const actionInputProvider: InputProvider = {
+  getInput: (name) => core.getInput(name),
+};
+
+/**
+ * Serve inputs from a fixed map, keyed by the `action.yaml` input name.
+ */
+export function createStaticInputProvider(values: Record<string, string | undefined>): InputProvider {
+  return {
+    getInput: (name) => values[name]?.trim() ?? '',
+  };
+}
+
+const TRUE_VALUES = ['true', 'True', 'TRUE'];
+const FALSE_VALUES = ['false', 'False', 'FALSE'];
+
+/**
+ * Read a boolean input, returning undefined when it was not set so lower-precedence
+ * sources (env, makepad-packaging.toml) can apply.
+ */
+export function getOptionalBooleanInput(inputs: InputProvider, name: string): boolean | undefined {
+  const value = normalizeInput(inputs.getInput(name));
+  if (!value) {
+    return undefined;
+  }
+  if (TRUE_VALUES.includes(value)) return true;
+  if (FALSE_VALUES.includes(value)) return false;
+  throw new TypeError(
+    `Input does not meet YAML 1.2 "Core Schema" specification: ${name}\n` +
+      'Support boolean input list: `true | True | TRUE | false | False | FALSE`',
+  );
+}
@@ -0,0 +1,200 @@
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import type {
+  Artifact,
+  ArtifactManifest,
+  ArtifactManifestEntry,
+  ArtifactOutput,
+  TargetPlatform,
+} from './types';
+
+export const ARTIFACT_MANIFEST_FILE_NAME = 'makepad-artifacts.json';
+export const ARTIFACT_MANIFEST_SCHEMA_VERSION = 1;
+
+/**
+ * Release asset name of a job's manifest; one per target so parallel matrix jobs do not replace each other.
+ * Jobs that built several architectures (multi-ABI Android) are named `universal`, jobs that built
+ * several platforms (`targets`) `multi`.
+ */
+export function artifactManifestAssetName(artifacts: Pick<Artifact, 'platform' | 'arch'>[]): string {
+  const platforms = new Set(artifacts.map((artifact) => artifact.platform));
+  const platform = platforms.size > 1 ? 'multi' : artifacts[0]?.platform ?? 'unknown';
+  const arches = new Set(artifacts.map((artifact) => artifact.arch));
+  const arch = arches.size === 1 ? [...arches][0] : 'universal';
+  return `makepad-artifacts-${platform}-${arch}.json`;
+}
+
+// Multi-part suffixes first so `.app.tar.gz` is not reported as a plain `.gz`.
+const FORMAT_SUFFIXES: [suffix: string, format: string][] = [
+  ['.app.tar.gz', 'app'],
+  ['.app.zip', 'app'],
+  ['.pkg.tar.zst', 'pacman'],
+  ['.appimage', 'appimage'],
+  ['.deb', 'deb'],
+  ['.rpm', 'rpm'],
+  ['.dmg', 'dmg'],
+  ['.pkg', 'pkg'],
+  ['.app', 'app'],
+  ['.msi', 'wix'],
+  ['.exe', 'nsis'],
+  ['.apk', 'apk'],
+  ['.aab', 'aab'],
+  ['.ipa', 'ipa'],
+  ['.sig', 'signature'],
+];
+
+/**
+ * Package format of an artifact, using cargo-packager's names (`wix` for `.msi`, `nsis` for `.exe`).
+ * Web bundles are reported as `web`; unknown files fall back to their extension.
+ */
+export function inferArtifactFormat(artifact: Pick<Artifact, 'path' | 'platform'>): string {
+  const lower = basename(artifact.path).toLowerCase();
+  if (artifact.platform === 'web' && lower.endsWith('.zip')) {
+    return 'web';
+  }
+  const match = FORMAT_SUFFIXES.find(([suffix]) => lower.endsWith(suffix));
+  if (match) {
+    return match[1];
+  }
+  const dot = lower.lastIndexOf('.');
+  return dot > 0 ? lower.slice(dot + 1) : 'unknown';
+}
+
+const ANDROID_TRIPLES: Record<string, string> = {
+  aarch64: 'aarch64-linux-android',
+  armv7: 'armv7-linux-androideabi',
+  x86_64: 'x86_64-linux-android',
+  i686: 'i686-linux-android',
+};
+
+/**
+ * Rust target triple an artifact was compiled for. `explicitTriple` is the `--target` of the build
+ * args; without it desktop artifacts get the default triple of their platform.
+ * Universal APKs span several triples and have none.
+ */
+export function artifactTargetTriple(
+  artifact: Pick<Artifact, 'platform' | 'arch'>,
+  options: { explicitTriple?: string; iosSim?: boolean } = {},
+): string | undefined {
+  const { platform, arch } = artifact;
+  switch (platform) {
+    case 'web':
+      return 'wasm32-unknown-unknown';
+    case 'android':
+      return ANDROID_TRIPLES[arch];
+    case 'ios':
+      if (options.iosSim) {
+        return arch === 'x86_64' ? 'x86_64-apple-ios' : 'aarch64-apple-ios-sim';
+      }
+      return 'aarch64-apple-ios';
+    default:
+      if (options.explicitTriple) {
+        return options.explicitTriple;
+      }
+      if (platform === 'macos') return `${arch}-apple-darwin`;
+      if (platform === 'windows') return `${arch}-pc-windows-msvc`;
+      return `${arch}-unknown-linux-gnu`;
+  }
+}
+
+const DESKTOP_PLATFORMS = new Set<TargetPlatform>(['windows', 'linux', 'macos']);
+
+function readCommandOutput(command: string, args: string[]): string | undefined {
+  try {
+    return execFileSync(command, args, {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: 30_000,
+    }).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Versions of the toolchain used for the build. Cargo subcommands are read from `cargo install --list`
+ * since not all of them support `--version`; tools that are not installed are left out.
+ */
+export function detectToolchainVersions(artifacts: Pick<Artifact, 'platform'>[]): Record<string, string> {
+  const versions: Record<string, string> = {};
+  const rustc = readCommandOutput('rustc', ['--version']);
+  if (rustc) versions.rustc = rustc;
+  const cargo = readCommandOutput('cargo', ['--version']);
+  if (cargo) versions.cargo = cargo;
+
+  // Desktop bundles come from cargo-packager; mobile and web builds from cargo-makepad.
+  const tools = new Set<string>(artifacts.map((artifact) =>
+    DESKTOP_PLATFORMS.has(artifact.platform) ? 'cargo-packager' : 'cargo-makepad'));
+  if (tools.size === 0) {
+    return versions;
+  }
+  const installed = readCommandOutput('cargo', ['install', '--list']) ?? '';
+  for (const line of installed.split('\n')) {
+    const match = /^(\S+) v(\S+?):?(?:\s|$)/.exec(line);
+    if (match && tools.has(match[1])) {
+      versions[match[1]] = match[2];
+    }
+  }
+  return versions;
+}
+
+/**
+ * Combine the `artifacts` output entries with build metadata into the manifest written to disk.
+ * Directory artifacts are described by their uploaded zip when one exists.
+ */
+export function buildArtifactManifest(params: {
+  app: ArtifactManifest['app'];
+  artifacts: ArtifactOutput[];
+  buildDurations: Partial<Record<Artifact['mode'], number>>;
+  toolchain: Record<string, string>;
+  release?: ArtifactManifest['release'];
+  explicitTriple?: string;
+  iosSim?: boolean;
+  // Resolved per artifact so uploaded, feed and unpublished artifacts can each report their URL.
+  describeUpload?: (artifact: Artifact) => {
+    upload_path?: string;
+    download_url?: string;
+    signature_asset_name?: string;
+  } | undefined;
+}): ArtifactManifest {
+  const { app, artifacts, buildDurations, toolchain, release, explicitTriple, iosSim, describeUpload } = params;
+
+  const entries = artifacts.map((artifact): ArtifactManifestEntry => {
+    const upload = describeUpload?.(artifact);
+    const size_path = upload?.upload_path ?? artifact.path;
+    const stat = statSync(size_path, { throwIfNoEntry: false });
+    const target_triple = artifact.target_triple ?? artifactTargetTriple(artifact, { explicitTriple, iosSim });
+    const signed = Boolean(upload?.signature_asset_name) ||
+      Boolean(statSync(`${artifact.path}.sig`, { throwIfNoEntry: false })?.isFile());
+    const { upload_path: _upload_path, ...published } = upload ?? {};
+    return {
+      ...artifact,
+      file_name: basename(artifact.path),
+      format: inferArtifactFormat(artifact),
+      ...(target_triple ? { target_triple } : {}),
+      ...(stat?.isFile() ? { size: stat.size } : {}),
+      ...published,
+      signed,
+      ...(buildDurations[artifact.mode] !== undefined
+        ? { build_duration_ms: buildDurations[artifact.mode] }
+        : {}),
+    };
+  });
+
+  return {
+    schema_version: ARTIFACT_MANIFEST_SCHEMA_VERSION,
+    generated_at: new Date().toISOString(),
+    app,
+    ...(release ? { release } : {}),
+    toolchain,
+    builds: (Object.entries(buildDurations) as [Artifact['mode'], number][])
+      .map(([mode, duration_ms]) => ({ mode, duration_ms })),
+    artifacts: entries,
+  };
+}
+
+export function writeArtifactManifest(path: string, manifest: ArtifactManifest): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(manifest, null, 2)}\n`);
+}
@@ -0,0 +1,1310 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import stringArgv from 'string-argv';
+import type { Artifact, ArtifactOutput, BuildOptions } from './types';
+import { runAggregate } from './aggregate';
+import { appBuildOptions, appInitOptions, appLabel, expandAppFlavors, resolvePackagedApps, tagAppArtifact } from './apps';
+import type { PackagedApp } from './apps';
+import { buildProject, parseTargetTripleFromArgs } from './build';
+import { loadCargoProject } from './cargo';
+import { assertDesktopFlavors, moveFlavorArtifacts, parseCargoProfile, resolveBuildFlavors } from './flavors';
+import { installRustTargets, resolveBuildTargets, tagTargetArtifact, targetBuildOptions } from './targets';
+import type { BuildTarget, SkippedTarget } from './targets';
+import { formatDryRunPlan, planRun } from './plan';
+import type { PlannedReleaseTarget } from './plan';
+import { postPullRequestComment, renderRunReport, writeJobSummary } from './report';
+import type { RunReport } from './report';
+import { getOptionalBooleanInput } from './inputs';
+import type { InputProvider, OutputSink } from './inputs';
+import { PackagingConfig, resolveLayered } from './config';
+import { statSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import {
+  ARTIFACT_MANIFEST_FILE_NAME,
+  artifactManifestAssetName,
+  buildArtifactManifest,
+  detectToolchainVersions,
+  writeArtifactManifest,
+} from './manifest';
+import {
+  deriveTagNameFromRef,
+  getEnvValue,
+  getTargetInfo,
+  hashFile,
+  normalizeInput,
+  normalizeTagName,
+  parseEnvBool,
+  replaceVersion,
+  resolveAppStoreConnectApiKey,
+  resolveGooglePlayServiceAccountJson,
+} from './utils';
+import {
+  parseAndroidAbiSelection,
+  parseAndroidPackageFormat,
+  sanitizeAndroidPackageName,
+} from './builds/mobile/android';
+import {
+  parseGooglePlayReleaseStatus,
+  parseGooglePlayTrack,
+  pickAndroidPlayArtifacts,
+  uploadToGooglePlay,
+} from './builds/mobile/android/googleplay';
+import { uploadToTestFlight } from './builds/mobile/ios/testflight';
+import {
+  checkExpectedPlatforms,
+  planReleaseAssets,
+  signUpdaterArtifacts,
+  uploadArtifactManifest,
+  uploadChecksumFiles,
+  uploadDeltaPatches,
+  uploadReleaseAssets,
+  uploadUpdaterJson,
+  writeUpdaterFeed,
+} from './release';
+import type {
+  DeltaPatch,
+  ReleaseBackend,
+  ReleaseSummary,
+  UpdaterFeedAsset,
+  UpdaterJsonReport,
+  UploadedReleaseAsset,
+} from './release';
+import {
+  channelIndexFileName,
+  inferUpdateChannel,
+  parseUpdateChannel,
+  updaterJsonFileName,
+} from './release/channels';
+import { buildFeedAssetUrl, createUpdaterFeedStore } from './release/feed';
+import { generateReleaseNotes, parseReleaseNotesSource } from './release/notes';
+import { parseExpectedPlatforms } from './release/targets';
+import { createReleaseBackend, parseReleaseBackend } from './release/backends';
+import type { ReleaseBackendConfig } from './release/backends';
+import { loadUpdaterSigningKey } from './release/signing';
+import type { UpdaterSigningKey } from './release/signing';
+
+function parseRetryAttempts(value?: string): number | undefined {
+  const normalized = normalizeInput(value);
+  if (normalized === undefined) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(normalized, 10);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error('retryAttempts must be a non-negative integer.');
+  }
+  return parsed;
+}
+
+function getOptionalEnvBool(name: string): boolean | undefined {
+  const value = getEnvValue(name);
+  return value === undefined ? undefined : parseEnvBool(value);
+}
+
+function parseListInput(value?: string): string[] | undefined {
+  const normalized = normalizeInput(value);
+  if (!normalized) {
+    return undefined;
+  }
+  return normalized
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseArgsInput(value?: string): string[] | undefined {
+  const normalized = normalizeInput(value);
+  return normalized ? stringArgv(normalized) : undefined;
+}
+
+/**
+ * Attach digests (and the release asset name when uploaded) to each artifact for the `artifacts` output.
+ * Uploaded assets reuse the digests computed during upload; other file artifacts are hashed here.
+ * Without a release upload, the names used in the updater feed are reported as `asset_name`.
+ */
+async function describeArtifacts(
+  artifacts: Artifact[],
+  uploadedAssets: UploadedReleaseAsset[],
+  includeSha512: boolean,
+  feedAssets: UpdaterFeedAsset[] = [],
+): Promise<ArtifactOutput[]> {
+  const uploaded_by_artifact = new Map(uploadedAssets.map((asset) => [asset.artifact, asset]));
+  const feed_name_by_artifact = new Map(feedAssets.map((asset) => [asset.artifact, asset.name]));
+  const outputs: ArtifactOutput[] = [];
+  for (const artifact of artifacts) {
+    const uploaded = uploaded_by_artifact.get(artifact);
+    if (uploaded) {
+      outputs.push({ ...artifact, asset_name: uploaded.name, sha256: uploaded.sha256, sha512: uploaded.sha512 });
+      continue;
+    }
+    if (!statSync(artifact.path, { throwIfNoEntry: false })?.isFile()) {
+      outputs.push(artifact);
+      continue;
+    }
+    const asset_name = feed_name_by_artifact.get(artifact);
+    outputs.push({
+      ...artifact,
+      ...(asset_name ? { asset_name } : {}),
+      sha256: await hashFile(artifact.path, 'sha256'),
+      ...(includeSha512 ? { sha512: await hashFile(artifact.path, 'sha512') } : {}),
+    });
+  }
+  return outputs;
+}
+
+/**
+ * Release completeness gate for `expected_platforms`: publish the draft once every expected platform
+ * has an asset on the release, otherwise keep it a draft (or fail when `failOnMissing` is set).
+ * Returns the missing platforms.
+ */
+async function applyExpectedPlatformsGate(params: {
+  backend: ReleaseBackend;
+  releaseId: string;
+  expectedPlatforms: string[];
+  // False when the release should stay a draft even once it is complete (`releaseDraft: true`).
+  publish: boolean;
+  failOnMissing: boolean;
+  setOutput: OutputSink;
+}): Promise<string[]> {
+  const { backend, releaseId, expectedPlatforms, setOutput } = params;
+  if (!backend.supportsDrafts) {
+    core.warning(`${backend.kind} releases have no draft state; expected_platforms only reports missing platforms.`);
+  }
+  const { present, missing } = await checkExpectedPlatforms({ backend, releaseId, expectedPlatforms });
+  core.info(`Platforms on release id=${releaseId}: ${present.join(', ') || '(none)'}`);
+  setOutput('missing_platforms', missing.join(','));
+
+  if (missing.length > 0) {
+    const message = `Release id=${releaseId} is missing expected platforms: ${missing.join(', ')}.`;
+    if (params.failOnMissing) {
+      throw new Error(message);
+    }
+    core.info(backend.supportsDrafts ? `${message} Keeping it as a draft.` : message);
+    return missing;
+  }
+
+  core.info(`All expected platforms are present on release id=${releaseId}.`);
+  if (!params.publish || !backend.supportsDrafts) {
+    return missing;
+  }
+  const release = await backend.getRelease(releaseId);
+  if (release?.draft) {
+    const published = await backend.publishRelease(releaseId);
+    core.info(`Published release id=${published.id} (${published.html_url}).`);
+  }
+  return missing;
+}
+
+export interface PipelineOptions {
+  // `build` skips release upload and store delivery, `plan` forces a dry run,
+  // `aggregate` combines the manifests of earlier jobs instead of building.
+  // Without a command the pipeline behaves like the action: release when tagName/releaseId is set,
+  // aggregate when aggregate_manifests is set.
+  command?: 'build' | 'release' | 'plan' | 'aggregate';
+  defaultProjectPath?: string;
+  setOutput?: OutputSink;
+}
+
+/**
+ * Shared pipeline behind the action and the CLI: resolve inputs/env, build artifacts,
+ * then publish outputs/releases.
+ */
+export async function runPipeline(inputs: InputProvider, options: PipelineOptions = {}): Promise<void> {
+  const setOutput: OutputSink = options.setOutput ?? ((name, value) => core.setOutput(name, value));
+  const publish = options.command !== 'build';
+
+  console.log('Starting Makepad Packaging Action...');
+  // 1) Resolve action inputs and environment configuration.
+  const project_path_input =
+    normalizeInput(inputs.getInput('projectPath')) ??
+    normalizeInput(inputs.getInput('project_path')) ??
+    normalizeInput(options.defaultProjectPath) ??
+    '.';
+  const projectPath = resolve(
+    process.cwd(),
+    project_path_input,
+  );
+
+  const packaging_config = PackagingConfig.load(
+    projectPath,
+    normalizeInput(inputs.getInput('config_path')),
+  );
+  if (packaging_config.file_path) {
+    core.info(`Loaded packaging config: ${packaging_config.file_path}`);
+  }
+  const file_app = packaging_config.file_config?.app ?? {};
+  const file_android = packaging_config.file_config?.android ?? {};
+  const file_ios = packaging_config.file_config?.ios ?? {};
+  const file_desktop = packaging_config.file_config?.desktop ?? {};
+  const file_web = packaging_config.file_config?.web ?? {};
+  const file_release = packaging_config.file_config?.release ?? {};
+
+  const args = stringArgv(inputs.getInput('args'));
+
+  const app_name = resolveLayered(normalizeInput(inputs.getInput('app_name')), file_app.name);
+  const app_version = resolveLayered(normalizeInput(inputs.getInput('app_version')), file_app.version);
+  const include_debug = getOptionalBooleanInput(inputs, 'include_debug') ?? false;
+  const include_release = getOptionalBooleanInput(inputs, 'include_release') ?? true;
+  const dry_run = options.command === 'plan' ||
+    (resolveLayered(getOptionalBooleanInput(inputs, 'dry_run'), getOptionalEnvBool('MAKEPAD_DRY_RUN')) ?? false);
+  const job_summary = getOptionalBooleanInput(inputs, 'job_summary') ?? true;
+  const pr_comment = getOptionalBooleanInput(inputs, 'pr_comment') ?? false;
+
+  const identifier = resolveLayered(normalizeInput(inputs.getInput('identifier')), file_app.identifier);
+  const main_binary = resolveLayered(normalizeInput(inputs.getInput('main_binary')), file_app.main_binary);
+  const apps_input = parseListInput(inputs.getInput('apps'));
+  const profile_input = normalizeInput(inputs.getInput('profile'));
+  const flavors_input = parseListInput(inputs.getInput('flavors'));
+  const targets_input = parseListInput(inputs.getInput('targets'));
+
+  const packager_args = resolveLayered(
+    parseArgsInput(inputs.getInput('packager_args')),
+    file_desktop.packager_args,
+  ) ?? [];
+  const packager_formats = resolveLayered(
+    parseListInput(inputs.getInput('packager_formats')),
+    file_desktop.packager_formats,
+  ) ?? [];
+
+  const android_abi = parseAndroidAbiSelection(
+    resolveLayered(getEnvValue('MAKEPAD_ANDROID_ABI'), file_android.abi?.join(',')) ?? 'aarch64',
+  );
+  const android_package_format = parseAndroidPackageFormat(
+    resolveLayered(getEnvValue('MAKEPAD_ANDROID_PACKAGE_FORMAT'), file_android.package_format) ?? 'apk',
+  );
+  const android_universal_apk = resolveLayered(
+    getOptionalEnvBool('MAKEPAD_ANDROID_UNIVERSAL_APK'),
+    file_android.universal_apk,
+  ) ?? false;
+  const android_full_ndk = resolveLayered(
+    getOptionalEnvBool('MAKEPAD_ANDROID_FULL_NDK'),
+    file_android.full_ndk,
+  ) ?? false;
+  const android_variant = resolveLayered(getEnvValue('MAKEPAD_ANDROID_VARIANT'), file_android.variant) ?? 'default';
+  const mobile_cargo_extra_args = stringArgv(getEnvValue('MAKEPAD_MOBILE_CARGO_EXTRA_ARGS') ?? '');
+  const android_cargo_extra_args = resolveLayered(
+    parseArgsInput(getEnvValue('MAKEPAD_ANDROID_CARGO_EXTRA_ARGS')),
+    file_android.cargo_extra_args,
+  ) ?? [];
+
+  const android_upload_google_play = resolveLayered(
+    getOptionalBooleanInput(inputs, 'upload_to_google_play'),
+    getOptionalEnvBool('MAKEPAD_ANDROID_UPLOAD_GOOGLE_PLAY'),
+    file_android.upload_google_play,
+  ) ?? false;
+  const google_play_track = parseGooglePlayTrack(
+    resolveLayered(getEnvValue('MAKEPAD_GOOGLE_PLAY_TRACK'), file_android.google_play_track) ?? 'internal',
+  );
+  const google_play_release_status = parseGooglePlayReleaseStatus(
+    resolveLayered(
+      getEnvValue('MAKEPAD_GOOGLE_PLAY_RELEASE_STATUS'),
+      file_android.google_play_release_status,
+    ) ?? 'completed',
+  );
+  const google_play_release_notes = resolveLayered(
+    getEnvValue('MAKEPAD_GOOGLE_PLAY_RELEASE_NOTES'),
+    file_android.google_play_release_notes,
+  );
+  const google_play_package_name = resolveLayered(
+    getEnvValue('MAKEPAD_GOOGLE_PLAY_PACKAGE_NAME'),
+    file_android.google_play_package_name,
+  );
+  const google_play_service_account_json = resolveGooglePlayServiceAccountJson();
+
+  const ios_org = resolveLayered(getEnvValue('MAKEPAD_IOS_ORG'), file_ios.org);
+  const ios_app = resolveLayered(getEnvValue('MAKEPAD_IOS_APP'), file_ios.app);
+  const ios_profile = resolveLayered(getEnvValue('MAKEPAD_IOS_PROFILE'), file_ios.profile);
+  const ios_cert = resolveLayered(getEnvValue('MAKEPAD_IOS_CERT'), file_ios.cert);
+  const ios_sim = resolveLayered(getOptionalEnvBool('MAKEPAD_IOS_SIM'), file_ios.sim) ?? false;
+  let ios_create_ipa = resolveLayered(
+    getOptionalEnvBool('MAKEPAD_IOS_CREATE_IPA'),
+    file_ios.create_ipa,
+  ) ?? false;
+  const ios_upload_testflight = resolveLayered(
+    getOptionalBooleanInput(inputs, 'upload_to_testflight'),
+    getOptionalEnvBool('MAKEPAD_IOS_UPLOAD_TESTFLIGHT'),
+    file_ios.upload_testflight,
+  ) ?? false;
+  const ios_cargo_extra_args = resolveLayered(
+    parseArgsInput(getEnvValue('MAKEPAD_IOS_CARGO_EXTRA_ARGS')),
+    file_ios.cargo_extra_args,
+  ) ?? [];
+  const enable_macos_notarization = resolveLayered(
+    getOptionalBooleanInput(inputs, 'enable_macos_notarization'),
+    getOptionalEnvBool('MAKEPAD_MACOS_ENABLE_NOTARIZATION'),
+    file_desktop.enable_macos_notarization,
+  ) ?? false;
+  const web_cargo_extra_args = resolveLayered(
+    parseArgsInput(getEnvValue('MAKEPAD_WEB_CARGO_EXTRA_ARGS')),
+    file_web.cargo_extra_args,
+  ) ?? [];
+  const app_store_connect_api_key = resolveAppStoreConnectApiKey();
+  const app_store_connect_key_id = getEnvValue('APP_STORE_CONNECT_KEY_ID');
+  const app_store_connect_issuer_id = getEnvValue('APP_STORE_CONNECT_ISSUER_ID');
+
+  const android_keystore_base64 = getEnvValue('ANDROID_KEYSTORE_BASE64');
+  const android_keystore_password = getEnvValue('ANDROID_KEYSTORE_PASSWORD');
+  const android_key_alias = getEnvValue('ANDROID_KEY_ALIAS');
+  const android_key_password = getEnvValue('ANDROID_KEY_PASSWORD');
+
+  const apple_certificate = getEnvValue('APPLE_CERTIFICATE');
+  const apple_certificate_password = getEnvValue('APPLE_CERTIFICATE_PASSWORD');
+  const apple_provisioning_profile = getEnvValue('APPLE_PROVISIONING_PROFILE');
+  const apple_keychain_password = getEnvValue('APPLE_KEYCHAIN_PASSWORD');
+  const apple_signing_identity = getEnvValue('APPLE_SIGNING_IDENTITY');
+
+  const tag_name_input_raw = resolveLayered(normalizeInput(inputs.getInput('tagName')), file_release.tag_name);
+  const tag_name_from_ref = deriveTagNameFromRef(github.context.ref);
+  // github.context.repo throws outside Actions, so only consult it when GITHUB_REPOSITORY is set.
+  const context_repository = process.env.GITHUB_REPOSITORY ? github.context.repo : undefined;
+  const tag_name_input = tag_name_input_raw ?? tag_name_from_ref;
+  if (!tag_name_input_raw && tag_name_from_ref) {
+    core.info(`tagName not provided; using ref tag "${tag_name_from_ref}".`);
+  }
+  const release_name_input = resolveLayered(normalizeInput(inputs.getInput('releaseName')), file_release.name);
+  const release_body_input = resolveLayered(normalizeInput(inputs.getInput('releaseBody')), file_release.body);
+  const release_notes_source = parseReleaseNotesSource(
+    resolveLayered(normalizeInput(inputs.getInput('release_notes')), file_release.notes),
+  );
+  const changelog_path = resolveLayered(
+    normalizeInput(inputs.getInput('changelog_path')),
+    file_release.changelog_path,
+  );
+  const release_id_input = normalizeInput(inputs.getInput('releaseId'));
+  const upload_updater_json = resolveLayered(
+    getOptionalBooleanInput(inputs, 'uploadUpdaterJson'),
+    file_release.upload_updater_json,
+  ) ?? true;
+  const upload_updater_signatures = resolveLayered(
+    getOptionalBooleanInput(inputs, 'uploadUpdaterSignatures'),
+    file_release.upload_updater_signatures,
+  ) ?? true;
+  const sign_updater_artifacts = resolveLayered(
+    getOptionalBooleanInput(inputs, 'signUpdaterArtifacts'),
+    file_release.sign_updater_artifacts,
+  ) ?? false;
+  const upload_checksums = resolveLayered(
+    getOptionalBooleanInput(inputs, 'uploadChecksums'),
+    file_release.upload_checksums,
+  ) ?? true;
+  const checksum_sha512 = resolveLayered(
+    getOptionalBooleanInput(inputs, 'checksumSha512'),
+    file_release.checksum_sha512,
+  ) ?? false;
+  const retry_attempts = resolveLayered(
+    parseRetryAttempts(inputs.getInput('retryAttempts')),
+    file_release.retry_attempts,
+  ) ?? 0;
+  const asset_name_template = resolveLayered(
+    normalizeInput(inputs.getInput('asset_name_template')),
+    file_release.asset_name_template,
+  );
+  const release_asset_name_pattern = resolveLayered(
+    normalizeInput(inputs.getInput('releaseAssetNamePattern')),
+    file_release.asset_name_pattern,
+  );
+  const asset_prefix = resolveLayered(normalizeInput(inputs.getInput('asset_prefix')), file_release.asset_prefix);
+  const release_commitish =
+    resolveLayered(normalizeInput(inputs.getInput('releaseCommitish')), file_release.commitish) || github.context.sha;
+  const release_owner =
+    resolveLayered(normalizeInput(inputs.getInput('owner')), file_release.owner) || context_repository?.owner || '';
+  const release_repo =
+    resolveLayered(normalizeInput(inputs.getInput('repo')), file_release.repo) || context_repository?.repo || '';
+  // The runner always sets GITHUB_API_URL, so it comes after the config file.
+  const github_base_url = resolveLayered(
+    normalizeInput(inputs.getInput('githubBaseUrl')),
+    file_release.github_base_url,
+    normalizeInput(process.env.GITHUB_API_URL),
+  );
+  const generate_release_notes = resolveLayered(
+    getOptionalBooleanInput(inputs, 'generateReleaseNotes'),
+    file_release.generate_release_notes,
+  ) ?? false;
+  const release_draft = resolveLayered(getOptionalBooleanInput(inputs, 'releaseDraft'), file_release.draft) ?? false;
+  const prerelease = resolveLayered(getOptionalBooleanInput(inputs, 'prerelease'), file_release.prerelease) ?? false;
+  const github_token = normalizeInput(inputs.getInput('github_token')) || process.env.GITHUB_TOKEN || '';
+  const updater_feed = resolveLayered(normalizeInput(inputs.getInput('updater_feed')), file_release.updater_feed);
+  const updater_feed_base_url = resolveLayered(
+    normalizeInput(inputs.getInput('updater_feed_base_url')),
+    file_release.updater_feed_base_url,
+  );
+  const update_channel_input = parseUpdateChannel(
+    resolveLayered(normalizeInput(inputs.getInput('update_channel')), file_release.update_channel),
+  );
+  const delta_updates = resolveLayered(
+    getOptionalBooleanInput(inputs, 'delta_updates'),
+    file_release.delta_updates,
+  ) ?? false;
+  const allow_updater_downgrade = resolveLayered(
+    getOptionalBooleanInput(inputs, 'allow_updater_downgrade'),
+    file_release.allow_updater_downgrade,
+  ) ?? false;
+  const update_channel_index = resolveLayered(
+    getOptionalBooleanInput(inputs, 'update_channel_index'),
+    file_release.update_channel_index,
+  ) ?? false;
+  const artifact_manifest_input = resolveLayered(
+    normalizeInput(inputs.getInput('artifact_manifest')),
+    file_release.artifact_manifest,
+  );
+  const artifact_manifest_path = artifact_manifest_input
+    ? resolve(projectPath, artifact_manifest_input)
+    : join(loadCargoProject(projectPath).target_directory, ARTIFACT_MANIFEST_FILE_NAME);
+  const upload_artifact_manifest = resolveLayered(
+    getOptionalBooleanInput(inputs, 'upload_artifact_manifest'),
+    file_release.upload_artifact_manifest,
+  ) ?? false;
+  const aggregate_manifests = normalizeInput(inputs.getInput('aggregate_manifests'));
+  const expected_platforms = parseExpectedPlatforms(
+    resolveLayered(normalizeInput(inputs.getInput('expected_platforms')), file_release.expected_platforms?.join(',')),
+  );
+  const publish_release = resolveLayered(
+    getOptionalBooleanInput(inputs, 'publish_release'),
+    file_release.publish_release,
+  ) ?? false;
+  const fail_on_missing_platforms = resolveLayered(
+    getOptionalBooleanInput(inputs, 'fail_on_missing_platforms'),
+    file_release.fail_on_missing_platforms,
+  ) ?? false;
+  const release_backend = parseReleaseBackend(
+    resolveLayered(normalizeInput(inputs.getInput('release_backend')), file_release.backend),
+  );
+  const release_backend_config: ReleaseBackendConfig = {
+    kind: release_backend,
+    owner: release_owner,
+    repo: release_repo,
+    githubToken: github_token,
+    githubBaseUrl: github_base_url,
+    serverUrl: resolveLayered(
+      normalizeInput(inputs.getInput('release_server_url')),
+      file_release.server_url,
+      release_backend === 'gitlab' ? getEnvValue('CI_SERVER_URL') : getEnvValue('GITHUB_SERVER_URL'),
+    ),
+    giteaToken: getEnvValue('GITEA_TOKEN') ?? getEnvValue('FORGEJO_TOKEN'),
+    gitlabToken: getEnvValue('GITLAB_TOKEN'),
+    gitlabJobToken: getEnvValue('CI_JOB_TOKEN'),
+    gitlabProject: getEnvValue('CI_PROJECT_PATH'),
+    s3: {
+      bucket: resolveLayered(normalizeInput(inputs.getInput('s3_bucket')), file_release.s3_bucket),
+      region: resolveLayered(
+        normalizeInput(inputs.getInput('s3_region')),
+        file_release.s3_region,
+        getEnvValue('AWS_REGION'),
+        getEnvValue('AWS_DEFAULT_REGION'),
+      ),
+      endpoint: resolveLayered(normalizeInput(inputs.getInput('s3_endpoint')), file_release.s3_endpoint),
+      prefix: resolveLayered(normalizeInput(inputs.getInput('s3_prefix')), file_release.s3_prefix),
+      publicUrl: resolveLayered(normalizeInput(inputs.getInput('s3_public_url')), file_release.s3_public_url),
+      accessKeyId: getEnvValue('AWS_ACCESS_KEY_ID'),
+      secretAccessKey: getEnvValue('AWS_SECRET_ACCESS_KEY'),
+      sessionToken: getEnvValue('AWS_SESSION_TOKEN'),
+    },
+  };
+  core.info(`Project path: ${projectPath}`);
+  core.info(`Build modes enabled -> release=${include_release}, debug=${include_debug}`);
+  if (args.length > 0) {
+    core.info(`Build args provided: ${args.length} token(s).`);
+  }
+  if (mobile_cargo_extra_args.length > 0) {
+    core.info(`MAKEPAD_MOBILE_CARGO_EXTRA_ARGS enabled: ${mobile_cargo_extra_args.length} token(s).`);
+  }
+  if (android_cargo_extra_args.length > 0) {
+    core.info(`MAKEPAD_ANDROID_CARGO_EXTRA_ARGS enabled: ${android_cargo_extra_args.length} token(s).`);
+  }
+  if (ios_cargo_extra_args.length > 0) {
+    core.info(`MAKEPAD_IOS_CARGO_EXTRA_ARGS enabled: ${ios_cargo_extra_args.length} token(s).`);
+  }
+  if (web_cargo_extra_args.length > 0) {
+    core.info(`MAKEPAD_WEB_CARGO_EXTRA_ARGS enabled: ${web_cargo_extra_args.length} token(s).`);
+  }
+  core.info(`Updater JSON upload enabled=${upload_updater_json}.`);
+  core.info(`Updater signature upload enabled=${upload_updater_signatures}.`);
+  core.info(`Updater artifact signing enabled=${sign_updater_artifacts}.`);
+  core.info(`Checksum upload enabled=${upload_checksums} (sha512=${checksum_sha512}).`);
+  if (delta_updates) {
+    core.info('Delta update patches enabled.');
+  }
+  core.info(`Release backend: ${release_backend}.`);
+  if (release_owner && release_repo) {
+    core.info(`Release target repository: ${release_owner}/${release_repo}.`);
+  }
+  if (updater_feed) {
+    core.info(`Updater feed enabled: ${updater_feed}.`);
+  }
+  if (retry_attempts > 0) {
+    core.info(`Retry attempts enabled: ${retry_attempts} additional attempt(s).`);
+  }
+  if (github_base_url) {
+    core.info(`Using custom GitHub API base URL: ${github_base_url}`);
+  }
+  if (asset_name_template && release_asset_name_pattern) {
+    core.warning('Both asset_name_template and releaseAssetNamePattern are set; asset_name_template takes precedence.');
+  }
+
+  if (ios_upload_testflight) {
+    if (ios_sim) {
+      throw new Error('upload_to_testflight/MAKEPAD_IOS_UPLOAD_TESTFLIGHT requires a device build; set MAKEPAD_IOS_SIM=false.');
+    }
+    if (!app_store_connect_api_key || !app_store_connect_key_id || !app_store_connect_issuer_id) {
+      throw new Error(
+        'TestFlight upload requires APP_STORE_CONNECT_API_KEY(_CONTENT), APP_STORE_CONNECT_KEY_ID, and APP_STORE_CONNECT_ISSUER_ID.'
+      );
+    }
+    if (!ios_create_ipa) {
+      ios_create_ipa = true;
+      core.info('upload_to_testflight enabled; forcing MAKEPAD_IOS_CREATE_IPA=true.');
+    }
+  }
+
+  if (android_upload_google_play) {
+    if (!google_play_service_account_json) {
+      throw new Error(
+        'Google Play upload requires GOOGLE_PLAY_SERVICE_ACCOUNT_JSON (or GOOGLE_PLAY_SERVICE_ACCOUNT_JSON_BASE64).'
+      );
+    }
+    if (!include_release) {
+      throw new Error('upload_to_google_play requires a release build; set include_release=true.');
+    }
+  }
+
+  let updater_signing_key: UpdaterSigningKey | undefined;
+  if (sign_updater_artifacts) {
+    const private_key =
+      getEnvValue('MAKEPAD_UPDATER_SIGNING_PRIVATE_KEY') ??
+      getEnvValue('CARGO_PACKAGER_SIGN_PRIVATE_KEY');
+    if (!private_key) {
+      throw new Error(
+        'signUpdaterArtifacts requires MAKEPAD_UPDATER_SIGNING_PRIVATE_KEY (or CARGO_PACKAGER_SIGN_PRIVATE_KEY).'
+      );
+    }
+    // Decrypt up front so a wrong password fails before the build.
+    updater_signing_key = await loadUpdaterSigningKey(
+      private_key,
+      getEnvValue('MAKEPAD_UPDATER_SIGNING_PRIVATE_KEY_PASSWORD') ??
+        getEnvValue('CARGO_PACKAGER_SIGN_PRIVATE_KEY_PASSWORD'),
+    );
+    if (!upload_updater_signatures) {
+      core.warning('signUpdaterArtifacts is enabled but uploadUpdaterSignatures=false; signatures will not be uploaded.');
+    }
+  }
+
+  const has_release_id = Boolean(release_id_input);
+  // GitLab and S3 releases are addressed by tag, so their releaseId is the tag name.
+  const numeric_release_ids = release_backend === 'github' || release_backend === 'gitea';
+  if (has_release_id && numeric_release_ids && !/^[1-9]\d*$/.test(release_id_input as string)) {
+    throw new Error('releaseId must be a positive integer.');
+  }
+  const release_id = release_id_input as string | undefined;
+  if (options.command === 'release' && !has_release_id && !tag_name_input) {
+    throw new Error('The release command requires tagName or releaseId.');
+  }
+  if (options.command === 'aggregate' && !aggregate_manifests) {
+    throw new Error('The aggregate command requires aggregate_manifests.');
+  }
+
+  if (aggregate_manifests) {
+    core.info(`Aggregate mode: combining artifact manifests from ${aggregate_manifests}.`);
+    await runAggregate({
+      manifestDir: resolve(process.cwd(), aggregate_manifests),
+      createBackend: () => createReleaseBackend(release_backend_config),
+      releaseId: release_id,
+      expectedPlatforms: expected_platforms,
+      publishRelease: publish_release,
+      uploadUpdaterJson: upload_updater_json,
+      uploadChecksums: upload_checksums,
+      checksumSha512: checksum_sha512,
+      updateChannel: update_channel_input,
+      channelIndex: update_channel_index,
+      allowDowngrade: allow_updater_downgrade,
+      releaseBody: release_body_input,
+      retryAttempts: retry_attempts,
+      outputPath: artifact_manifest_path,
+      dryRun: dry_run,
+      setOutput,
+    });
+    return;
+  }
+
+  const build_options: BuildOptions = {
+    args,
+    packager_args: packager_args.length ? packager_args : undefined,
+    packager_formats: packager_formats.length ? packager_formats : undefined,
+    mobile_cargo_extra_args: mobile_cargo_extra_args.length ? mobile_cargo_extra_args : undefined,
+    android_cargo_extra_args: android_cargo_extra_args.length ? android_cargo_extra_args : undefined,
+    ios_cargo_extra_args: ios_cargo_extra_args.length ? ios_cargo_extra_args : undefined,
+    web_cargo_extra_args: web_cargo_extra_args.length ? web_cargo_extra_args : undefined,
+    android_abi,
+    android_universal_apk,
+    android_package_format,
+    android_full_ndk,
+    android_variant: android_variant as BuildOptions['android_variant'],
+    android_keystore_base64,
+    android_keystore_password,
+    android_key_alias,
+    android_key_password,
+    ios_org,
+    ios_app,
+    ios_profile,
+    ios_cert,
+    ios_sim,
+    ios_create_ipa,
+    ios_upload_testflight,
+    enable_macos_notarization,
+    app_store_connect_api_key,
+    app_store_connect_key_id,
+    app_store_connect_issuer_id,
+    apple_certificate,
+    apple_certificate_password,
+    apple_provisioning_profile,
+    apple_keychain_password,
+    apple_signing_identity,
+  };
+
+  const packaged_apps = resolvePackagedApps({
+    projectPath,
+    selection: apps_input,
+    fileApps: packaging_config.file_config?.apps ?? {},
+    versionInput: normalizeInput(inputs.getInput('app_version')),
+    fileVersion: file_app.version,
+    profileInput: profile_input,
+    fileProfile: file_app.profile,
+    assetNameTemplateInput: normalizeInput(inputs.getInput('asset_name_template')),
+    fileAssetNameTemplate: file_release.asset_name_template,
+  });
+  let apps: PackagedApp[];
+  if (packaged_apps) {
+    if (app_name || identifier || main_binary) {
+      core.warning(
+        'apps is set; app_name, identifier and main_binary (inputs or [app]) only apply to single-app runs. Set them per app in [apps.<package>].',
+      );
+    }
+    apps = packaged_apps;
+    core.info(`Packaging ${apps.length} app(s): ${apps.map((app) => `${app.key} (${app.project_path})`).join(', ')}`);
+  } else {
+    const cargo_package = loadCargoProject(projectPath).package;
+    apps = [{
+      project_path: projectPath,
+      name: app_name || cargo_package?.name,
+      version: app_version || cargo_package?.version,
+      identifier,
+      main_binary,
+      profile: parseCargoProfile(resolveLayered(profile_input, file_app.profile)),
+      asset_name_template,
+    }];
+  }
+  // The first app names and versions the release and the run's outputs.
+  const main_app = apps[0];
+  const resolved_app_name = main_app.name;
+  const resolved_app_version = main_app.version;
+  core.info(
+    `Resolved app metadata -> name=${resolved_app_name ?? '(unknown)'}, version=${resolved_app_version ?? '(unknown)'}`,
+  );
+  const flavors = resolveBuildFlavors({
+    selection: flavors_input,
+    fileFlavors: packaging_config.file_config?.flavors ?? {},
+  });
+  if (flavors) {
+    core.info(`Building ${flavors.length} flavor(s): ${flavors.map((flavor) => flavor.name).join(', ')}`);
+    apps = expandAppFlavors(apps, flavors);
+  }
+
+  let build_targets: BuildTarget[] | undefined;
+  let skipped_targets: SkippedTarget[] | undefined;
+  if (targets_input) {
+    if (parseTargetTripleFromArgs(args)) {
+      throw new Error('targets cannot be combined with --target in args; list every triple in targets.');
+    }
+    ({ targets: build_targets, skipped: skipped_targets } = resolveBuildTargets(targets_input));
+    for (const skipped of skipped_targets) {
+      core.warning(`Skipping target ${skipped.triple}: ${skipped.reason}.`);
+    }
+    if (build_targets.length === 0) {
+      throw new Error(`None of the targets builds on this host: ${targets_input.join(', ')}.`);
+    }
+    core.info(`Building ${build_targets.length} target(s): ${build_targets.map((target) => target.triple).join(', ')}`);
+  }
+  if (flavors) {
+    // Without `targets`, the one build targets `--target` from args or the host.
+    assertDesktopFlavors(
+      flavors,
+      build_targets?.map((target) => target.target_info) ?? [getTargetInfo(parseTargetTripleFromArgs(args))],
+    );
+  }
+  // releaseBody wins over generated notes; notes are only generated when something is published.
+  const generated_release_notes = publish && release_notes_source && !release_body_input
+    ? generateReleaseNotes({
+      source: release_notes_source,
+      projectPath,
+      changelogPath: changelog_path,
+      version: resolved_app_version,
+      ref: release_commitish,
+    })
+    : undefined;
+  const release_body = release_body_input ?? generated_release_notes;
+  const update_channel = update_channel_input ?? inferUpdateChannel(resolved_app_version);
+  const updater_output_files = apps.flatMap((app) => [
+    updaterJsonFileName(update_channel, appLabel(app)),
+    ...(update_channel_index ? [channelIndexFileName(appLabel(app))] : []),
+  ]);
+  if (upload_updater_json || updater_feed) {
+    core.info(
+      `Update channel: ${update_channel}${update_channel_input ? '' : ' (inferred from the app version)'} -> ${updater_output_files.join(', ')}.`,
+    );
+  }
+
+  const release_requested = publish && (has_release_id || Boolean(tag_name_input));
+  const backend: ReleaseBackend | undefined = release_requested
+    ? createReleaseBackend(
+      { ...release_backend_config, packageName: resolved_app_name },
+      { requireCredentials: !dry_run },
+    )
+    : undefined;
+  if (publish && updater_feed && !updater_feed_base_url && !backend) {
+    throw new Error('updater_feed_base_url is required when no release is published.');
+  }
+  const updater_feed_store = publish && updater_feed && !dry_run
+    ? createUpdaterFeedStore(updater_feed, {
+      region: release_backend_config.s3?.region,
+      endpoint: release_backend_config.s3?.endpoint,
+      credentials: release_backend_config.s3,
+    })
+    : undefined;
+  const feedAssetUrl = (tag: string | undefined) => (assetName: string): string =>
+    updater_feed_base_url
+      ? buildFeedAssetUrl(updater_feed_base_url, assetName, { version: resolved_app_version, tag })
+      : (tag ? backend?.assetDownloadUrl(tag, assetName) : undefined) ?? assetName;
+  // google_play_package_name names the single app; apps of a multi-app run and flavors with an
+  // identifier suffix use their identifier.
+  const googlePlayPackageName = (app: PackagedApp): string => sanitizeAndroidPackageName(
+    (app.key || app.flavor?.identifier_suffix ? undefined : google_play_package_name)
+      ?? appInitOptions(app).identifier
+      ?? PackagingConfig.fromMobilePackagingConfig(app.project_path).android_config.identifier,
+  ).value;
+
+  if (dry_run) {
+    core.info('dry_run enabled; resolving the plan without building or touching releases.');
+    const delivery: string[] = [];
+    if (publish && ios_upload_testflight) {
+      delivery.push('Upload the iOS IPA to TestFlight.');
+    }
+    if (publish && android_upload_google_play) {
+      for (const app of apps) {
+        delivery.push(
+          `Upload the Android release to Google Play (${googlePlayPackageName(app)}, track=${google_play_track}, status=${google_play_release_status}).`,
+        );
+      }
+    }
+
+    let release_target: PlannedReleaseTarget | undefined;
+    if (publish && has_release_id) {
+      release_target = { release_id: release_id as string };
+    } else if (publish && tag_name_input) {
+      release_target = {
+        tag_name: normalizeTagName(replaceVersion(tag_name_input, resolved_app_version)),
+        release_name: release_name_input ? replaceVersion(release_name_input, resolved_app_version) : undefined,
+        draft: release_draft || Boolean(expected_platforms && backend?.supportsDrafts),
+        prerelease,
+        commitish: release_commitish,
+        generate_release_notes,
+      };
+    }
+
+    // The tag of an existing release is only known after fetching it.
+    const planned_tag = release_target && 'tag_name' in release_target ? release_target.tag_name : undefined;
+    const plan = await planRun({
+      projectPath,
+      apps,
+      targets: build_targets,
+      skippedTargets: skipped_targets,
+      includeRelease: include_release,
+      includeDebug: include_debug,
+      buildOptions: build_options,
+      releaseBody: release_body,
+      assetNaming: {
+        releaseAssetNamePattern: release_asset_name_pattern,
+        assetPrefix: asset_prefix,
+        uploadUpdaterSignatures: upload_updater_signatures,
+        // cargo-packager signs updater bundles itself when its key is present.
+        signUpdaterArtifacts: sign_updater_artifacts || Boolean(getEnvValue('CARGO_PACKAGER_SIGN_PRIVATE_KEY')),
+      },
+      release: release_target && backend
+        ? {
+          backend,
+          target: release_target,
+          uploadUpdaterJson: upload_updater_json,
+          channel: update_channel,
+          deltaUpdates: delta_updates && upload_updater_json,
+          channelIndex: update_channel_index,
+          uploadChecksums: upload_checksums,
+          checksumSha512: checksum_sha512,
+          expectedPlatforms: expected_platforms,
+        }
+        : undefined,
+      updaterFeed: publish && updater_feed
+        ? {
+          target: updater_feed,
+          channel: update_channel,
+          channelIndex: update_channel_index,
+          tagName: planned_tag,
+          assetUrl: feedAssetUrl(planned_tag),
+        }
+        : undefined,
+      delivery,
+      artifactManifest: { path: artifact_manifest_path, upload: upload_artifact_manifest },
+    });
+
+    core.startGroup('Dry run plan');
+    core.info(formatDryRunPlan(plan));
+    core.endGroup();
+
+    if (resolved_app_name) {
+      setOutput('app_name', resolved_app_name);
+    }
+    if (resolved_app_version) {
+      setOutput('app_version', resolved_app_version);
+    }
+    if (has_release_id) {
+      setOutput('release_id', release_id as string);
+    }
+    setOutput('artifacts', JSON.stringify(plan.artifacts));
+    setOutput('plan', JSON.stringify(plan));
+    return;
+  }
+
+  const release_artifacts: Artifact[] = [];
+  const debug_artifacts: Artifact[] = [];
+  const built_apps: { app: PackagedApp; artifacts: Artifact[] }[] = [];
+  const build_durations: Partial<Record<Artifact['mode'], number>> = {};
+  const phases: RunReport['phases'] = [];
+  const endPhase = (name: string, started_at: number) => {
+    phases.push({ name, duration_ms: Date.now() - started_at });
+  };
+
+  if (build_targets) {
+    const started_at = Date.now();
+    await installRustTargets(build_targets.filter((target) => !target.native).map((target) => target.triple));
+    endPhase('Rust targets', started_at);
+  }
+
+  // 2) Build artifacts, app by app (and flavor by flavor), target by target; toolchains are
+  // installed once and reused. Everything is uploaded together afterwards.
+  for (const app of apps) {
+    const app_artifacts: Artifact[] = [];
+    for (const target of build_targets ?? [undefined]) {
+      const app_label = `${appLabel(app) ? ` of ${appLabel(app)}` : ''}${target ? ` for ${target.triple}` : ''}`;
+      const app_build_options = appBuildOptions(app, build_options);
+      for (const mode of ['release', 'debug'] as const) {
+        if (mode === 'release' ? !include_release : !include_debug) {
+          continue;
+        }
+        core.info(`Starting ${mode} build${app_label}...`);
+        const started_at = Date.now();
+        let built = await buildProject(
+          app.project_path,
+          mode === 'debug',
+          appInitOptions(app),
+          target ? targetBuildOptions(app_build_options, target) : app_build_options,
+        );
+        if (app.flavor) {
+          // The next flavor writes the same file names.
+          built = moveFlavorArtifacts(built, app.flavor.name);
+        }
+        built = built.map((artifact) => tagAppArtifact(app, target ? tagTargetArtifact(target, artifact) : artifact));
+        (mode === 'release' ? release_artifacts : debug_artifacts).push(...built);
+        app_artifacts.push(...built);
+        build_durations[mode] = (build_durations[mode] ?? 0) + Date.now() - started_at;
+        endPhase(`${mode === 'release' ? 'Release' : 'Debug'} build${app_label}`, started_at);
+      }
+    }
+    built_apps.push({ app, artifacts: app_artifacts });
+  }
+
+  const artifacts = release_artifacts.concat(debug_artifacts);
+  if (updater_signing_key) {
+    core.info('Signing updater artifacts...');
+    const started_at = Date.now();
+    await signUpdaterArtifacts(artifacts, updater_signing_key);
+    endPhase('Updater signing', started_at);
+  }
+  core.info(
+    `Build completed. release_artifacts=${release_artifacts.length}, debug_artifacts=${debug_artifacts.length}, total=${artifacts.length}`,
+  );
+
+  if (resolved_app_name) {
+    setOutput('app_name', resolved_app_name);
+  }
+  if (resolved_app_version) {
+    setOutput('app_version', resolved_app_version);
+  }
+  let published_assets: UploadedReleaseAsset[] = [];
+  const published_by_app = new Map<PackagedApp, UploadedReleaseAsset[]>();
+  let published_tag: string | undefined;
+  let published_release: { id: string; url?: string } | undefined;
+  let missing_platforms: string[] | undefined;
+  const updater_reports: UpdaterJsonReport[] = [];
+
+  const release_metadata_provided = Boolean(
+    release_name_input || release_body_input || release_draft || prerelease
+  );
+  if (publish && !tag_name_input && !has_release_id && release_metadata_provided) {
+    core.warning('Release inputs provided without tagName; release upload skipped.');
+  }
+
+  // Upload each app's artifacts, then checksums for all of them, then delta patches and
+  // updater JSON per app (`<app>-latest.json` in multi-app runs, `<flavor>-latest.json` with flavors).
+  const uploadToRelease = async (params: {
+    backend: ReleaseBackend;
+    releaseId: string;
+    // Tag the delta patch URLs point at.
+    tagName: string;
+    updaterTagName?: string | null;
+    updaterBody?: string | null;
+    releaseCreatedAt?: string | null;
+  }): Promise<void> => {
+    const { backend, releaseId } = params;
+    // Asset names are unique across apps so one app's upload never replaces another's.
+    const used_names = new Set<string>();
+    for (const { app, artifacts: app_artifacts } of built_apps) {
+      if (app_artifacts.length === 0) {
+        continue;
+      }
+      core.info(`Uploading ${app_artifacts.length} artifact(s)${appLabel(app) ? ` of ${appLabel(app)}` : ''} to release id=${releaseId}...`);
+      published_by_app.set(app, await uploadReleaseAssets({
+        backend,
+        releaseId,
+        artifacts: app_artifacts,
+        assetNameTemplate: app.asset_name_template,
+        releaseAssetNamePattern: release_asset_name_pattern,
+        assetPrefix: asset_prefix,
+        appName: app.name,
+        appVersion: app.version,
+        retryAttempts: retry_attempts,
+        uploadUpdaterSignatures: upload_updater_signatures,
+        checksumSha512: checksum_sha512,
+        usedNames: used_names,
+      }));
+    }
+    published_assets = Array.from(published_by_app.values()).flat();
+
+    const delta_patches: DeltaPatch[] = [];
+    for (const [app, uploadedAssets] of published_by_app) {
+      if (!upload_updater_json || uploadedAssets.length === 0) {
+        continue;
+      }
+      let deltaPatches: DeltaPatch[] = [];
+      if (delta_updates) {
+        deltaPatches = await uploadDeltaPatches({
+          backend,
+          releaseId,
+          tagName: params.tagName,
+          appVersion: app.version,
+          channel: update_channel,
+          uploadedAssets,
+          retryAttempts: retry_attempts,
+        });
+        delta_patches.push(...deltaPatches);
+      }
+
+      const label = appLabel(app);
+      core.info(`Uploading updater JSON (${updaterJsonFileName(update_channel, label)}) to release id=${releaseId}...`);
+      updater_reports.push(await uploadUpdaterJson({
+        backend,
+        releaseId,
+        appVersion: app.version,
+        releaseTagName: params.updaterTagName,
+        releaseBody: params.updaterBody,
+        releaseCreatedAt: params.releaseCreatedAt,
+        uploadedAssets,
+        retryAttempts: retry_attempts,
+        channel: update_channel,
+        channelIndex: update_channel_index,
+        allowDowngrade: allow_updater_downgrade,
+        deltaPatches,
+        ...(label
+          ? { app: label, assetNames: uploadedAssets.map((asset) => asset.name) }
+          : {}),
+      }));
+    }
+
+    // Written last so delta patches are covered too.
+    if (upload_checksums && published_assets.length > 0) {
+      core.info(`Uploading checksums to release id=${releaseId}...`);
+      await uploadChecksumFiles({
+        backend,
+        releaseId,
+        uploadedAssets: published_assets,
+        deltaPatches: delta_patches,
+        includeSha512: checksum_sha512,
+        retryAttempts: retry_attempts,
+      });
+    }
+  };
+
+  // 3) Publish release artifacts when configured.
+  const release_started_at = Date.now();
+  if (!publish) {
+    core.info('build command: release upload and store delivery are skipped.');
+  } else if (has_release_id && backend) {
+    const releaseId = release_id as string;
+    core.info(`Release mode: upload to existing release id=${releaseId}.`);
+    setOutput('release_id', releaseId);
+
+    if (tag_name_input_raw || release_name_input || release_body_input) {
+      core.info(
+        'releaseId provided; tagName/releaseName/releaseBody inputs are ignored for release creation.',
+      );
+    }
+    if (release_draft || prerelease) {
+      core.info('releaseId provided; releaseDraft/prerelease inputs are ignored for release creation.');
+    }
+
+    let releaseSummary: ReleaseSummary | null = null;
+    try {
+      releaseSummary = await backend.getRelease(releaseId);
+      if (releaseSummary) {
+        setOutput('release_url', releaseSummary.html_url);
+        published_tag = releaseSummary.tag_name ?? undefined;
+      }
+    } catch (error) {
+      core.warning(`Failed to fetch release ${release_id_input}: ${(error as Error).message}`);
+    }
+    published_release = { id: releaseId, url: releaseSummary?.html_url };
+
+    await uploadToRelease({
+      backend,
+      releaseId,
+      tagName: releaseSummary?.tag_name ?? '',
+      updaterTagName: releaseSummary?.tag_name,
+      updaterBody: generated_release_notes ?? releaseSummary?.body,
+      releaseCreatedAt: releaseSummary?.created_at,
+    });
+
+    if (expected_platforms) {
+      missing_platforms = await applyExpectedPlatformsGate({
+        backend,
+        releaseId,
+        expectedPlatforms: expected_platforms,
+        publish: !release_draft,
+        failOnMissing: fail_on_missing_platforms,
+        setOutput,
+      });
+    }
+  } else if (tag_name_input && backend) {
+    const resolved_tag_raw = replaceVersion(tag_name_input, resolved_app_version);
+    const resolved_tag = normalizeTagName(resolved_tag_raw);
+    if (resolved_tag !== resolved_tag_raw) {
+      core.info(`Normalized tagName from "${resolved_tag_raw}" to "${resolved_tag}".`);
+    }
+    const resolved_release_name = release_name_input
+      ? replaceVersion(release_name_input, resolved_app_version)
+      : undefined;
+
+    const release = await backend.ensureRelease({
+      tagName: resolved_tag,
+      releaseName: resolved_release_name,
+      releaseBody: release_body,
+      // With expected_platforms the release stays a draft until the gate below publishes it.
+      draft: release_draft || Boolean(expected_platforms && backend.supportsDrafts),
+      prerelease,
+      commitish: release_commitish,
+      generateReleaseNotes: generate_release_notes,
+    });
+    core.info(`Release mode: ensured release id=${release.id} for tag=${resolved_tag}.`);
+    published_tag = resolved_tag;
+    published_release = { id: release.id, url: release.html_url };
+
+    setOutput('release_id', release.id);
+    setOutput('release_url', release.html_url);
+
+    let releaseSummary: ReleaseSummary | null = null;
+    try {
+      releaseSummary = await backend.getRelease(release.id);
+    } catch (error) {
+      core.warning(`Failed to refresh release ${release.id} details: ${(error as Error).message}`);
+    }
+
+    await uploadToRelease({
+      backend,
+      releaseId: release.id,
+      tagName: resolved_tag,
+      updaterTagName: releaseSummary?.tag_name ?? resolved_tag,
+      updaterBody: releaseSummary?.body ?? release_body,
+      releaseCreatedAt: releaseSummary?.created_at,
+    });
+
+    await backend.cleanupDuplicateReleases(resolved_tag, release.id);
+
+    if (expected_platforms) {
+      missing_platforms = await applyExpectedPlatformsGate({
+        backend,
+        releaseId: release.id,
+        expectedPlatforms: expected_platforms,
+        publish: !release_draft,
+        failOnMissing: fail_on_missing_platforms,
+        setOutput,
+      });
+    }
+  }
+
+  if (published_release) {
+    endPhase('Release upload', release_started_at);
+  }
+
+  let feed_assets: UpdaterFeedAsset[] = [];
+  if (updater_feed_store) {
+    const feed_started_at = Date.now();
+    const used_names = new Set<string>();
+    for (const { app, artifacts: app_artifacts } of built_apps) {
+      const app_feed_assets: UpdaterFeedAsset[] = published_assets.length > 0
+        ? published_by_app.get(app) ?? []
+        : planReleaseAssets({
+          artifacts: app_artifacts,
+          assetNameTemplate: app.asset_name_template,
+          releaseAssetNamePattern: release_asset_name_pattern,
+          assetPrefix: asset_prefix,
+          appName: app.name,
+          appVersion: app.version,
+          uploadUpdaterSignatures: upload_updater_signatures,
+          usedNames: used_names,
+        });
+      feed_assets = feed_assets.concat(app_feed_assets);
+      core.info(`Writing updater feed${appLabel(app) ? ` of ${appLabel(app)}` : ''} to ${updater_feed_store.target}...`);
+      updater_reports.push(await writeUpdaterFeed({
+        store: updater_feed_store,
+        channel: update_channel,
+        channelIndex: update_channel_index,
+        allowDowngrade: allow_updater_downgrade,
+        assets: app_feed_assets,
+        assetUrl: feedAssetUrl(published_tag),
+        appVersion: app.version,
+        tagName: published_tag,
+        notes: release_body,
+        app: appLabel(app),
+      }));
+    }
+    endPhase('Updater feed', feed_started_at);
+  }
+
+  const artifact_outputs = await describeArtifacts(artifacts, published_assets, checksum_sha512, feed_assets);
+  setOutput('artifacts', JSON.stringify(artifact_outputs));
+
+  const uploaded_by_artifact = new Map(published_assets.map((asset) => [asset.artifact, asset]));
+  const feed_by_artifact = new Map(feed_assets.map((asset) => [asset.artifact, asset]));
+  const feed_asset_url = feedAssetUrl(published_tag);
+  const artifact_manifest = buildArtifactManifest({
+    app: { name: resolved_app_name, version: resolved_app_version, identifier: main_app.identifier },
+    artifacts: artifact_outputs,
+    buildDurations: build_durations,
+    toolchain: detectToolchainVersions(artifacts),
+    release: published_release
+      ? {
+        backend: release_backend,
+        id: published_release.id,
+        tag: published_tag,
+        url: published_release.url,
+        update_channel: upload_updater_json ? update_channel : undefined,
+      }
+      : undefined,
+    explicitTriple: parseTargetTripleFromArgs(args),
+    iosSim: ios_sim,
+    describeUpload: (artifact) => {
+      const uploaded = uploaded_by_artifact.get(artifact);
+      if (uploaded) {
+        return {
+          upload_path: uploaded.uploadPath,
+          download_url: uploaded.url,
+          signature_asset_name: uploaded.signature?.name,
+        };
+      }
+      const feed_asset = feed_by_artifact.get(artifact);
+      return feed_asset
+        ? { upload_path: feed_asset.uploadPath, download_url: feed_asset_url(feed_asset.name) }
+        : undefined;
+    },
+  });
+  writeArtifactManifest(artifact_manifest_path, artifact_manifest);
+  core.info(`Wrote artifact manifest: ${artifact_manifest_path}`);
+  setOutput('artifact_manifest', artifact_manifest_path);
+
+  if (upload_artifact_manifest && backend && published_release && artifacts.length > 0) {
+    await uploadArtifactManifest({
+      backend,
+      releaseId: published_release.id,
+      assetName: artifactManifestAssetName(artifacts),
+      manifest: artifact_manifest,
+      retryAttempts: retry_attempts,
+    });
+  }
+
+  // 4) Optional post-build delivery.
+  if (publish && ios_upload_testflight) {
+    core.info('TestFlight upload enabled; uploading IPA...');
+    const started_at = Date.now();
+    for (const { artifacts: app_artifacts } of built_apps) {
+      await uploadToTestFlight({
+        artifacts: app_artifacts,
+        apiKey: app_store_connect_api_key as string,
+        keyId: app_store_connect_key_id as string,
+        issuerId: app_store_connect_issuer_id as string,
+      });
+    }
+    endPhase('TestFlight upload', started_at);
+  }
+
+  if (publish && android_upload_google_play) {
+    core.info(`Google Play upload enabled; uploading to the "${google_play_track}" track...`);
+    const started_at = Date.now();
+    // Apps of a multi-app run without Android packages (e.g. desktop-only members) are skipped.
+    const android_apps = built_apps.filter((built) => pickAndroidPlayArtifacts(built.artifacts).length > 0);
+    if (android_apps.length === 0) {
+      throw new Error(
+        'Google Play upload requested but no Android .aab/.apk artifact was built. Build a release for an Android target.',
+      );
+    }
+    for (const { app } of built_apps.filter((built) => !android_apps.includes(built))) {
+      core.info(`Skipping Google Play upload of ${appLabel(app) ?? 'the app'}: no Android .aab/.apk artifact was built.`);
+    }
+    for (const { app, artifacts: app_artifacts } of android_apps) {
+      await uploadToGooglePlay({
+        artifacts: app_artifacts,
+        serviceAccountJson: google_play_service_account_json as string,
+        packageName: googlePlayPackageName(app),
+        track: google_play_track,
+        releaseStatus: google_play_release_status,
+        releaseNotes: google_play_release_notes ?? release_body,
+        apiBaseUrl: getEnvValue('GOOGLE_PLAY_API_BASE_URL'),
+        tokenUri: getEnvValue('GOOGLE_PLAY_TOKEN_URI'),
+      });
+    }
+    endPhase('Google Play upload', started_at);
+  }
+
+  // 5) Report for reviewers: job summary and, on pull requests, a comment.
+  if (job_summary || pr_comment) {
+    const report = renderRunReport({
+      manifest: artifact_manifest,
+      updater: updater_reports,
+      missing_platforms,
+      skipped_targets,
+      phases,
+    });
+    if (job_summary) {
+      await writeJobSummary(report);
+    }
+    if (pr_comment) {
+      await postPullRequestComment({
+        markdown: report,
+        // One comment per app and target, like the manifest asset name.
+        key: `${resolved_app_name ?? 'app'}:${artifactManifestAssetName(artifacts)}`,
+        token: github_token,
+        githubBaseUrl: github_base_url,
+      });
+    }
+  }
+
+  if (artifacts.length === 0) {
+    console.log('No artifacts were built.');
+    return;
+  }
+
+  console.log(`Found artifacts:\n${artifacts.map((a) => a.path).join('\n')}`);
+}
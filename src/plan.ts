@@ -0,0 +1,384 @@
+import { appBuildOptions, appInitOptions, appLabel, tagAppArtifact } from './apps';
+import type { PackagedApp } from './apps';
+import { planBuild } from './build';
+import { flavorArtifactPath } from './flavors';
+import { artifactManifestAssetName } from './manifest';
+import type { BuildPlan } from './build';
+import { planReleaseAssets, previewUpdaterJson } from './release';
+import type { PlannedReleaseAsset, ReleaseBackend, UpdaterJsonDocument } from './release';
+import { channelIndexFileName, updaterJsonFileName } from './release/channels';
+import { tagTargetArtifact, targetBuildOptions } from './targets';
+import type { BuildTarget, SkippedTarget } from './targets';
+import type { ArtifactOutput, BuildOptions } from './types';
+
+export type PlannedReleaseTarget =
+  | { release_id: string }
+  | {
+    tag_name: string;
+    release_name?: string;
+    draft: boolean;
+    prerelease: boolean;
+    commitish?: string;
+    generate_release_notes: boolean;
+  };
+
+/**
+ * Updater JSON of one app: `latest.json` (or `latest-<channel>.json`), prefixed `<app>-` for each app
+ * of a multi-app run and `<flavor>-` for each flavor.
+ */
+export interface UpdaterJsonPlan {
+  app?: string;
+  name: string;
+  // Undefined when no planned asset maps to an updater entry.
+  document?: UpdaterJsonDocument;
+  // Set when `channels.json` is maintained next to the updater JSON.
+  channel_index?: string;
+}
+
+export interface ReleasePlan {
+  backend: ReleaseBackend['kind'];
+  // Backend target, e.g. `owner/repo` or `s3://bucket/prefix`.
+  repository: string;
+  target: PlannedReleaseTarget;
+  assets: { name: string; source: string; signature?: string }[];
+  checksum_files: string[];
+  // Empty when updater JSON upload is disabled or no asset is planned.
+  updater_json: UpdaterJsonPlan[];
+  // Patches are created against the previous release, which is only looked up at upload time.
+  delta_updates: boolean;
+  // `<platform>-<arch>` keys the release must have before it is published.
+  expected_platforms?: string[];
+}
+
+/**
+ * Everything a run would do, resolved without building or calling the release backend.
+ */
+export interface UpdaterFeedPlan {
+  target: string;
+  feeds: UpdaterJsonPlan[];
+}
+
+export interface DryRunPlan {
+  project_path: string;
+  // The first app when `apps` packages several; its version names the release.
+  app: { name?: string; version?: string; identifier?: string };
+  // Apps of a multi-app run, once per flavor when flavors are built.
+  apps?: { key?: string; flavor?: string; project_path: string; name?: string; version?: string; identifier?: string }[];
+  builds: BuildPlan[];
+  // Triples of `targets` this host cannot build.
+  skipped_targets?: SkippedTarget[];
+  release?: ReleasePlan;
+  updater_feed?: UpdaterFeedPlan;
+  delivery: string[];
+  artifacts: ArtifactOutput[];
+  // `makepad-artifacts.json`; `asset_name` is set when it is also uploaded to the release.
+  artifact_manifest: { path: string; asset_name?: string };
+}
+
+export async function planRun(params: {
+  projectPath: string;
+  // One entry without `key` for single-app runs; one entry per flavor with flavors.
+  apps: PackagedApp[];
+  // Set by the `targets` input; otherwise the target comes from `args`.
+  targets?: BuildTarget[];
+  skippedTargets?: SkippedTarget[];
+  includeRelease: boolean;
+  includeDebug: boolean;
+  buildOptions: BuildOptions;
+  releaseBody?: string;
+  assetNaming: {
+    releaseAssetNamePattern?: string;
+    assetPrefix?: string;
+    uploadUpdaterSignatures: boolean;
+    signUpdaterArtifacts: boolean;
+  };
+  release?: {
+    backend: ReleaseBackend;
+    target: PlannedReleaseTarget;
+    uploadUpdaterJson: boolean;
+    channel: string;
+    deltaUpdates: boolean;
+    channelIndex: boolean;
+    uploadChecksums: boolean;
+    checksumSha512: boolean;
+    expectedPlatforms?: string[];
+  };
+  updaterFeed?: {
+    target: string;
+    channel: string;
+    channelIndex: boolean;
+    tagName?: string;
+    assetUrl: (assetName: string) => string;
+  };
+  delivery?: string[];
+  artifactManifest: { path: string; upload: boolean };
+}): Promise<DryRunPlan> {
+  const { projectPath, apps, buildOptions, releaseBody, assetNaming, release } = params;
+  const main_app = apps[0];
+
+  const builds: BuildPlan[] = [];
+  const planned_by_app = new Map<PackagedApp, PlannedReleaseAsset[]>();
+  // Shared across apps like in `uploadReleaseAssets`, so equal names get a numeric suffix.
+  const used_names = new Set<string>();
+  for (const app of apps) {
+    const init_options = appInitOptions(app);
+    const app_build_options = appBuildOptions(app, buildOptions);
+    const app_builds: BuildPlan[] = [];
+    for (const target of params.targets ?? [undefined]) {
+      const target_options = target ? targetBuildOptions(app_build_options, target) : app_build_options;
+      const target_builds: BuildPlan[] = [];
+      if (params.includeRelease) {
+        target_builds.push(planBuild(app.project_path, false, init_options, target_options));
+      }
+      if (params.includeDebug) {
+        target_builds.push(planBuild(app.project_path, true, init_options, target_options));
+      }
+      if (target) {
+        for (const build of target_builds) {
+          build.artifacts = build.artifacts.map((artifact) => tagTargetArtifact(target, artifact));
+          if (!target.native) {
+            build.notes.push(`Rust target ${target.triple} is added with rustup when missing.`);
+          }
+        }
+      }
+      app_builds.push(...target_builds);
+    }
+    for (const build of app_builds) {
+      if (app.key) {
+        build.app = app.key;
+      }
+      if (app.flavor) {
+        const flavor = app.flavor.name;
+        build.flavor = flavor;
+        build.artifacts = build.artifacts.map((artifact) => ({ ...artifact, path: flavorArtifactPath(artifact.path, flavor) }));
+      }
+      build.artifacts = build.artifacts.map((artifact) => tagAppArtifact(app, artifact));
+      builds.push(build);
+    }
+
+    planned_by_app.set(app, release || params.updaterFeed
+      ? planReleaseAssets({
+        artifacts: app_builds.flatMap((build) => build.artifacts),
+        assetNameTemplate: app.asset_name_template,
+        releaseAssetNamePattern: assetNaming.releaseAssetNamePattern,
+        assetPrefix: assetNaming.assetPrefix,
+        appName: app.name,
+        appVersion: app.version,
+        uploadUpdaterSignatures: assetNaming.uploadUpdaterSignatures,
+        expectUpdaterSignatures: assetNaming.signUpdaterArtifacts,
+        usedNames: used_names,
+      })
+      : []);
+  }
+  const artifacts = builds.flatMap((build) => build.artifacts);
+  const planned_assets = Array.from(planned_by_app.values()).flat();
+
+  const planUpdaterJson = async (
+    channel: string,
+    channelIndex: boolean,
+    releaseTagName: string,
+    assetDownloadUrl: ReleaseBackend['assetDownloadUrl'],
+  ): Promise<UpdaterJsonPlan[]> => {
+    const plans: UpdaterJsonPlan[] = [];
+    for (const [app, app_assets] of planned_by_app) {
+      const document = app_assets.length > 0
+        ? await previewUpdaterJson({
+          plannedAssets: app_assets,
+          releaseTagName,
+          appVersion: app.version,
+          releaseBody,
+          backend: { assetDownloadUrl },
+        })
+        : undefined;
+      const label = appLabel(app);
+      plans.push({
+        ...(label ? { app: label } : {}),
+        name: updaterJsonFileName(channel, label),
+        document,
+        ...(channelIndex ? { channel_index: channelIndexFileName(label) } : {}),
+      });
+    }
+    return plans;
+  };
+
+  let release_plan: ReleasePlan | undefined;
+  if (release) {
+    const checksum_files = release.uploadChecksums && planned_assets.length > 0
+      ? ['SHA256SUMS', ...(release.checksumSha512 ? ['SHA512SUMS'] : [])]
+      : [];
+
+    // The tag of an existing release is only known after fetching it.
+    const tag_name = 'tag_name' in release.target ? release.target.tag_name : '<release-tag>';
+    const updater_json = release.uploadUpdaterJson && planned_assets.length > 0
+      ? (await planUpdaterJson(release.channel, release.channelIndex, tag_name, release.backend.assetDownloadUrl.bind(release.backend)))
+        // Without entries nothing is uploaded, channel index included.
+        .filter((plan) => plan.document)
+      : [];
+
+    release_plan = {
+      backend: release.backend.kind,
+      repository: release.backend.target,
+      target: release.target,
+      assets: planned_assets.map((asset) => ({
+        name: asset.name,
+        source: asset.artifact.path,
+        ...(asset.signatureName ? { signature: asset.signatureName } : {}),
+      })),
+      checksum_files,
+      updater_json,
+      delta_updates: release.deltaUpdates,
+      ...(release.expectedPlatforms ? { expected_platforms: release.expectedPlatforms } : {}),
+    };
+  }
+
+  let updater_feed: UpdaterFeedPlan | undefined;
+  if (params.updaterFeed) {
+    const { target, channel, channelIndex, tagName, assetUrl } = params.updaterFeed;
+    updater_feed = {
+      target,
+      feeds: await planUpdaterJson(channel, channelIndex, tagName ?? '', (_tag, assetName) => assetUrl(assetName)),
+    };
+  }
+
+  const asset_by_artifact = new Map(planned_assets.map((asset) => [asset.artifact, asset.name]));
+  return {
+    project_path: projectPath,
+    app: { name: main_app.name, version: main_app.version, identifier: main_app.identifier },
+    ...(appLabel(main_app)
+      ? {
+        apps: apps.map((app) => {
+          const init_options = appInitOptions(app);
+          return {
+            ...(app.key ? { key: app.key } : {}),
+            ...(app.flavor ? { flavor: app.flavor.name } : {}),
+            project_path: app.project_path,
+            name: init_options.app_name,
+            version: app.version,
+            identifier: init_options.identifier,
+          };
+        }),
+      }
+      : {}),
+    builds,
+    ...(params.skippedTargets?.length ? { skipped_targets: params.skippedTargets } : {}),
+    release: release_plan,
+    updater_feed,
+    delivery: params.delivery ?? [],
+    artifacts: artifacts.map((artifact) => {
+      const asset_name = asset_by_artifact.get(artifact);
+      return asset_name ? { ...artifact, asset_name } : artifact;
+    }),
+    artifact_manifest: {
+      path: params.artifactManifest.path,
+      ...(params.artifactManifest.upload && release_plan && artifacts.length > 0
+        ? { asset_name: artifactManifestAssetName(artifacts) }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Render a plan as indented text for logs and terminals.
+ */
+export function formatDryRunPlan(plan: DryRunPlan): string {
+  const lines: string[] = [];
+  lines.push(`Project: ${plan.project_path}`);
+  lines.push(`App: ${plan.app.name ?? '(unknown)'} ${plan.app.version ?? '(unknown)'}`);
+  if (plan.app.identifier) {
+    lines.push(`Identifier: ${plan.app.identifier}`);
+  }
+  if (plan.apps) {
+    lines.push('Apps:');
+    for (const app of plan.apps) {
+      const label = [app.key, app.flavor].filter(Boolean).join('-');
+      lines.push(`  ${label}: ${app.name ?? '(unknown)'} ${app.version ?? '(unknown)'}${app.identifier ? ` [${app.identifier}]` : ''} (${app.project_path})`);
+    }
+  }
+
+  for (const build of plan.builds) {
+    const { target_platform, arch, type } = build.target_info;
+    const label = [build.app, build.flavor].filter(Boolean).join('-');
+    const profile = build.profile ? ` (profile ${build.profile})` : '';
+    lines.push('', `${label ? `${label}: ` : ''}${build.mode} build${profile} (${type}: ${target_platform}/${arch})`);
+    lines.push('  Commands:');
+    for (const command of build.commands) {
+      lines.push(`    $ ${[command.command, ...command.args].map(quoteArg).join(' ')}`);
+    }
+    lines.push('  Expected artifacts:');
+    lines.push(...(build.artifacts.length > 0
+      ? build.artifacts.map((artifact) => `    ${artifact.path}`)
+      : ['    (none)']));
+    if (build.notes.length > 0) {
+      lines.push('  Notes:', ...build.notes.map((note) => `    - ${note}`));
+    }
+  }
+
+  if (plan.skipped_targets) {
+    lines.push('', 'Skipped targets:');
+    for (const skipped of plan.skipped_targets) {
+      lines.push(`  ${skipped.triple}: ${skipped.reason}`);
+    }
+  }
+
+  if (plan.release) {
+    const { release } = plan;
+    lines.push('', `Release (${release.backend}: ${release.repository})`);
+    if ('release_id' in release.target) {
+      lines.push(`  Upload to existing release id=${release.target.release_id}`);
+    } else {
+      const { tag_name, release_name, draft, prerelease, commitish } = release.target;
+      lines.push(`  Create or reuse release for tag ${tag_name}${commitish ? ` at ${commitish}` : ''}`);
+      if (release_name) lines.push(`  Name: ${release_name}`);
+      lines.push(`  draft=${draft}, prerelease=${prerelease}`);
+    }
+    lines.push('  Assets:');
+    for (const asset of release.assets) {
+      lines.push(`    ${asset.name} <- ${asset.source}`);
+      if (asset.signature) lines.push(`    ${asset.signature} (updater signature)`);
+    }
+    for (const name of release.checksum_files) {
+      lines.push(`    ${name} (checksums)`);
+    }
+    if (release.delta_updates) {
+      lines.push('    <asset>.from-<previous version>.patch (delta patches from the previous release on the channel)');
+    }
+    for (const updater_json of release.updater_json) {
+      lines.push(`  ${updater_json.name}:`);
+      lines.push(...JSON.stringify(updater_json.document, null, 2).split('\n').map((line) => `    ${line}`));
+      if (updater_json.channel_index) {
+        lines.push(`  ${updater_json.channel_index} (channel index)`);
+      }
+    }
+    if (release.expected_platforms) {
+      lines.push(`  Publish once all expected platforms are present: ${release.expected_platforms.join(', ')}`);
+    }
+  } else {
+    lines.push('', 'Release: skipped (no tagName or releaseId)');
+  }
+
+  if (plan.updater_feed) {
+    const { target, feeds } = plan.updater_feed;
+    lines.push('', `Updater feed (${target})`);
+    for (const feed of feeds) {
+      lines.push(`  Files: ${[feed.name, ...(feed.channel_index ? [feed.channel_index] : [])].join(', ')}`);
+      if (feed.document) {
+        lines.push(...JSON.stringify(feed.document, null, 2).split('\n').map((line) => `    ${line}`));
+      } else {
+        lines.push('  (no updater entries for the planned artifacts)');
+      }
+    }
+  }
+
+  const { artifact_manifest } = plan;
+  lines.push('', `Artifact manifest: ${artifact_manifest.path}${artifact_manifest.asset_name ? ` (uploaded as ${artifact_manifest.asset_name})` : ''}`);
+
+  if (plan.delivery.length > 0) {
+    lines.push('', 'Delivery:', ...plan.delivery.map((step) => `  - ${step}`));
+  }
+
+  return lines.join('\n');
+}
+
+function quoteArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,266 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { normalizeTagName, trimToString } from '../../utils';
+import type {
+  EnsureReleaseParams,
+  ReleaseAssetContent,
+  ReleaseAssetSummary,
+  ReleaseBackend,
+  ReleaseSummary,
+} from './types';
+
+export type GiteaReleaseBackendOptions = {
+  token: string;
+  owner: string;
+  repo: string;
+  // Web URL of the instance, e.g. `https://codeberg.org`.
+  serverUrl: string;
+};
+
+type GiteaRelease = {
+  id: number;
+  html_url: string;
+  name?: string | null;
+  body?: string | null;
+  draft?: boolean;
+  prerelease?: boolean;
+  tag_name?: string | null;
+  created_at?: string | null;
+};
+
+type GiteaAttachment = {
+  id: number;
+  name: string;
+  browser_download_url: string;
+};
+
+class GiteaApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+function mapRelease(release: GiteaRelease): ReleaseSummary {
+  return {
+    id: String(release.id),
+    html_url: release.html_url,
+    name: release.name,
+    body: release.body,
+    draft: release.draft,
+    prerelease: release.prerelease,
+    tag_name: release.tag_name,
+    created_at: release.created_at,
+  };
+}
+
+function mapAttachment(attachment: GiteaAttachment): ReleaseAssetSummary {
+  return {
+    id: String(attachment.id),
+    name: attachment.name,
+    browser_download_url: attachment.browser_download_url,
+  };
+}
+
+/**
+ * Gitea and Forgejo releases through the `/api/v1` REST API (Codeberg included).
+ * Forgejo keeps the Gitea API surface, so one client serves both.
+ */
+export class GiteaReleaseBackend implements ReleaseBackend {
+  readonly kind = 'gitea' as const;
+  readonly supportsDrafts = true;
+  readonly target: string;
+  private readonly serverUrl: string;
+  private readonly repoPath: string;
+
+  constructor(private readonly options: GiteaReleaseBackendOptions) {
+    this.serverUrl = options.serverUrl.replace(/\/+$/, '');
+    this.target = `${this.serverUrl}/${options.owner}/${options.repo}`;
+    this.repoPath = `/repos/${encodeURIComponent(options.owner)}/${encodeURIComponent(options.repo)}`;
+  }
+
+  private async request<T>(method: string, path: string, body?: BodyInit, contentType?: string): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      Authorization: `token ${this.options.token}`,
+      'User-Agent': 'makepad-packaging-action',
+    };
+    if (contentType) {
+      headers['Content-Type'] = contentType;
+    }
+    const response = await fetch(`${this.serverUrl}/api/v1${path}`, { method, headers, body });
+    if (!response.ok) {
+      const detail = (await response.text()).trim();
+      throw new GiteaApiError(
+        `Gitea API ${method} ${path} failed (${response.status} ${response.statusText})${detail ? `: ${detail}` : ''}`,
+        response.status,
+      );
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  private async getReleaseByTag(tagName: string): Promise<ReleaseSummary | null> {
+    try {
+      const release = await this.request<GiteaRelease>(
+        'GET',
+        `${this.repoPath}/releases/tags/${encodeURIComponent(tagName)}`,
+      );
+      return mapRelease(release);
+    } catch (error) {
+      if ((error as GiteaApiError).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async ensureRelease(params: EnsureReleaseParams): Promise<ReleaseSummary> {
+    const tagName = normalizeTagName(params.tagName);
+    const payload = {
+      tag_name: tagName,
+      name: params.releaseName || tagName,
+      body: params.releaseBody || '',
+      draft: params.draft,
+      prerelease: params.prerelease,
+    };
+    core.info(`Ensuring release for tag "${tagName}"...`);
+    if (params.generateReleaseNotes) {
+      core.warning('generateReleaseNotes is not supported by the Gitea API; using releaseBody as-is.');
+    }
+
+    const existing = await this.getReleaseByTag(tagName);
+    if (existing) {
+      // Draft releases have no tag yet and are not returned by the tag lookup.
+      const updated = await this.request<GiteaRelease>(
+        'PATCH',
+        `${this.repoPath}/releases/${existing.id}`,
+        JSON.stringify(payload),
+        'application/json',
+      );
+      core.info(`Updated existing release id=${updated.id} for tag "${tagName}".`);
+      return mapRelease(updated);
+    }
+
+    const drafts = await this.request<GiteaRelease[]>('GET', `${this.repoPath}/releases?draft=true&limit=50`);
+    const draft = drafts.find((release) => release.tag_name === tagName);
+    if (draft) {
+      const updated = await this.request<GiteaRelease>(
+        'PATCH',
+        `${this.repoPath}/releases/${draft.id}`,
+        JSON.stringify(payload),
+        'application/json',
+      );
+      core.info(`Updated existing draft release id=${updated.id} for tag "${tagName}".`);
+      return mapRelease(updated);
+    }
+
+    const created = await this.request<GiteaRelease>(
+      'POST',
+      `${this.repoPath}/releases`,
+      JSON.stringify({
+        ...payload,
+        target_commitish: trimToString(params.commitish) || github.context.sha || undefined,
+      }),
+      'application/json',
+    );
+    core.info(`Created release id=${created.id} for tag "${tagName}".`);
+    return mapRelease(created);
+  }
+
+  async getRelease(releaseId: string): Promise<ReleaseSummary | null> {
+    try {
+      return mapRelease(await this.request<GiteaRelease>('GET', `${this.repoPath}/releases/${releaseId}`));
+    } catch (error) {
+      if ((error as GiteaApiError).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async publishRelease(releaseId: string): Promise<ReleaseSummary> {
+    const updated = await this.request<GiteaRelease>(
+      'PATCH',
+      `${this.repoPath}/releases/${releaseId}`,
+      JSON.stringify({ draft: false }),
+      'application/json',
+    );
+    return mapRelease(updated);
+  }
+
+  async listReleases(): Promise<ReleaseSummary[]> {
+    const releases = await this.request<GiteaRelease[]>('GET', `${this.repoPath}/releases?limit=50`);
+    return releases.map(mapRelease);
+  }
+
+  async listAssets(releaseId: string): Promise<ReleaseAssetSummary[]> {
+    const attachments = await this.request<GiteaAttachment[]>('GET', `${this.repoPath}/releases/${releaseId}/assets`);
+    return attachments.map(mapAttachment);
+  }
+
+  async uploadAsset(releaseId: string, name: string, content: ReleaseAssetContent): Promise<ReleaseAssetSummary> {
+    const form = new FormData();
+    const blob = 'path' in content
+      ? new Blob([new Uint8Array(readFileSync(content.path))], { type: 'application/octet-stream' })
+      : new Blob([new Uint8Array(content.data)], { type: content.contentType });
+    form.append('attachment', blob, 'path' in content ? basename(content.path) : name);
+    try {
+      const attachment = await this.request<GiteaAttachment>(
+        'POST',
+        `${this.repoPath}/releases/${releaseId}/assets?name=${encodeURIComponent(name)}`,
+        form,
+      );
+      return mapAttachment(attachment);
+    } catch (error) {
+      if ((error as GiteaApiError).status === 409 || (error as GiteaApiError).status === 422) {
+        throw new Error(`Asset upload conflict for "${name}"`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteAsset(releaseId: string, asset: ReleaseAssetSummary): Promise<void> {
+    try {
+      await this.request<void>('DELETE', `${this.repoPath}/releases/${releaseId}/assets/${asset.id}`);
+    } catch (error) {
+      if ((error as GiteaApiError).status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  async downloadAsset(_releaseId: string, asset: ReleaseAssetSummary): Promise<Buffer> {
+    const response = await fetch(asset.browser_download_url, {
+      headers: { Authorization: `token ${this.options.token}` },
+      redirect: 'follow',
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to download release asset (${response.status} ${response.statusText}).`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async downloadAssetText(releaseId: string, asset: ReleaseAssetSummary): Promise<string> {
+    return (await this.downloadAsset(releaseId, asset)).toString('utf8');
+  }
+
+  assetDownloadUrl(tagName: string, assetName: string): string | undefined {
+    const tag = normalizeTagName(trimToString(tagName));
+    const name = trimToString(assetName);
+    if (!tag || !name) {
+      return undefined;
+    }
+    return `${this.target}/releases/download/${tag}/${encodeURIComponent(name)}`;
+  }
+
+  async cleanupDuplicateReleases(): Promise<void> {
+    // Gitea rejects a second release for an existing tag, so racing jobs cannot create duplicates.
+  }
+}
@@ -0,0 +1,655 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { createReadStream, statSync } from 'node:fs';
+import { normalizeTagName, retry, sleep, trimToString } from '../../utils';
+import type {
+  EnsureReleaseParams,
+  ReleaseAssetContent,
+  ReleaseAssetSummary,
+  ReleaseBackend,
+  ReleaseSummary,
+} from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type GitHubReleaseBackendOptions = {
+  token: string;
+  owner: string;
+  repo: string;
+  githubBaseUrl?: string;
+};
+
+/**
+ * GitHub Releases through the REST API (also GitHub Enterprise via `githubBaseUrl`).
+ */
+export class GitHubReleaseBackend implements ReleaseBackend {
+  readonly kind = 'github' as const;
+  readonly supportsDrafts = true;
+  readonly target: string;
+  private client?: Octokit;
+
+  constructor(private readonly options: GitHubReleaseBackendOptions) {
+    this.target = `${options.owner}/${options.repo}`;
+  }
+
+  // Created on first API call so dry runs can plan URLs without a token.
+  private get octokit(): Octokit {
+    this.client ??= getOctokitClient(this.options.token, this.options.githubBaseUrl);
+    return this.client;
+  }
+
+  ensureRelease(params: EnsureReleaseParams): Promise<ReleaseSummary> {
+    return ensureGitHubRelease(this.octokit, this.options.owner, this.options.repo, params);
+  }
+
+  getRelease(releaseId: string): Promise<ReleaseSummary | null> {
+    return getReleaseById(this.octokit, this.options.owner, this.options.repo, releaseId);
+  }
+
+  async publishRelease(releaseId: string): Promise<ReleaseSummary> {
+    const response = await this.octokit.rest.repos.updateRelease({
+      owner: this.options.owner,
+      repo: this.options.repo,
+      release_id: Number(releaseId),
+      draft: false,
+    });
+    return mapRelease(response.data);
+  }
+
+  async listReleases(): Promise<ReleaseSummary[]> {
+    const releases = await this.octokit.paginate(this.octokit.rest.repos.listReleases, {
+      owner: this.options.owner,
+      repo: this.options.repo,
+      per_page: 100,
+    });
+    return releases.map((release) => mapRelease(release));
+  }
+
+  listAssets(releaseId: string): Promise<ReleaseAssetSummary[]> {
+    return listReleaseAssets(this.octokit, this.options.owner, this.options.repo, releaseId);
+  }
+
+  async uploadAsset(releaseId: string, name: string, content: ReleaseAssetContent): Promise<ReleaseAssetSummary> {
+    const { owner, repo } = this.options;
+    const [data, contentType, contentLength] = 'path' in content
+      ? [createReadStream(content.path), 'application/octet-stream', statSync(content.path).size]
+      : [content.data, content.contentType, content.data.byteLength];
+    try {
+      const response = await this.octokit.rest.repos.uploadReleaseAsset({
+        owner,
+        repo,
+        release_id: Number(releaseId),
+        name,
+        data: data as unknown as string,
+        headers: {
+          'content-type': contentType,
+          'content-length': contentLength,
+        },
+      });
+      return {
+        id: String(response.data.id),
+        name: response.data.name,
+        browser_download_url: response.data.browser_download_url,
+      };
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 422) {
+        throw new Error(`Asset upload conflict for "${name}"`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteAsset(_releaseId: string, asset: ReleaseAssetSummary): Promise<void> {
+    try {
+      await this.octokit.rest.repos.deleteReleaseAsset({
+        owner: this.options.owner,
+        repo: this.options.repo,
+        asset_id: Number(asset.id),
+      });
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  downloadAsset(_releaseId: string, asset: ReleaseAssetSummary): Promise<Buffer> {
+    return downloadGitHubReleaseAsset({ asset, ...this.options });
+  }
+
+  async downloadAssetText(releaseId: string, asset: ReleaseAssetSummary): Promise<string> {
+    return (await this.downloadAsset(releaseId, asset)).toString('utf8');
+  }
+
+  assetDownloadUrl(tagName: string, assetName: string): string | undefined {
+    return buildReleaseAssetDownloadUrl(this.options.owner, this.options.repo, tagName, assetName);
+  }
+
+  cleanupDuplicateReleases(tagName: string, keepReleaseId: string): Promise<void> {
+    return cleanupDuplicateGitHubReleases(
+      this.octokit,
+      this.options.owner,
+      this.options.repo,
+      tagName,
+      keepReleaseId,
+    );
+  }
+}
+
+function getOctokitClient(token: string, githubBaseUrl?: string): Octokit {
+  const baseUrl = trimToString(githubBaseUrl);
+  return baseUrl
+    ? github.getOctokit(token, { baseUrl })
+    : github.getOctokit(token);
+}
+
+function mapRelease(release: {
+  id: number;
+  html_url: string;
+  name?: string | null;
+  body?: string | null;
+  draft?: boolean;
+  prerelease?: boolean;
+  tag_name?: string | null;
+  created_at?: string | null;
+}): ReleaseSummary {
+  return {
+    id: String(release.id),
+    html_url: release.html_url,
+    name: release.name,
+    body: release.body,
+    draft: release.draft,
+    prerelease: release.prerelease,
+    tag_name: release.tag_name,
+    created_at: release.created_at,
+  };
+}
+
+async function getReleaseByTag(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string,
+): Promise<ReleaseSummary | null> {
+  try {
+    const existing = await octokit.rest.repos.getReleaseByTag({
+      owner,
+      repo,
+      tag: tagName,
+    });
+    return mapRelease(existing.data);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getReleaseById(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  releaseId: string,
+): Promise<ReleaseSummary | null> {
+  try {
+    const existing = await octokit.rest.repos.getRelease({
+      owner,
+      repo,
+      release_id: Number(releaseId),
+    });
+    return mapRelease(existing.data);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function listReleasesByTag(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string,
+): Promise<ReleaseSummary[]> {
+  const releases = await octokit.paginate(octokit.rest.repos.listReleases, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+  return releases
+    .filter((release) => release.tag_name === tagName)
+    .map((release) => mapRelease(release));
+}
+
+async function listReleaseAssets(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  releaseId: string,
+): Promise<ReleaseAssetSummary[]> {
+  const assets = await octokit.paginate(octokit.rest.repos.listReleaseAssets, {
+    owner,
+    repo,
+    release_id: Number(releaseId),
+    per_page: 100,
+  });
+
+  return assets.map((asset) => ({
+    id: String(asset.id),
+    name: asset.name,
+    browser_download_url: asset.browser_download_url,
+  }));
+}
+
+function sortByCreatedAt(releases: ReleaseSummary[]): ReleaseSummary[] {
+  return releases.sort((a, b) => {
+    const aTime = a.created_at ? Date.parse(a.created_at) : 0;
+    const bTime = b.created_at ? Date.parse(b.created_at) : 0;
+    return aTime - bTime;
+  });
+}
+
+async function findReleaseByTag(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string,
+): Promise<ReleaseSummary | null> {
+  const direct = await getReleaseByTag(octokit, owner, repo, tagName);
+  if (direct) {
+    return direct;
+  }
+
+  const matches = await listReleasesByTag(octokit, owner, repo, tagName);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  if (matches.length > 1) {
+    core.warning(`Multiple releases found for tag ${tagName}; using the earliest one.`);
+  }
+
+  const sorted = sortByCreatedAt(matches);
+  return sorted[0];
+}
+
+async function resolveCanonicalRelease(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string,
+): Promise<{ canonical: ReleaseSummary | null; duplicates: ReleaseSummary[] }> {
+  const matches = await listReleasesByTag(octokit, owner, repo, tagName);
+  if (matches.length === 0) {
+    return { canonical: null, duplicates: [] };
+  }
+
+  const sorted = sortByCreatedAt(matches);
+  return { canonical: sorted[0], duplicates: sorted.slice(1) };
+}
+
+async function resolveCanonicalReleaseWithStabilization(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  tagName: string,
+  attempts: number = 5,
+  delay: number = 1000,
+): Promise<{ canonical: ReleaseSummary | null; duplicates: ReleaseSummary[] }> {
+  let lastKey: string | null = null;
+  let resolved: { canonical: ReleaseSummary | null; duplicates: ReleaseSummary[] } = {
+    canonical: null,
+    duplicates: [],
+  };
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    resolved = await resolveCanonicalRelease(octokit, owner, repo, tagName);
+    const { canonical, duplicates } = resolved;
+
+    if (canonical) {
+      const key = [canonical.id, ...duplicates.map((release) => release.id)].join(',');
+      if (key === lastKey) {
+        return resolved;
+      }
+      lastKey = key;
+    }
+
+    if (attempt < attempts) {
+      await sleep(delay);
+    }
+  }
+
+  return resolved;
+}
+
+async function ensureGitHubRelease(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  params: EnsureReleaseParams,
+): Promise<ReleaseSummary> {
+  const {
+    tagName: rawTagName,
+    releaseName,
+    releaseBody,
+    draft,
+    prerelease,
+    commitish,
+    generateReleaseNotes,
+  } = params;
+  const tagName = normalizeTagName(rawTagName);
+  const resolvedCommitish = trimToString(commitish) || github.context.sha;
+  core.info(`Ensuring release for tag "${tagName}"...`);
+
+  const createRelease = async (targetCommitish?: string) => {
+    return octokit.rest.repos.createRelease({
+      owner,
+      repo,
+      tag_name: tagName,
+      name: releaseName || tagName,
+      body: releaseBody,
+      draft,
+      prerelease,
+      target_commitish: targetCommitish,
+      generate_release_notes: Boolean(generateReleaseNotes),
+    });
+  };
+
+  const ensureTagRef = async (): Promise<'created' | 'exists' | 'skipped'> => {
+    const ref = tagName.startsWith('refs/tags/') ? tagName : `refs/tags/${tagName}`;
+    try {
+      await octokit.rest.git.createRef({
+        owner,
+        repo,
+        ref,
+        sha: resolvedCommitish,
+      });
+      return 'created';
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 422) {
+        try {
+          const lookup = tagName.startsWith('refs/tags/')
+            ? tagName.replace('refs/', '')
+            : `tags/${tagName}`;
+          await octokit.rest.git.getRef({ owner, repo, ref: lookup });
+          return 'exists';
+        } catch (lookupError) {
+          const lookupStatus = (lookupError as { status?: number }).status;
+          if (lookupStatus === 404) {
+            core.warning(`Failed to create tag ref ${ref}; continuing without tag lock.`);
+            return 'skipped';
+          }
+          throw lookupError;
+        }
+      }
+      throw error;
+    }
+  };
+
+  const existing = await findReleaseByTag(octokit, owner, repo, tagName);
+  if (existing) {
+    const shouldUpdate = Boolean(releaseName || releaseBody);
+    if (!shouldUpdate) {
+      core.info(`Reusing existing release id=${existing.id} for tag "${tagName}".`);
+      return existing;
+    }
+
+    const updated = await octokit.rest.repos.updateRelease({
+      owner,
+      repo,
+      release_id: Number(existing.id),
+      name: releaseName || existing.name || tagName,
+      body: releaseBody ?? existing.body ?? undefined,
+      draft: existing.draft,
+      prerelease: existing.prerelease,
+    });
+    core.info(`Updated existing release id=${updated.data.id} for tag "${tagName}".`);
+
+    return mapRelease(updated.data);
+  }
+
+  const tagLock = await ensureTagRef();
+  if (tagLock === 'exists') {
+    const waited = await retry(async () => {
+      const release = await findReleaseByTag(octokit, owner, repo, tagName);
+      if (!release) {
+        throw new Error('Release not visible yet.');
+      }
+      return release;
+    }, 5, 1000).catch(() => null);
+    if (waited) {
+      const shouldUpdate = Boolean(releaseName || releaseBody);
+      if (!shouldUpdate) {
+        core.info(`Detected concurrently created release id=${waited.id} for tag "${tagName}".`);
+        return waited;
+      }
+
+      const updated = await octokit.rest.repos.updateRelease({
+        owner,
+        repo,
+        release_id: Number(waited.id),
+        name: releaseName || waited.name || tagName,
+        body: releaseBody ?? waited.body ?? undefined,
+        draft: waited.draft,
+        prerelease: waited.prerelease,
+      });
+      core.info(`Updated concurrently created release id=${updated.data.id} for tag "${tagName}".`);
+      return mapRelease(updated.data);
+    }
+  }
+
+  try {
+    const maybeExisting = await retry(async () => {
+      const release = await findReleaseByTag(octokit, owner, repo, tagName);
+      if (!release) {
+        throw new Error('Release not visible yet.');
+      }
+      return release;
+    }, 2, 750).catch(() => null);
+
+    if (maybeExisting) {
+      core.info(`Release became visible during retry; using id=${maybeExisting.id} for tag "${tagName}".`);
+      return maybeExisting;
+    }
+
+    let created;
+    try {
+      created = await createRelease(resolvedCommitish);
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      const message = String((error as Error).message || '');
+      const isCommitishError =
+        status === 422 &&
+        /commit|sha|target[_-]?commitish|not found|unprocessable/i.test(message);
+      if (!isCommitishError) {
+        throw error;
+      }
+      core.warning(
+        `Failed to create release with target_commitish="${resolvedCommitish}". Retrying without target_commitish.`,
+      );
+      created = await createRelease(undefined);
+    }
+    core.info(`Created release id=${created.data.id} for tag "${tagName}".`);
+
+    const stabilized = await resolveCanonicalReleaseWithStabilization(
+      octokit,
+      owner,
+      repo,
+      tagName,
+      5,
+      750,
+    );
+
+    if (stabilized.canonical && stabilized.canonical.id !== String(created.data.id)) {
+      try {
+        await octokit.rest.repos.deleteRelease({
+          owner,
+          repo,
+          release_id: created.data.id,
+        });
+        core.warning(`Deleted duplicate release ${created.data.id} for tag ${tagName}.`);
+      } catch (deleteError) {
+        core.warning(`Failed to delete duplicate release ${created.data.id}: ${(deleteError as Error).message}`);
+      }
+      return stabilized.canonical;
+    }
+
+    return mapRelease(created.data);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 422) {
+      const resolved = await retry(async () => {
+        const release = await findReleaseByTag(octokit, owner, repo, tagName);
+        if (!release) {
+          throw new Error('Release not visible yet.');
+        }
+        return release;
+      }, 3, 1000);
+      core.info(`Resolved existing release id=${resolved.id} after create conflict for tag "${tagName}".`);
+      return resolved;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Best-effort cleanup for duplicate releases that point to the same tag.
+ */
+async function cleanupDuplicateGitHubReleases(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  rawTagName: string,
+  keepReleaseId: string,
+): Promise<void> {
+  const tagName = normalizeTagName(rawTagName);
+  const matches = await listReleasesByTag(octokit, owner, repo, tagName);
+  if (matches.length <= 1) {
+    return;
+  }
+
+  const sorted = sortByCreatedAt(matches);
+  const keep = sorted.find((release) => release.id === keepReleaseId) ?? sorted[0];
+  if (!keep) {
+    return;
+  }
+
+  if (keep.id !== keepReleaseId) {
+    core.warning(`Release ${keepReleaseId} not found for tag ${tagName}; keeping ${keep.id} as canonical.`);
+  }
+
+  const keepAssets = await octokit.rest.repos.listReleaseAssets({
+    owner,
+    repo,
+    release_id: Number(keep.id),
+    per_page: 100,
+  });
+  const keepAssetNames = new Set(keepAssets.data.map((asset) => asset.name));
+
+  for (const release of sorted) {
+    if (release.id === keep.id) continue;
+
+    const duplicateAssets = await octokit.rest.repos.listReleaseAssets({
+      owner,
+      repo,
+      release_id: Number(release.id),
+      per_page: 100,
+    });
+
+    const extraAssets = duplicateAssets.data.filter(
+      (asset) => !keepAssetNames.has(asset.name),
+    );
+
+    if (extraAssets.length > 0) {
+      core.warning(
+        `Duplicate release ${release.id} for tag ${tagName} has assets not on the canonical release; skipping delete.`,
+      );
+      continue;
+    }
+
+    try {
+      await octokit.rest.repos.deleteRelease({
+        owner,
+        repo,
+        release_id: Number(release.id),
+      });
+      core.info(`Deleted duplicate release ${release.id} for tag ${tagName}.`);
+    } catch (deleteError) {
+      core.warning(
+        `Failed to delete duplicate release ${release.id}: ${(deleteError as Error).message}`,
+      );
+    }
+  }
+}
+
+function resolveGithubApiBaseUrl(githubBaseUrl?: string): string {
+  const configured = trimToString(githubBaseUrl) || trimToString(process.env.GITHUB_API_URL);
+  const base = configured || 'https://api.github.com';
+  return base.replace(/\/+$/, '');
+}
+
+async function downloadGitHubReleaseAsset(params: {
+  asset: ReleaseAssetSummary;
+  token: string;
+  owner: string;
+  repo: string;
+  githubBaseUrl?: string;
+}): Promise<Buffer> {
+  const { asset, token, owner, repo, githubBaseUrl } = params;
+  const headers: Record<string, string> = {
+    Accept: 'application/octet-stream',
+    'User-Agent': 'makepad-packaging-action',
+  };
+  if (trimToString(token)) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const apiBase = resolveGithubApiBaseUrl(githubBaseUrl);
+  const encodedOwner = encodeURIComponent(owner);
+  const encodedRepo = encodeURIComponent(repo);
+  const apiUrl = `${apiBase}/repos/${encodedOwner}/${encodedRepo}/releases/assets/${asset.id}`;
+  const apiResponse = await fetch(apiUrl, {
+    method: 'GET',
+    headers,
+    redirect: 'follow',
+  });
+
+  if (apiResponse.ok) {
+    return Buffer.from(await apiResponse.arrayBuffer());
+  }
+
+  const fallbackResponse = await fetch(asset.browser_download_url, {
+    method: 'GET',
+    headers,
+    redirect: 'follow',
+  });
+  if (!fallbackResponse.ok) {
+    throw new Error(
+      `Failed to download release asset via API (${apiResponse.status} ${apiResponse.statusText}) and browser URL (${fallbackResponse.status} ${fallbackResponse.statusText}).`,
+    );
+  }
+  return Buffer.from(await fallbackResponse.arrayBuffer());
+}
+
+function buildReleaseAssetDownloadUrl(
+  owner: string,
+  repo: string,
+  tagName?: string | null,
+  assetName?: string,
+): string | undefined {
+  const tag = normalizeTagName(trimToString(tagName));
+  const name = trimToString(assetName);
+  if (!tag || !name) {
+    return undefined;
+  }
+  return `https://github.com/${owner}/${repo}/releases/download/${tag}/${encodeURIComponent(name)}`;
+}
+
@@ -0,0 +1,328 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { readFileSync } from 'node:fs';
+import { normalizeTagName, trimToString } from '../../utils';
+import type {
+  EnsureReleaseParams,
+  ReleaseAssetContent,
+  ReleaseAssetSummary,
+  ReleaseBackend,
+  ReleaseSummary,
+} from './types';
+
+export type GitLabReleaseBackendOptions = {
+  // Personal/project access token (`PRIVATE-TOKEN`) or CI job token (`JOB-TOKEN`).
+  token: string;
+  tokenHeader: 'PRIVATE-TOKEN' | 'JOB-TOKEN';
+  serverUrl: string;
+  // `group/project` path or numeric project id.
+  project: string;
+  // Generic package that stores the files; one package version per tag.
+  packageName: string;
+};
+
+type GitLabRelease = {
+  tag_name: string;
+  name?: string | null;
+  description?: string | null;
+  created_at?: string | null;
+  upcoming_release?: boolean;
+  _links?: { self?: string };
+};
+
+type GitLabPackage = {
+  id: number;
+  name: string;
+  version: string;
+};
+
+type GitLabPackageFile = {
+  id: number;
+  package_id: number;
+  file_name: string;
+};
+
+type GitLabReleaseLink = {
+  id: number;
+  name: string;
+};
+
+class GitLabApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * GitLab releases with assets stored in the generic package registry.
+ *
+ * Files are uploaded to `packages/generic/<packageName>/<tag>/<asset>` and linked from the
+ * release for `<tag>`. The release id is the tag name. GitLab has no draft releases.
+ */
+export class GitLabReleaseBackend implements ReleaseBackend {
+  readonly kind = 'gitlab' as const;
+  readonly supportsDrafts = false;
+  readonly target: string;
+  private readonly apiBase: string;
+
+  constructor(private readonly options: GitLabReleaseBackendOptions) {
+    const serverUrl = options.serverUrl.replace(/\/+$/, '');
+    this.target = `${serverUrl}/${options.project}`;
+    this.apiBase = `${serverUrl}/api/v4/projects/${encodeURIComponent(options.project)}`;
+  }
+
+  private async request<T>(method: string, path: string, body?: BodyInit, contentType?: string): Promise<T> {
+    const headers: Record<string, string> = {
+      [this.options.tokenHeader]: this.options.token,
+      'User-Agent': 'makepad-packaging-action',
+    };
+    if (contentType) {
+      headers['Content-Type'] = contentType;
+    }
+    const response = await fetch(`${this.apiBase}${path}`, { method, headers, body });
+    if (!response.ok) {
+      const detail = (await response.text()).trim();
+      throw new GitLabApiError(
+        `GitLab API ${method} ${path} failed (${response.status} ${response.statusText})${detail ? `: ${detail}` : ''}`,
+        response.status,
+      );
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  // Every page of a list endpoint; GitLab returns at most 100 items per page.
+  private async requestAllPages<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    const separator = path.includes('?') ? '&' : '?';
+    for (let page = 1; ; page++) {
+      const batch = await this.request<T[]>('GET', `${path}${separator}per_page=100&page=${page}`);
+      items.push(...batch);
+      if (batch.length < 100) {
+        return items;
+      }
+    }
+  }
+
+  private packageFileUrl(tagName: string, assetName: string): string {
+    const { packageName } = this.options;
+    return `${this.apiBase}/packages/generic/${encodeURIComponent(packageName)}/${encodeURIComponent(tagName)}/${encodeURIComponent(assetName)}`;
+  }
+
+  private mapRelease(release: GitLabRelease): ReleaseSummary {
+    return {
+      id: release.tag_name,
+      html_url: release._links?.self ?? `${this.target}/-/releases/${encodeURIComponent(release.tag_name)}`,
+      name: release.name,
+      body: release.description,
+      draft: false,
+      prerelease: release.upcoming_release ?? false,
+      tag_name: release.tag_name,
+      created_at: release.created_at,
+    };
+  }
+
+  async ensureRelease(params: EnsureReleaseParams): Promise<ReleaseSummary> {
+    const tagName = normalizeTagName(params.tagName);
+    core.info(`Ensuring release for tag "${tagName}"...`);
+    if (params.draft) {
+      core.warning('GitLab has no draft releases; the release is published immediately.');
+    }
+    if (params.prerelease) {
+      core.warning('GitLab has no prerelease flag; prerelease is ignored.');
+    }
+    if (params.generateReleaseNotes) {
+      core.warning('generateReleaseNotes is not supported by the GitLab API; using releaseBody as-is.');
+    }
+
+    const existing = await this.getRelease(tagName);
+    const payload = {
+      name: params.releaseName || tagName,
+      description: params.releaseBody || '',
+    };
+    if (existing) {
+      const updated = await this.request<GitLabRelease>(
+        'PUT',
+        `/releases/${encodeURIComponent(tagName)}`,
+        JSON.stringify(payload),
+        'application/json',
+      );
+      core.info(`Updated existing release for tag "${tagName}".`);
+      return this.mapRelease(updated);
+    }
+
+    try {
+      const created = await this.request<GitLabRelease>(
+        'POST',
+        '/releases',
+        JSON.stringify({
+          ...payload,
+          tag_name: tagName,
+          ref: trimToString(params.commitish) || github.context.sha || undefined,
+        }),
+        'application/json',
+      );
+      core.info(`Created release for tag "${tagName}".`);
+      return this.mapRelease(created);
+    } catch (error) {
+      // 409: another job created the release for this tag first.
+      if ((error as GitLabApiError).status === 409) {
+        const concurrent = await this.getRelease(tagName);
+        if (concurrent) {
+          core.info(`Detected concurrently created release for tag "${tagName}".`);
+          return concurrent;
+        }
+      }
+      throw error;
+    }
+  }
+
+  async getRelease(releaseId: string): Promise<ReleaseSummary | null> {
+    try {
+      return this.mapRelease(
+        await this.request<GitLabRelease>('GET', `/releases/${encodeURIComponent(releaseId)}`),
+      );
+    } catch (error) {
+      if ((error as GitLabApiError).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async publishRelease(releaseId: string): Promise<ReleaseSummary> {
+    // GitLab releases are public once created.
+    const release = await this.getRelease(releaseId);
+    if (!release) {
+      throw new Error(`Release "${releaseId}" was not found on ${this.target}.`);
+    }
+    return release;
+  }
+
+  async listReleases(): Promise<ReleaseSummary[]> {
+    const releases = await this.requestAllPages<GitLabRelease>('/releases');
+    return releases.map((release) => this.mapRelease(release));
+  }
+
+  private async findPackage(tagName: string): Promise<GitLabPackage | undefined> {
+    // `package_name` matches by substring and packages sort oldest first, so filter by version too.
+    const query = new URLSearchParams({
+      package_type: 'generic',
+      package_name: this.options.packageName,
+      package_version: tagName,
+    });
+    const packages = await this.requestAllPages<GitLabPackage>(`/packages?${query}`);
+    return packages.find((pkg) => pkg.name === this.options.packageName && pkg.version === tagName);
+  }
+
+  async listAssets(releaseId: string): Promise<ReleaseAssetSummary[]> {
+    const pkg = await this.findPackage(releaseId);
+    if (!pkg) {
+      return [];
+    }
+    const files = await this.requestAllPages<GitLabPackageFile>(`/packages/${pkg.id}/package_files`);
+    // Re-uploading a name adds another file; the newest one is what downloads return.
+    const latestByName = new Map<string, GitLabPackageFile>();
+    for (const file of files) {
+      const current = latestByName.get(file.file_name);
+      if (!current || file.id > current.id) {
+        latestByName.set(file.file_name, file);
+      }
+    }
+    return Array.from(latestByName.values(), (file) => ({
+      id: `${file.package_id}/${file.id}`,
+      name: file.file_name,
+      browser_download_url: this.packageFileUrl(releaseId, file.file_name),
+    }));
+  }
+
+  async uploadAsset(releaseId: string, name: string, content: ReleaseAssetContent): Promise<ReleaseAssetSummary> {
+    const [data, contentType] = 'path' in content
+      ? [readFileSync(content.path), 'application/octet-stream']
+      : [content.data, content.contentType];
+    const response = await fetch(`${this.packageFileUrl(releaseId, name)}?select=package_file`, {
+      method: 'PUT',
+      headers: {
+        [this.options.tokenHeader]: this.options.token,
+        'Content-Type': contentType,
+        'User-Agent': 'makepad-packaging-action',
+      },
+      body: new Uint8Array(data),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to upload "${name}" to the GitLab package registry (${response.status} ${response.statusText}).`,
+      );
+    }
+    const file = (await response.json()) as GitLabPackageFile;
+    const asset: ReleaseAssetSummary = {
+      id: `${file.package_id}/${file.id}`,
+      name,
+      browser_download_url: this.packageFileUrl(releaseId, name),
+    };
+    await this.replaceReleaseLink(releaseId, asset);
+    return asset;
+  }
+
+  private async replaceReleaseLink(releaseId: string, asset: ReleaseAssetSummary): Promise<void> {
+    const linksPath = `/releases/${encodeURIComponent(releaseId)}/assets/links`;
+    const links = await this.requestAllPages<GitLabReleaseLink>(linksPath);
+    for (const link of links.filter((link) => link.name === asset.name)) {
+      await this.request<void>('DELETE', `${linksPath}/${link.id}`);
+    }
+    await this.request<GitLabReleaseLink>(
+      'POST',
+      linksPath,
+      JSON.stringify({ name: asset.name, url: asset.browser_download_url, link_type: 'package' }),
+      'application/json',
+    );
+  }
+
+  async deleteAsset(releaseId: string, asset: ReleaseAssetSummary): Promise<void> {
+    const [packageId, fileId] = asset.id.split('/');
+    try {
+      await this.request<void>('DELETE', `/packages/${packageId}/package_files/${fileId}`);
+    } catch (error) {
+      if ((error as GitLabApiError).status !== 404) {
+        throw error;
+      }
+    }
+    const linksPath = `/releases/${encodeURIComponent(releaseId)}/assets/links`;
+    const links = await this.requestAllPages<GitLabReleaseLink>(linksPath).catch(() => []);
+    for (const link of links.filter((link) => link.name === asset.name)) {
+      await this.request<void>('DELETE', `${linksPath}/${link.id}`);
+    }
+  }
+
+  async downloadAsset(_releaseId: string, asset: ReleaseAssetSummary): Promise<Buffer> {
+    const response = await fetch(asset.browser_download_url, {
+      headers: { [this.options.tokenHeader]: this.options.token },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to download release asset (${response.status} ${response.statusText}).`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async downloadAssetText(releaseId: string, asset: ReleaseAssetSummary): Promise<string> {
+    return (await this.downloadAsset(releaseId, asset)).toString('utf8');
+  }
+
+  assetDownloadUrl(tagName: string, assetName: string): string | undefined {
+    const tag = normalizeTagName(trimToString(tagName));
+    const name = trimToString(assetName);
+    if (!tag || !name) {
+      return undefined;
+    }
+    return this.packageFileUrl(tag, name);
+  }
+
+  async cleanupDuplicateReleases(): Promise<void> {
+    // GitLab allows one release per tag.
+  }
+}
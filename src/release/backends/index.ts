@@ -0,0 +1,143 @@
+import { GiteaReleaseBackend } from './gitea';
+import { GitHubReleaseBackend } from './github';
+import { GitLabReleaseBackend } from './gitlab';
+import { S3ReleaseBackend } from './s3';
+import { RELEASE_BACKENDS } from './types';
+import type { ReleaseBackend, ReleaseBackendKind } from './types';
+
+export { S3ObjectClient, signS3Request } from './s3';
+export type { S3Credentials } from './s3';
+export { RELEASE_BACKENDS } from './types';
+export type {
+  EnsureReleaseParams,
+  ReleaseAssetContent,
+  ReleaseAssetSummary,
+  ReleaseBackend,
+  ReleaseBackendKind,
+  ReleaseSummary,
+} from './types';
+
+export type ReleaseBackendConfig = {
+  kind: ReleaseBackendKind;
+  owner?: string;
+  repo?: string;
+  // `github_token` input / GITHUB_TOKEN; also accepted by Gitea Actions.
+  githubToken?: string;
+  githubBaseUrl?: string;
+  // Instance URL for Gitea/Forgejo and self-managed GitLab.
+  serverUrl?: string;
+  giteaToken?: string;
+  gitlabToken?: string;
+  gitlabJobToken?: string;
+  // GitLab project path or id when owner/repo are not set (CI_PROJECT_PATH).
+  gitlabProject?: string;
+  // Generic package name used by the GitLab backend.
+  packageName?: string;
+  s3?: {
+    bucket?: string;
+    region?: string;
+    endpoint?: string;
+    prefix?: string;
+    publicUrl?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+  };
+};
+
+export function parseReleaseBackend(value?: string): ReleaseBackendKind {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (!normalized) {
+    return 'github';
+  }
+  if (normalized === 'forgejo') {
+    return 'gitea';
+  }
+  if (!RELEASE_BACKENDS.includes(normalized as ReleaseBackendKind)) {
+    throw new Error(
+      `Unsupported release_backend "${value}". Expected one of: ${RELEASE_BACKENDS.join(', ')}.`,
+    );
+  }
+  return normalized as ReleaseBackendKind;
+}
+
+/**
+ * Create the release backend for `config.kind`.
+ * With `requireCredentials: false` (dry runs) missing tokens are tolerated so URLs can still be planned.
+ */
+export function createReleaseBackend(
+  config: ReleaseBackendConfig,
+  options: { requireCredentials?: boolean } = {},
+): ReleaseBackend {
+  const requireCredentials = options.requireCredentials ?? true;
+  const owner = config.owner ?? '';
+  const repo = config.repo ?? '';
+  const requireRepository = () => {
+    if (!owner || !repo) {
+      throw new Error('owner and repo are required for release upload when GITHUB_REPOSITORY is not set.');
+    }
+  };
+
+  switch (config.kind) {
+    case 'github': {
+      requireRepository();
+      if (requireCredentials && !config.githubToken) {
+        throw new Error('GITHUB_TOKEN (or github_token input) is required for release upload.');
+      }
+      return new GitHubReleaseBackend({
+        token: config.githubToken ?? '',
+        owner,
+        repo,
+        githubBaseUrl: config.githubBaseUrl,
+      });
+    }
+    case 'gitea': {
+      requireRepository();
+      if (!config.serverUrl) {
+        throw new Error('release_backend=gitea requires release_server_url (or GITHUB_SERVER_URL).');
+      }
+      const token = config.giteaToken || config.githubToken || '';
+      if (requireCredentials && !token) {
+        throw new Error('release_backend=gitea requires GITEA_TOKEN (or FORGEJO_TOKEN / github_token).');
+      }
+      return new GiteaReleaseBackend({ token, owner, repo, serverUrl: config.serverUrl });
+    }
+    case 'gitlab': {
+      const project = owner && repo ? `${owner}/${repo}` : config.gitlabProject;
+      if (!project) {
+        throw new Error('release_backend=gitlab requires owner/repo (or CI_PROJECT_PATH).');
+      }
+      if (requireCredentials && !config.gitlabToken && !config.gitlabJobToken) {
+        throw new Error('release_backend=gitlab requires GITLAB_TOKEN (or CI_JOB_TOKEN).');
+      }
+      return new GitLabReleaseBackend({
+        token: config.gitlabToken || config.gitlabJobToken || '',
+        tokenHeader: config.gitlabToken ? 'PRIVATE-TOKEN' : 'JOB-TOKEN',
+        serverUrl: config.serverUrl || 'https://gitlab.com',
+        project,
+        packageName: config.packageName || 'release',
+      });
+    }
+    case 's3': {
+      const s3 = config.s3 ?? {};
+      if (!s3.bucket) {
+        throw new Error('release_backend=s3 requires s3_bucket.');
+      }
+      if (requireCredentials && (!s3.accessKeyId || !s3.secretAccessKey)) {
+        throw new Error('release_backend=s3 requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.');
+      }
+      return new S3ReleaseBackend({
+        bucket: s3.bucket,
+        region: s3.region || 'us-east-1',
+        endpoint: s3.endpoint,
+        prefix: s3.prefix,
+        publicUrl: s3.publicUrl,
+        credentials: {
+          accessKeyId: s3.accessKeyId ?? '',
+          secretAccessKey: s3.secretAccessKey ?? '',
+          sessionToken: s3.sessionToken,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,331 @@
+import * as core from '@actions/core';
+import { createHash, createHmac } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { normalizeTagName, trimToString } from '../../utils';
+import type {
+  EnsureReleaseParams,
+  ReleaseAssetContent,
+  ReleaseAssetSummary,
+  ReleaseBackend,
+  ReleaseSummary,
+} from './types';
+
+export type S3Credentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+};
+
+export type S3ReleaseBackendOptions = {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible stores (MinIO, R2, ...); enables path-style URLs.
+  endpoint?: string;
+  // Key prefix; assets are stored at `<prefix>/<tag>/<asset>`.
+  prefix?: string;
+  // Public base URL that serves the bucket (CDN or website endpoint); defaults to the object URL.
+  publicUrl?: string;
+  credentials: S3Credentials;
+};
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone).
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * Sign an S3 request with AWS Signature Version 4 and return the headers to send.
+ * `headers` must not contain `host`; it is derived from `url`.
+ */
+export function signS3Request(params: {
+  method: string;
+  url: URL;
+  region: string;
+  credentials: S3Credentials;
+  payloadHash: string;
+  headers?: Record<string, string>;
+  date?: Date;
+}): Record<string, string> {
+  const { method, url, region, credentials, payloadHash } = params;
+  const amzDate = (params.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...params.headers,
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)] as const)
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    canonicalHeaders.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), 's3'),
+    'aws4_request',
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  const { host: _host, ...sendHeaders } = headers;
+  return {
+    ...sendHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export type S3ObjectClientOptions = {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  credentials: S3Credentials;
+};
+
+/**
+ * Minimal signed object API (put/get/delete/list) for one bucket.
+ */
+export class S3ObjectClient {
+  constructor(private readonly options: S3ObjectClientOptions) {}
+
+  get bucket(): string {
+    return this.options.bucket;
+  }
+
+  objectUrl(key: string): URL {
+    const { bucket, region, endpoint } = this.options;
+    if (endpoint) {
+      return new URL(`${endpoint.replace(/\/+$/, '')}/${encodeRfc3986(bucket)}/${encodeKey(key)}`);
+    }
+    return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodeKey(key)}`);
+  }
+
+  private async send(
+    method: string,
+    url: URL,
+    body?: Buffer,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const signed = signS3Request({
+      method,
+      url,
+      region: this.options.region,
+      credentials: this.options.credentials,
+      payloadHash: sha256Hex(body ?? ''),
+      headers,
+    });
+    const response = await fetch(url, { method, headers: signed, body: body && new Uint8Array(body) });
+    if (!response.ok && response.status !== 404) {
+      const detail = (await response.text()).trim();
+      throw new Error(
+        `S3 ${method} ${url.pathname} failed (${response.status} ${response.statusText})${detail ? `: ${detail}` : ''}`,
+      );
+    }
+    return response;
+  }
+
+  async putObject(key: string, data: Buffer, contentType: string, cacheControl?: string): Promise<void> {
+    await this.send('PUT', this.objectUrl(key), data, {
+      'content-type': contentType,
+      ...(cacheControl ? { 'cache-control': cacheControl } : {}),
+    });
+  }
+
+  // Returns undefined when the object does not exist.
+  async getObject(key: string): Promise<Buffer | undefined> {
+    const response = await this.send('GET', this.objectUrl(key));
+    return response.status === 404 ? undefined : Buffer.from(await response.arrayBuffer());
+  }
+
+  async getObjectText(key: string): Promise<string | undefined> {
+    return (await this.getObject(key))?.toString('utf8');
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.send('DELETE', this.objectUrl(key));
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const url = this.objectUrl('');
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', prefix);
+      if (continuationToken) {
+        url.searchParams.set('continuation-token', continuationToken);
+      }
+      const response = await this.send('GET', url);
+      if (response.status === 404) {
+        throw new Error(`S3 bucket "${this.options.bucket}" was not found.`);
+      }
+      const xml = await response.text();
+      for (const match of xml.matchAll(/<Key>([^<]+)<\/Key>/g)) {
+        keys.push(decodeXmlText(match[1]));
+      }
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? decodeXmlText(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/.exec(xml)?.[1] ?? '') || undefined
+        : undefined;
+    } while (continuationToken);
+    return keys;
+  }
+}
+
+/**
+ * Plain object storage on S3 or an S3-compatible service.
+ *
+ * A "release" is the `<prefix>/<tag>/` folder and its id is the tag name; there is no
+ * release metadata, drafts, or duplicate releases to clean up.
+ */
+export class S3ReleaseBackend implements ReleaseBackend {
+  readonly kind = 's3' as const;
+  readonly supportsDrafts = false;
+  readonly target: string;
+  private readonly prefix: string;
+  private readonly client: S3ObjectClient;
+
+  constructor(private readonly options: S3ReleaseBackendOptions) {
+    this.prefix = (options.prefix ?? '').replace(/^\/+|\/+$/g, '');
+    this.target = `s3://${options.bucket}${this.prefix ? `/${this.prefix}` : ''}`;
+    this.client = new S3ObjectClient(options);
+  }
+
+  private objectKey(tagName: string, assetName = ''): string {
+    return [this.prefix, tagName, assetName].filter(Boolean).join('/') + (assetName ? '' : '/');
+  }
+
+  private publicUrl(key: string): string {
+    const base = trimToString(this.options.publicUrl);
+    return base ? `${base.replace(/\/+$/, '')}/${encodeKey(key)}` : this.client.objectUrl(key).toString();
+  }
+
+  async ensureRelease(params: EnsureReleaseParams): Promise<ReleaseSummary> {
+    const tagName = normalizeTagName(params.tagName);
+    if (params.draft) {
+      core.warning('S3 releases have no draft state; uploaded assets are visible immediately.');
+    }
+    core.info(`Using ${this.target}/${tagName}/ for release assets.`);
+    return this.summary(tagName);
+  }
+
+  async getRelease(releaseId: string): Promise<ReleaseSummary | null> {
+    return this.summary(releaseId);
+  }
+
+  async publishRelease(releaseId: string): Promise<ReleaseSummary> {
+    return this.summary(releaseId);
+  }
+
+  async listReleases(): Promise<ReleaseSummary[]> {
+    const folder = this.prefix ? `${this.prefix}/` : '';
+    const tags = new Set<string>();
+    for (const key of await this.client.listKeys(folder)) {
+      const [tag, ...rest] = key.slice(folder.length).split('/');
+      if (tag && rest.length > 0) {
+        tags.add(tag);
+      }
+    }
+    return Array.from(tags, (tag) => this.summary(tag));
+  }
+
+  private summary(tagName: string): ReleaseSummary {
+    return {
+      id: tagName,
+      html_url: this.publicUrl(this.objectKey(tagName)),
+      name: tagName,
+      draft: false,
+      prerelease: false,
+      tag_name: tagName,
+    };
+  }
+
+  async listAssets(releaseId: string): Promise<ReleaseAssetSummary[]> {
+    const folder = this.objectKey(releaseId);
+    const assets: ReleaseAssetSummary[] = [];
+    for (const key of await this.client.listKeys(folder)) {
+      const name = key.slice(folder.length);
+      if (name && !name.includes('/')) {
+        assets.push({ id: key, name, browser_download_url: this.publicUrl(key) });
+      }
+    }
+    return assets;
+  }
+
+  async uploadAsset(releaseId: string, name: string, content: ReleaseAssetContent): Promise<ReleaseAssetSummary> {
+    const [data, contentType] = 'path' in content
+      ? [readFileSync(content.path), 'application/octet-stream']
+      : [content.data, content.contentType];
+    const key = this.objectKey(releaseId, name);
+    await this.client.putObject(key, data, contentType);
+    return { id: key, name, browser_download_url: this.publicUrl(key) };
+  }
+
+  async deleteAsset(_releaseId: string, asset: ReleaseAssetSummary): Promise<void> {
+    await this.client.deleteObject(asset.id);
+  }
+
+  async downloadAsset(_releaseId: string, asset: ReleaseAssetSummary): Promise<Buffer> {
+    const data = await this.client.getObject(asset.id);
+    if (data === undefined) {
+      throw new Error(`S3 object "${asset.id}" was not found.`);
+    }
+    return data;
+  }
+
+  async downloadAssetText(releaseId: string, asset: ReleaseAssetSummary): Promise<string> {
+    return (await this.downloadAsset(releaseId, asset)).toString('utf8');
+  }
+
+  assetDownloadUrl(tagName: string, assetName: string): string | undefined {
+    const tag = normalizeTagName(trimToString(tagName));
+    const name = trimToString(assetName);
+    if (!tag || !name) {
+      return undefined;
+    }
+    return this.publicUrl(this.objectKey(tag, name));
+  }
+
+  async cleanupDuplicateReleases(): Promise<void> {
+    // Objects are keyed by tag, so there is nothing to deduplicate.
+  }
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,66 @@
+export type ReleaseBackendKind = 'github' | 'gitea' | 'gitlab' | 's3';
+
+export const RELEASE_BACKENDS: readonly ReleaseBackendKind[] = ['github', 'gitea', 'gitlab', 's3'];
+
+/**
+ * Minimal release shape consumed by this action workflow.
+ * `id` is backend specific: the numeric id for GitHub/Gitea, the tag for GitLab/S3.
+ */
+export type ReleaseSummary = {
+  id: string;
+  html_url: string;
+  name?: string | null;
+  body?: string | null;
+  draft?: boolean;
+  prerelease?: boolean;
+  tag_name?: string | null;
+  created_at?: string | null;
+};
+
+export type ReleaseAssetSummary = {
+  id: string;
+  name: string;
+  browser_download_url: string;
+};
+
+export type ReleaseAssetContent =
+  | { path: string }
+  | { data: Buffer; contentType: string };
+
+export type EnsureReleaseParams = {
+  tagName: string;
+  releaseName?: string;
+  releaseBody?: string;
+  draft: boolean;
+  prerelease: boolean;
+  commitish?: string;
+  generateReleaseNotes?: boolean;
+};
+
+/**
+ * Storage for release assets. Asset naming, checksums and latest.json merging live in
+ * `src/release/index.ts` and only talk to a backend through this interface.
+ */
+export interface ReleaseBackend {
+  readonly kind: ReleaseBackendKind;
+  // Human-readable publish target, e.g. `owner/repo` or `s3://bucket/prefix`.
+  readonly target: string;
+  // Whether `draft` releases exist; assets of drafts are not publicly downloadable yet.
+  readonly supportsDrafts: boolean;
+
+  ensureRelease(params: EnsureReleaseParams): Promise<ReleaseSummary>;
+  getRelease(releaseId: string): Promise<ReleaseSummary | null>;
+  // Make a draft release public; a no-op for backends without drafts.
+  publishRelease(releaseId: string): Promise<ReleaseSummary>;
+  // Releases of the target, newest first as returned by the backend; may be limited to recent ones.
+  listReleases(): Promise<ReleaseSummary[]>;
+  listAssets(releaseId: string): Promise<ReleaseAssetSummary[]>;
+  uploadAsset(releaseId: string, name: string, content: ReleaseAssetContent): Promise<ReleaseAssetSummary>;
+  deleteAsset(releaseId: string, asset: ReleaseAssetSummary): Promise<void>;
+  downloadAsset(releaseId: string, asset: ReleaseAssetSummary): Promise<Buffer>;
+  downloadAssetText(releaseId: string, asset: ReleaseAssetSummary): Promise<string>;
+  // Stable download URL of an asset on the release for `tagName`, usable before the release is published.
+  assetDownloadUrl(tagName: string, assetName: string): string | undefined;
+  // Best-effort removal of duplicate releases created by racing jobs.
+  cleanupDuplicateReleases(tagName: string, keepReleaseId: string): Promise<void>;
+}
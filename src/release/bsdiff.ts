@@ -0,0 +1,306 @@
+/**
+ * bsdiff (Colin Percival's algorithm) producing the raw, uncompressed patch stream used by the
+ * Rust `bsdiff` crate: a sequence of blocks, each a 24-byte control header
+ * `[add_len, copy_len, seek_len]` (8-byte little-endian sign-magnitude integers) followed by
+ * `add_len` bytes added bytewise to the old file and `copy_len` bytes inserted verbatim.
+ * The stream is mostly zeros and compresses well; callers wrap it (see `uploadDeltaPatches` in
+ * `src/release/index.ts`).
+ */
+
+const CONTROL_SIZE = 24;
+
+/**
+ * Larsson-Sadakane suffix sorting as in bsdiff.c; returns the suffix array of `old`
+ * (length `old.length + 1`, the empty suffix first).
+ */
+function suffixSort(old: Uint8Array): Int32Array {
+  const size = old.length;
+  const I = new Int32Array(size + 1);
+  const V = new Int32Array(size + 1);
+
+  const buckets = new Int32Array(256);
+  for (let i = 0; i < size; i++) buckets[old[i]]++;
+  for (let i = 1; i < 256; i++) buckets[i] += buckets[i - 1];
+  for (let i = 255; i > 0; i--) buckets[i] = buckets[i - 1];
+  buckets[0] = 0;
+
+  for (let i = 0; i < size; i++) I[++buckets[old[i]]] = i;
+  I[0] = size;
+  for (let i = 0; i < size; i++) V[i] = buckets[old[i]];
+  V[size] = 0;
+  for (let i = 1; i < 256; i++) {
+    if (buckets[i] === buckets[i - 1] + 1) I[buckets[i]] = -1;
+  }
+  I[0] = -1;
+
+  for (let h = 1; I[0] !== -(size + 1); h += h) {
+    let len = 0;
+    let i = 0;
+    while (i < size + 1) {
+      if (I[i] < 0) {
+        len -= I[i];
+        i -= I[i];
+      } else {
+        if (len) I[i - len] = -len;
+        len = V[I[i]] + 1 - i;
+        split(I, V, i, len, h);
+        i += len;
+        len = 0;
+      }
+    }
+    if (len) I[i - len] = -len;
+  }
+
+  for (let i = 0; i < size + 1; i++) I[V[i]] = i;
+  return I;
+}
+
+// One group of `split`: sort I[start, start + len) by V[I[k] + h]. Runs on an explicit stack
+// (same order as the recursive C version) so large inputs cannot overflow the call stack.
+function split(I: Int32Array, V: Int32Array, rootStart: number, rootLen: number, h: number): void {
+  // Entries are [start, len] to split, or [groupStart, groupEnd, -1] to label an equal group.
+  const stack: number[][] = [[rootStart, rootLen]];
+  while (stack.length > 0) {
+    const task = stack.pop() as number[];
+    if (task.length === 3) {
+      const [jj, kk] = task;
+      for (let i = 0; i < kk - jj; i++) V[I[jj + i]] = kk - 1;
+      if (jj === kk - 1) I[jj] = -1;
+      continue;
+    }
+
+    const [start, len] = task;
+    if (len < 16) {
+      let j = 1;
+      for (let k = start; k < start + len; k += j) {
+        j = 1;
+        let x = V[I[k] + h];
+        for (let i = 1; k + i < start + len; i++) {
+          if (V[I[k + i] + h] < x) {
+            x = V[I[k + i] + h];
+            j = 0;
+          }
+          if (V[I[k + i] + h] === x) {
+            const tmp = I[k + j];
+            I[k + j] = I[k + i];
+            I[k + i] = tmp;
+            j++;
+          }
+        }
+        for (let i = 0; i < j; i++) V[I[k + i]] = k + j - 1;
+        if (j === 1) I[k] = -1;
+      }
+      continue;
+    }
+
+    const x = V[I[start + Math.floor(len / 2)] + h];
+    let jj = 0;
+    let kk = 0;
+    for (let i = start; i < start + len; i++) {
+      if (V[I[i] + h] < x) jj++;
+      if (V[I[i] + h] === x) kk++;
+    }
+    jj += start;
+    kk += jj;
+
+    let i = start;
+    let j = 0;
+    let k = 0;
+    while (i < jj) {
+      if (V[I[i] + h] < x) {
+        i++;
+      } else if (V[I[i] + h] === x) {
+        const tmp = I[i];
+        I[i] = I[jj + j];
+        I[jj + j] = tmp;
+        j++;
+      } else {
+        const tmp = I[i];
+        I[i] = I[kk + k];
+        I[kk + k] = tmp;
+        k++;
+      }
+    }
+    while (jj + j < kk) {
+      if (V[I[jj + j] + h] === x) {
+        j++;
+      } else {
+        const tmp = I[jj + j];
+        I[jj + j] = I[kk + k];
+        I[kk + k] = tmp;
+        k++;
+      }
+    }
+
+    // Popped in reverse: lower part, then the equal group, then the upper part.
+    if (start + len > kk) stack.push([kk, start + len - kk]);
+    stack.push([jj, kk, -1]);
+    if (jj > start) stack.push([start, jj - start]);
+  }
+}
+
+function matchLength(old: Uint8Array, oldStart: number, next: Uint8Array, nextStart: number): number {
+  let i = 0;
+  while (oldStart + i < old.length && nextStart + i < next.length && old[oldStart + i] === next[nextStart + i]) {
+    i++;
+  }
+  return i;
+}
+
+// Longest match of `next[scan..]` in `old` by binary search over the suffix array.
+function search(
+  I: Int32Array,
+  old: Buffer,
+  next: Buffer,
+  scan: number,
+): { pos: number; len: number } {
+  let st = 0;
+  let en = old.length;
+  while (en - st >= 2) {
+    const x = st + Math.floor((en - st) / 2);
+    const n = Math.min(old.length - I[x], next.length - scan);
+    if (old.compare(next, scan, scan + n, I[x], I[x] + n) < 0) {
+      st = x;
+    } else {
+      en = x;
+    }
+  }
+  const x = matchLength(old, I[st], next, scan);
+  const y = matchLength(old, I[en], next, scan);
+  return x > y ? { pos: I[st], len: x } : { pos: I[en], len: y };
+}
+
+function writeOffset(value: number, target: Buffer, offset: number): void {
+  const magnitude = BigInt(Math.abs(value));
+  target.writeBigUInt64LE(value < 0 ? magnitude | (1n << 63n) : magnitude, offset);
+}
+
+function readOffset(source: Buffer, offset: number): number {
+  const raw = source.readBigUInt64LE(offset);
+  const magnitude = Number(raw & ((1n << 63n) - 1n));
+  return raw >> 63n ? -magnitude : magnitude;
+}
+
+/**
+ * Create a raw bsdiff patch that turns `oldData` into `newData`.
+ * Memory use is about 8 bytes per byte of `oldData` for the suffix array.
+ */
+export function createBsdiffPatch(oldData: Buffer, newData: Buffer): Buffer {
+  const old = oldData;
+  const next = newData;
+  const I = suffixSort(old);
+  const chunks: Buffer[] = [];
+
+  let scan = 0;
+  let len = 0;
+  let pos = 0;
+  let lastScan = 0;
+  let lastPos = 0;
+  let lastOffset = 0;
+
+  while (scan < next.length) {
+    let oldScore = 0;
+    let scsc = (scan += len);
+    for (; scan < next.length; scan++) {
+      ({ pos, len } = search(I, old, next, scan));
+
+      for (; scsc < scan + len; scsc++) {
+        if (scsc + lastOffset < old.length && old[scsc + lastOffset] === next[scsc]) oldScore++;
+      }
+      if ((len === oldScore && len !== 0) || len > oldScore + 8) break;
+      if (scan + lastOffset < old.length && old[scan + lastOffset] === next[scan]) oldScore--;
+    }
+
+    if (len !== oldScore || scan === next.length) {
+      let s = 0;
+      let sf = 0;
+      let lenf = 0;
+      for (let i = 0; lastScan + i < scan && lastPos + i < old.length;) {
+        if (old[lastPos + i] === next[lastScan + i]) s++;
+        i++;
+        if (s * 2 - i > sf * 2 - lenf) {
+          sf = s;
+          lenf = i;
+        }
+      }
+
+      let lenb = 0;
+      if (scan < next.length) {
+        let sb = 0;
+        s = 0;
+        for (let i = 1; scan >= lastScan + i && pos >= i; i++) {
+          if (old[pos - i] === next[scan - i]) s++;
+          if (s * 2 - i > sb * 2 - lenb) {
+            sb = s;
+            lenb = i;
+          }
+        }
+      }
+
+      if (lastScan + lenf > scan - lenb) {
+        const overlap = lastScan + lenf - (scan - lenb);
+        let ss = 0;
+        let lens = 0;
+        s = 0;
+        for (let i = 0; i < overlap; i++) {
+          if (next[lastScan + lenf - overlap + i] === old[lastPos + lenf - overlap + i]) s++;
+          if (next[scan - lenb + i] === old[pos - lenb + i]) s--;
+          if (s > ss) {
+            ss = s;
+            lens = i + 1;
+          }
+        }
+        lenf += lens - overlap;
+        lenb -= lens;
+      }
+
+      const extraLength = scan - lenb - (lastScan + lenf);
+      const block = Buffer.alloc(CONTROL_SIZE + lenf + extraLength);
+      writeOffset(lenf, block, 0);
+      writeOffset(extraLength, block, 8);
+      writeOffset(pos - lenb - (lastPos + lenf), block, 16);
+      for (let i = 0; i < lenf; i++) {
+        block[CONTROL_SIZE + i] = (next[lastScan + i] - old[lastPos + i]) & 0xff;
+      }
+      next.copy(block, CONTROL_SIZE + lenf, lastScan + lenf, scan - lenb);
+      chunks.push(block);
+
+      lastScan = scan - lenb;
+      lastPos = pos - lenb;
+      lastOffset = pos - scan;
+    }
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Apply a raw bsdiff patch to `oldData`. Used to verify a patch before it is published.
+ */
+export function applyBsdiffPatch(oldData: Buffer, patch: Buffer): Buffer {
+  const out: Buffer[] = [];
+  let offset = 0;
+  let oldPos = 0;
+  while (offset < patch.length) {
+    if (offset + CONTROL_SIZE > patch.length) {
+      throw new Error('Corrupt bsdiff patch: truncated control block.');
+    }
+    const addLength = readOffset(patch, offset);
+    const copyLength = readOffset(patch, offset + 8);
+    const seek = readOffset(patch, offset + 16);
+    offset += CONTROL_SIZE;
+    if (addLength < 0 || copyLength < 0 || offset + addLength + copyLength > patch.length) {
+      throw new Error('Corrupt bsdiff patch: block exceeds patch size.');
+    }
+
+    const added = Buffer.alloc(addLength);
+    for (let i = 0; i < addLength; i++) {
+      const source = oldPos + i >= 0 && oldPos + i < oldData.length ? oldData[oldPos + i] : 0;
+      added[i] = (patch[offset + i] + source) & 0xff;
+    }
+    out.push(added, patch.subarray(offset + addLength, offset + addLength + copyLength));
+    offset += addLength + copyLength;
+    oldPos += addLength + seek;
+  }
+  return Buffer.concat(out);
+}
@@ -0,0 +1,114 @@
+import { parseSemver, trimToString } from '../utils';
+
+export const DEFAULT_UPDATE_CHANNEL = 'stable';
+
+// Lists every channel written next to it; only maintained with `update_channel_index`.
+export const CHANNEL_INDEX_FILE_NAME = 'channels.json';
+
+const UPDATE_CHANNEL_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Validate an explicit `update_channel`; returns undefined when unset so the channel can be inferred.
+ */
+export function parseUpdateChannel(value?: string): string | undefined {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  if (!UPDATE_CHANNEL_PATTERN.test(normalized)) {
+    throw new Error(`Invalid update_channel "${value}". Use letters, digits, ".", "_" or "-".`);
+  }
+  return normalized;
+}
+
+/**
+ * Channel implied by a version's semver prerelease: `1.2.0-beta.3` -> `beta`,
+ * `1.2.0-nightly20240101` -> `nightly`, `1.2.0` -> `stable`.
+ */
+export function inferUpdateChannel(version?: string | null): string {
+  const identifier = parseSemver(version)?.prerelease[0];
+  if (!identifier) {
+    return DEFAULT_UPDATE_CHANNEL;
+  }
+  // Numeric-only prereleases (`1.2.0-1`) carry no channel name.
+  return /^[a-z]+/.exec(identifier.toLowerCase())?.[0] ?? 'prerelease';
+}
+
+export function resolveUpdateChannel(value: string | undefined, version?: string | null): string {
+  return parseUpdateChannel(value) ?? inferUpdateChannel(version);
+}
+
+/**
+ * Prefix of the updater JSON files of an app and flavor: `<app>`, `<flavor>` or `<app>-<flavor>`;
+ * undefined for a plain single-app run.
+ */
+export function updaterFilePrefix(app?: string, flavor?: string): string | undefined {
+  return [app, flavor].filter(Boolean).join('-') || undefined;
+}
+
+/**
+ * Updater JSON file of `channel`: `latest.json` for stable (what existing clients poll),
+ * `latest-<channel>.json` otherwise. Apps of a multi-app run (`apps`) and flavors get their own feed,
+ * e.g. `<app>-latest.json` (`app` is the `updaterFilePrefix`).
+ */
+export function updaterJsonFileName(channel: string, app?: string): string {
+  const name = channel === DEFAULT_UPDATE_CHANNEL ? 'latest.json' : `latest-${channel}.json`;
+  return app ? `${appFilePrefix(app)}-${name}` : name;
+}
+
+/**
+ * Channel index next to the updater JSON: `channels.json`, or `<app>-channels.json` for an app of a multi-app run
+ * or a flavor.
+ */
+export function channelIndexFileName(app?: string): string {
+  return app ? `${appFilePrefix(app)}-${CHANNEL_INDEX_FILE_NAME}` : CHANNEL_INDEX_FILE_NAME;
+}
+
+function appFilePrefix(app: string): string {
+  return app.toLowerCase().replace(/[^a-z0-9._-]+/g, '-');
+}
+
+export function isUpdaterJsonFileName(name: string): boolean {
+  const lower = trimToString(name).toLowerCase();
+  return /^([a-z0-9._-]+-)?(channels|latest(-[a-z0-9._-]+)?)\.json$/.test(lower);
+}
+
+export type ChannelIndexEntry = {
+  file: string;
+  version: string;
+  pub_date: string;
+};
+
+export type ChannelIndex = {
+  channels: Record<string, ChannelIndexEntry>;
+};
+
+/**
+ * Record `channel` in an existing index (or start a new one); other channels are kept.
+ * An unreadable index is replaced rather than failing the release.
+ */
+export function mergeChannelIndex(
+  existingText: string | undefined,
+  channel: string,
+  entry: ChannelIndexEntry,
+): ChannelIndex {
+  const channels: Record<string, ChannelIndexEntry> = {};
+  if (existingText) {
+    try {
+      const parsed = JSON.parse(existingText) as { channels?: Record<string, Partial<ChannelIndexEntry>> };
+      for (const [name, value] of Object.entries(parsed.channels ?? {})) {
+        const file = trimToString(value?.file);
+        const version = trimToString(value?.version);
+        if (file && version) {
+          channels[name] = { file, version, pub_date: trimToString(value?.pub_date) };
+        }
+      }
+    } catch {
+      // Fall through with an empty index.
+    }
+  }
+  channels[channel] = entry;
+  return {
+    channels: Object.fromEntries(Object.entries(channels).sort(([a], [b]) => a.localeCompare(b))),
+  };
+}
@@ -0,0 +1,94 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { S3ObjectClient } from './backends';
+import type { S3Credentials } from './backends';
+
+/**
+ * Where a static update feed is written: a local directory or an S3 prefix.
+ */
+export interface UpdaterFeedStore {
+  // Human-readable location, e.g. `/srv/feed` or `s3://bucket/prefix`.
+  readonly target: string;
+  // Returns undefined when the file does not exist yet.
+  read(name: string): Promise<string | undefined>;
+  write(name: string, content: string): Promise<void>;
+}
+
+class DirectoryFeedStore implements UpdaterFeedStore {
+  constructor(readonly target: string) {}
+
+  async read(name: string): Promise<string | undefined> {
+    const path = join(this.target, name);
+    return existsSync(path) ? readFileSync(path, 'utf8') : undefined;
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    mkdirSync(this.target, { recursive: true });
+    writeFileSync(join(this.target, name), content);
+  }
+}
+
+class S3FeedStore implements UpdaterFeedStore {
+  readonly target: string;
+
+  constructor(
+    private readonly client: S3ObjectClient,
+    private readonly prefix: string,
+  ) {
+    this.target = `s3://${client.bucket}${prefix ? `/${prefix}` : ''}`;
+  }
+
+  private key(name: string): string {
+    return this.prefix ? `${this.prefix}/${name}` : name;
+  }
+
+  read(name: string): Promise<string | undefined> {
+    return this.client.getObjectText(this.key(name));
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    // Feed files change on every release; keep CDNs from serving a stale copy.
+    await this.client.putObject(this.key(name), Buffer.from(content, 'utf8'), 'application/json', 'no-cache');
+  }
+}
+
+/**
+ * Resolve `updater_feed`: `s3://<bucket>/<prefix>` or a directory (relative to the working directory).
+ */
+export function createUpdaterFeedStore(
+  target: string,
+  s3: { region?: string; endpoint?: string; credentials?: Partial<S3Credentials> } = {},
+): UpdaterFeedStore {
+  const match = /^s3:\/\/([^/]+)\/?(.*)$/.exec(target);
+  if (!match) {
+    return new DirectoryFeedStore(resolve(target));
+  }
+
+  const { accessKeyId, secretAccessKey, sessionToken } = s3.credentials ?? {};
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error('An s3:// updater_feed requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.');
+  }
+  const client = new S3ObjectClient({
+    bucket: match[1],
+    region: s3.region || 'us-east-1',
+    endpoint: s3.endpoint,
+    credentials: { accessKeyId, secretAccessKey, sessionToken },
+  });
+  return new S3FeedStore(client, match[2].replace(/\/+$/, ''));
+}
+
+/**
+ * Build the download URL of `assetName` under `updater_feed_base_url`.
+ * `__VERSION__` and `__TAG__` in the base are replaced, e.g. `https://cdn.example.com/app/__TAG__`.
+ */
+export function buildFeedAssetUrl(
+  baseUrl: string,
+  assetName: string,
+  values: { version?: string; tag?: string },
+): string {
+  const base = baseUrl
+    .replace(/__VERSION__/g, values.version ?? '')
+    .replace(/__TAG__/g, values.tag ?? '')
+    .replace(/\/+$/, '');
+  return `${base}/${encodeURIComponent(assetName)}`;
+}
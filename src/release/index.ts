@@ -1,540 +1,68 @@
 import * as core from '@actions/core';
-import * as github from '@actions/github';
-import { createReadStream, existsSync, mkdtempSync, statSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdtempSync, readFileSync, statSync } from 'node:fs';
 import { tmpdir } from 'node:os';
-import { basename, dirname, extname, join } from 'node:path';
-import type { Artifact, TargetArch, TargetPlatform } from '../types';
-import { execCommand, normalizeTagName, retry, sleep, trimToString } from '../utils';
-
-type Octokit = ReturnType<typeof github.getOctokit>;
-
-/**
- * Minimal release shape consumed by this action workflow.
- */
-export type ReleaseSummary = {
-  id: number;
-  html_url: string;
-  name?: string | null;
-  body?: string | null;
-  draft?: boolean;
-  prerelease?: boolean;
-  tag_name?: string | null;
-  created_at?: string | null;
-};
-
-type ReleaseAssetSummary = {
-  id: number;
+import { basename, extname, join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import type { Artifact, ArtifactManifest, TargetArch, TargetPlatform } from '../types';
+import { compareSemver, hashFile, normalizeTagName, parseSemver, retry, trimToString, zipDirectory } from '../utils';
+import type { ReleaseAssetSummary, ReleaseBackend, ReleaseSummary } from './backends';
+import { applyBsdiffPatch, createBsdiffPatch } from './bsdiff';
+import {
+  DEFAULT_UPDATE_CHANNEL,
+  channelIndexFileName,
+  inferUpdateChannel,
+  isUpdaterJsonFileName,
+  mergeChannelIndex,
+  updaterJsonFileName,
+} from './channels';
+import type { UpdaterFeedStore } from './feed';
+import { findMissingPlatforms, platformKey } from './targets';
+import { writeUpdaterSignature } from './signing';
+import type { UpdaterSigningKey } from './signing';
+
+export type { ReleaseAssetSummary, ReleaseBackend, ReleaseSummary } from './backends';
+
+export type ReleaseAssetChecksum = {
   name: string;
-  api_url: string;
-  browser_download_url: string;
+  sha256: string;
+  sha512?: string;
 };
 
 export type UploadedReleaseAsset = {
-  id: number;
+  id: string;
   name: string;
   url: string;
   artifact: Artifact;
   uploadPath: string;
+  sha256: string;
+  sha512?: string;
+  // Digest of the companion `.sig` asset, when one was uploaded.
+  signature?: ReleaseAssetChecksum;
 };
 
 type UpdaterFormat = 'nsis' | 'wix' | 'appimage' | 'app' | 'apk' | 'ipa';
 
+type UpdaterPatchEntry = {
+  url: string;
+  size: number;
+};
+
 type UpdaterPlatformEntry = {
   url: string;
   signature?: string;
   format: UpdaterFormat;
+  // Delta patches to this entry's file, keyed by the version they apply to.
+  patches?: Record<string, UpdaterPatchEntry>;
 };
 
-type ReleaseRepositoryContext = {
-  owner?: string;
-  repo?: string;
-  githubBaseUrl?: string;
-};
-
-function resolveReleaseRepositoryContext(
-  context?: ReleaseRepositoryContext,
-): { owner: string; repo: string } {
-  return {
-    owner: trimToString(context?.owner) || github.context.repo.owner,
-    repo: trimToString(context?.repo) || github.context.repo.repo,
-  };
-}
-
-function getOctokitClient(token: string, githubBaseUrl?: string): Octokit {
-  const baseUrl = trimToString(githubBaseUrl);
-  return baseUrl
-    ? github.getOctokit(token, { baseUrl })
-    : github.getOctokit(token);
-}
-
-function mapRelease(release: {
-  id: number;
-  html_url: string;
-  name?: string | null;
-  body?: string | null;
-  draft?: boolean;
-  prerelease?: boolean;
-  tag_name?: string | null;
-  created_at?: string | null;
-}): ReleaseSummary {
-  return {
-    id: release.id,
-    html_url: release.html_url,
-    name: release.name,
-    body: release.body,
-    draft: release.draft,
-    prerelease: release.prerelease,
-    tag_name: release.tag_name,
-    created_at: release.created_at,
-  };
-}
-
-async function getReleaseByTag(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  tagName: string,
-): Promise<ReleaseSummary | null> {
-  try {
-    const existing = await octokit.rest.repos.getReleaseByTag({
-      owner,
-      repo,
-      tag: tagName,
-    });
-    return mapRelease(existing.data);
-  } catch (error) {
-    const status = (error as { status?: number }).status;
-    if (status === 404) {
-      return null;
-    }
-    throw error;
-  }
-}
-
-export async function getReleaseById(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  releaseId: number,
-): Promise<ReleaseSummary | null> {
-  try {
-    const existing = await octokit.rest.repos.getRelease({
-      owner,
-      repo,
-      release_id: releaseId,
-    });
-    return mapRelease(existing.data);
-  } catch (error) {
-    const status = (error as { status?: number }).status;
-    if (status === 404) {
-      return null;
-    }
-    throw error;
-  }
-}
-
-async function listReleasesByTag(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  tagName: string,
-): Promise<ReleaseSummary[]> {
-  const releases = await octokit.paginate(octokit.rest.repos.listReleases, {
-    owner,
-    repo,
-    per_page: 100,
-  });
-  return releases
-    .filter((release) => release.tag_name === tagName)
-    .map((release) => mapRelease(release));
-}
-
-async function listReleaseAssets(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  releaseId: number,
-): Promise<ReleaseAssetSummary[]> {
-  const assets = await octokit.paginate(octokit.rest.repos.listReleaseAssets, {
-    owner,
-    repo,
-    release_id: releaseId,
-    per_page: 100,
-  });
-
-  return assets.map((asset) => ({
-    id: asset.id,
-    name: asset.name,
-    api_url: asset.url,
-    browser_download_url: asset.browser_download_url,
-  }));
-}
-
-function sortByCreatedAt(releases: ReleaseSummary[]): ReleaseSummary[] {
-  return releases.sort((a, b) => {
-    const aTime = a.created_at ? Date.parse(a.created_at) : 0;
-    const bTime = b.created_at ? Date.parse(b.created_at) : 0;
-    return aTime - bTime;
-  });
-}
-
-async function findReleaseByTag(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  tagName: string,
-): Promise<ReleaseSummary | null> {
-  const direct = await getReleaseByTag(octokit, owner, repo, tagName);
-  if (direct) {
-    return direct;
-  }
-
-  const matches = await listReleasesByTag(octokit, owner, repo, tagName);
-
-  if (matches.length === 0) {
-    return null;
-  }
-
-  if (matches.length > 1) {
-    core.warning(`Multiple releases found for tag ${tagName}; using the earliest one.`);
-  }
-
-  const sorted = sortByCreatedAt(matches);
-  return sorted[0];
-}
-
-async function resolveCanonicalRelease(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  tagName: string,
-): Promise<{ canonical: ReleaseSummary | null; duplicates: ReleaseSummary[] }> {
-  const matches = await listReleasesByTag(octokit, owner, repo, tagName);
-  if (matches.length === 0) {
-    return { canonical: null, duplicates: [] };
-  }
-
-  const sorted = sortByCreatedAt(matches);
-  return { canonical: sorted[0], duplicates: sorted.slice(1) };
-}
-
-async function resolveCanonicalReleaseWithStabilization(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  tagName: string,
-  attempts: number = 5,
-  delay: number = 1000,
-): Promise<{ canonical: ReleaseSummary | null; duplicates: ReleaseSummary[] }> {
-  let lastKey: string | null = null;
-  let resolved: { canonical: ReleaseSummary | null; duplicates: ReleaseSummary[] } = {
-    canonical: null,
-    duplicates: [],
-  };
-
-  for (let attempt = 1; attempt <= attempts; attempt++) {
-    resolved = await resolveCanonicalRelease(octokit, owner, repo, tagName);
-    const { canonical, duplicates } = resolved;
-
-    if (canonical) {
-      const key = [canonical.id, ...duplicates.map((release) => release.id)].join(',');
-      if (key === lastKey) {
-        return resolved;
-      }
-      lastKey = key;
-    }
-
-    if (attempt < attempts) {
-      await sleep(delay);
-    }
-  }
-
-  return resolved;
-}
-
-export async function ensureRelease(params: {
-  token: string;
-  tagName: string;
-  releaseName?: string;
-  releaseBody?: string;
-  draft: boolean;
-  prerelease: boolean;
-  commitish?: string;
-  generateReleaseNotes?: boolean;
-  owner?: string;
-  repo?: string;
-  githubBaseUrl?: string;
-}): Promise<{ id: number; html_url: string }> {
-  const {
-    token,
-    tagName: rawTagName,
-    releaseName,
-    releaseBody,
-    draft,
-    prerelease,
-    commitish,
-    generateReleaseNotes,
-  } = params;
-  const tagName = normalizeTagName(rawTagName);
-  const octokit = getOctokitClient(token, params.githubBaseUrl);
-  const { owner, repo } = resolveReleaseRepositoryContext(params);
-  const resolvedCommitish = trimToString(commitish) || github.context.sha;
-  core.info(`Ensuring release for tag "${tagName}"...`);
-
-  const createRelease = async (targetCommitish?: string) => {
-    return octokit.rest.repos.createRelease({
-      owner,
-      repo,
-      tag_name: tagName,
-      name: releaseName || tagName,
-      body: releaseBody,
-      draft,
-      prerelease,
-      target_commitish: targetCommitish,
-      generate_release_notes: Boolean(generateReleaseNotes),
-    });
-  };
-
-  const ensureTagRef = async (): Promise<'created' | 'exists' | 'skipped'> => {
-    const ref = tagName.startsWith('refs/tags/') ? tagName : `refs/tags/${tagName}`;
-    try {
-      await octokit.rest.git.createRef({
-        owner,
-        repo,
-        ref,
-        sha: resolvedCommitish,
-      });
-      return 'created';
-    } catch (error) {
-      const status = (error as { status?: number }).status;
-      if (status === 422) {
-        try {
-          const lookup = tagName.startsWith('refs/tags/')
-            ? tagName.replace('refs/', '')
-            : `tags/${tagName}`;
-          await octokit.rest.git.getRef({ owner, repo, ref: lookup });
-          return 'exists';
-        } catch (lookupError) {
-          const lookupStatus = (lookupError as { status?: number }).status;
-          if (lookupStatus === 404) {
-            core.warning(`Failed to create tag ref ${ref}; continuing without tag lock.`);
-            return 'skipped';
-          }
-          throw lookupError;
-        }
-      }
-      throw error;
-    }
-  };
-
-  const existing = await findReleaseByTag(octokit, owner, repo, tagName);
-  if (existing) {
-    const shouldUpdate = Boolean(releaseName || releaseBody);
-    if (!shouldUpdate) {
-      core.info(`Reusing existing release id=${existing.id} for tag "${tagName}".`);
-      return { id: existing.id, html_url: existing.html_url };
-    }
-
-    const updated = await octokit.rest.repos.updateRelease({
-      owner,
-      repo,
-      release_id: existing.id,
-      name: releaseName || existing.name || tagName,
-      body: releaseBody ?? existing.body ?? undefined,
-      draft: existing.draft,
-      prerelease: existing.prerelease,
-    });
-    core.info(`Updated existing release id=${updated.data.id} for tag "${tagName}".`);
-
-    return { id: updated.data.id, html_url: updated.data.html_url };
-  }
-
-  const tagLock = await ensureTagRef();
-  if (tagLock === 'exists') {
-    const waited = await retry(async () => {
-      const release = await findReleaseByTag(octokit, owner, repo, tagName);
-      if (!release) {
-        throw new Error('Release not visible yet.');
-      }
-      return release;
-    }, 5, 1000).catch(() => null);
-    if (waited) {
-      const shouldUpdate = Boolean(releaseName || releaseBody);
-      if (!shouldUpdate) {
-        core.info(`Detected concurrently created release id=${waited.id} for tag "${tagName}".`);
-        return { id: waited.id, html_url: waited.html_url };
-      }
-
-      const updated = await octokit.rest.repos.updateRelease({
-        owner,
-        repo,
-        release_id: waited.id,
-        name: releaseName || waited.name || tagName,
-        body: releaseBody ?? waited.body ?? undefined,
-        draft: waited.draft,
-        prerelease: waited.prerelease,
-      });
-      core.info(`Updated concurrently created release id=${updated.data.id} for tag "${tagName}".`);
-      return { id: updated.data.id, html_url: updated.data.html_url };
-    }
-  }
-
-  try {
-    const maybeExisting = await retry(async () => {
-      const release = await findReleaseByTag(octokit, owner, repo, tagName);
-      if (!release) {
-        throw new Error('Release not visible yet.');
-      }
-      return release;
-    }, 2, 750).catch(() => null);
-
-    if (maybeExisting) {
-      core.info(`Release became visible during retry; using id=${maybeExisting.id} for tag "${tagName}".`);
-      return { id: maybeExisting.id, html_url: maybeExisting.html_url };
-    }
-
-    let created;
-    try {
-      created = await createRelease(resolvedCommitish);
-    } catch (error) {
-      const status = (error as { status?: number }).status;
-      const message = String((error as Error).message || '');
-      const isCommitishError =
-        status === 422 &&
-        /commit|sha|target[_-]?commitish|not found|unprocessable/i.test(message);
-      if (!isCommitishError) {
-        throw error;
-      }
-      core.warning(
-        `Failed to create release with target_commitish="${resolvedCommitish}". Retrying without target_commitish.`,
-      );
-      created = await createRelease(undefined);
-    }
-    core.info(`Created release id=${created.data.id} for tag "${tagName}".`);
-
-    const stabilized = await resolveCanonicalReleaseWithStabilization(
-      octokit,
-      owner,
-      repo,
-      tagName,
-      5,
-      750,
-    );
-
-    if (stabilized.canonical && stabilized.canonical.id !== created.data.id) {
-      try {
-        await octokit.rest.repos.deleteRelease({
-          owner,
-          repo,
-          release_id: created.data.id,
-        });
-        core.warning(`Deleted duplicate release ${created.data.id} for tag ${tagName}.`);
-      } catch (deleteError) {
-        core.warning(`Failed to delete duplicate release ${created.data.id}: ${(deleteError as Error).message}`);
-      }
-      return { id: stabilized.canonical.id, html_url: stabilized.canonical.html_url };
-    }
-
-    return { id: created.data.id, html_url: created.data.html_url };
-  } catch (error) {
-    const status = (error as { status?: number }).status;
-    if (status === 422) {
-      const resolved = await retry(async () => {
-        const release = await findReleaseByTag(octokit, owner, repo, tagName);
-        if (!release) {
-          throw new Error('Release not visible yet.');
-        }
-        return release;
-      }, 3, 1000);
-      core.info(`Resolved existing release id=${resolved.id} after create conflict for tag "${tagName}".`);
-      return { id: resolved.id, html_url: resolved.html_url };
-    }
-    throw error;
-  }
-}
-
-/**
- * Best-effort cleanup for duplicate releases that point to the same tag.
- */
-export async function cleanupDuplicateReleases(params: {
-  token: string;
-  tagName: string;
-  keepReleaseId: number;
-  owner?: string;
-  repo?: string;
-  githubBaseUrl?: string;
-}): Promise<void> {
-  const { token, tagName: rawTagName, keepReleaseId } = params;
-  const tagName = normalizeTagName(rawTagName);
-  const octokit = getOctokitClient(token, params.githubBaseUrl);
-  const { owner, repo } = resolveReleaseRepositoryContext(params);
-
-  const matches = await listReleasesByTag(octokit, owner, repo, tagName);
-  if (matches.length <= 1) {
-    return;
-  }
-
-  const sorted = sortByCreatedAt(matches);
-  const keep = sorted.find((release) => release.id === keepReleaseId) ?? sorted[0];
-  if (!keep) {
-    return;
-  }
-
-  if (keep.id !== keepReleaseId) {
-    core.warning(`Release ${keepReleaseId} not found for tag ${tagName}; keeping ${keep.id} as canonical.`);
-  }
-
-  const keepAssets = await octokit.rest.repos.listReleaseAssets({
-    owner,
-    repo,
-    release_id: keep.id,
-    per_page: 100,
-  });
-  const keepAssetNames = new Set(keepAssets.data.map((asset) => asset.name));
-
-  for (const release of sorted) {
-    if (release.id === keep.id) continue;
-
-    const duplicateAssets = await octokit.rest.repos.listReleaseAssets({
-      owner,
-      repo,
-      release_id: release.id,
-      per_page: 100,
-    });
-
-    const extraAssets = duplicateAssets.data.filter(
-      (asset) => !keepAssetNames.has(asset.name),
-    );
-
-    if (extraAssets.length > 0) {
-      core.warning(
-        `Duplicate release ${release.id} for tag ${tagName} has assets not on the canonical release; skipping delete.`,
-      );
-      continue;
-    }
-
-    try {
-      await octokit.rest.repos.deleteRelease({
-        owner,
-        repo,
-        release_id: release.id,
-      });
-      core.info(`Deleted duplicate release ${release.id} for tag ${tagName}.`);
-    } catch (deleteError) {
-      core.warning(
-        `Failed to delete duplicate release ${release.id}: ${(deleteError as Error).message}`,
-      );
-    }
-  }
-}
-
-// Preferred upload formats per platform when multiple artifacts are produced.
 const RECOMMENDED_EXTENSIONS: Record<TargetPlatform, string[]> = {
   macos: ['dmg', 'pkg'],
   windows: ['msi', 'exe'],
   linux: ['deb', 'appimage', 'rpm'],
-  android: ['apk'],
+  android: ['apk', 'aab'],
   ios: ['ipa'],
+  web: ['zip'],
 };
 
 function getExtensionInfo(filePath: string): { raw: string; lower: string } {
@@ -596,11 +124,14 @@ function ensureUniqueAssetName(name: string, used: Set<string>): string {
   return candidate;
 }
 
-function filterArtifactsForUpload(artifacts: Artifact[]): Artifact[] {
+function filterArtifactsForUpload(
+  artifacts: Artifact[],
+  hasUpdaterSignature: (artifact: Artifact) => boolean = (artifact) => existsSync(`${artifact.path}.sig`),
+): Artifact[] {
   const groupInfo = new Map<string, { recommended: string[]; hasRecommended: boolean }>();
 
   for (const artifact of artifacts) {
-    const key = `${artifact.platform}|${artifact.arch}|${artifact.mode}`;
+    const key = `${artifact.platform}|${artifact.arch}|${artifact.mode}|${artifact.profile ?? ''}|${artifact.flavor ?? ''}`;
     let info = groupInfo.get(key);
     if (!info) {
       const recommended = RECOMMENDED_EXTENSIONS[artifact.platform] ?? [];
@@ -615,7 +146,7 @@ function filterArtifactsForUpload(artifacts: Artifact[]): Artifact[] {
 
   const filtered: Artifact[] = [];
   for (const artifact of artifacts) {
-    const key = `${artifact.platform}|${artifact.arch}|${artifact.mode}`;
+    const key = `${artifact.platform}|${artifact.arch}|${artifact.mode}|${artifact.profile ?? ''}|${artifact.flavor ?? ''}`;
     const info = groupInfo.get(key);
     if (!info || info.recommended.length === 0 || !info.hasRecommended) {
       filtered.push(artifact);
@@ -624,24 +155,17 @@ function filterArtifactsForUpload(artifacts: Artifact[]): Artifact[] {
     const ext = getExtensionInfo(artifact.path).lower;
     if (info.recommended.includes(ext)) {
       filtered.push(artifact);
+      continue;
+    }
+    // Signed updater bundles (e.g. macOS `.app.tar.gz` next to a `.dmg`) feed latest.json, so keep them.
+    if (isUpdaterSignableArtifact(artifact) && hasUpdaterSignature(artifact)) {
+      filtered.push(artifact);
     }
   }
 
   return filtered;
 }
 
-async function zipDirectory(sourceDir: string, destZip: string): Promise<void> {
-  if (process.platform === 'win32') {
-    const escapedSource = sourceDir.replace(/'/g, "''");
-    const escapedDest = destZip.replace(/'/g, "''");
-    const command = `Compress-Archive -Path '${escapedSource}' -DestinationPath '${escapedDest}' -Force`;
-    await execCommand('powershell', ['-NoProfile', '-Command', command]);
-    return;
-  }
-
-  await execCommand('zip', ['-r', destZip, basename(sourceDir)], { cwd: dirname(sourceDir) });
-}
-
 function buildAssetName(params: {
   artifact: Artifact;
   uploadPath: string;
@@ -672,6 +196,9 @@ function buildAssetName(params: {
     '__PLATFORM__': sanitizeAssetNamePart(artifact.platform) ?? '',
     '__ARCH__': sanitizeAssetNamePart(artifact.arch) ?? '',
     '__MODE__': sanitizeAssetNamePart(artifact.mode) ?? '',
+    // Cargo profile: `release`, `dev` or the custom profile.
+    '__PROFILE__': sanitizeAssetNamePart(artifact.profile ?? (artifact.mode === 'debug' ? 'dev' : 'release')) ?? '',
+    '__FLAVOR__': sanitizeAssetNamePart(artifact.flavor) ?? '',
     '__EXT__': sanitizeAssetNamePart(extension.raw) ?? '',
     '__FILENAME__': sanitizeAssetNamePart(uploadFilename) ?? '',
     '__BASENAME__': sanitizeAssetNamePart(uploadBasename) ?? '',
@@ -689,17 +216,21 @@ function buildAssetName(params: {
       platform: values['__PLATFORM__'],
       arch: values['__ARCH__'],
       mode: values['__MODE__'],
+      profile: values['__PROFILE__'],
+      flavor: values['__FLAVOR__'],
       ext: values['__EXT__'],
       filename: values['__FILENAME__'],
       basename: values['__BASENAME__'],
     });
   } else {
+    // A custom profile names the build instead of the mode.
     const parts = [
       values['__APP__'],
       values['__VERSION__'],
       values['__PLATFORM__'],
       values['__ARCH__'],
-      values['__MODE__'],
+      artifact.profile ? values['__PROFILE__'] : values['__MODE__'],
+      values['__FLAVOR__'],
     ].filter(Boolean);
     const base = parts.length > 0 ? parts.join('-') : values['__BASENAME__'] || uploadBasename;
     name = extension.raw ? `${base}.${extension.raw}` : base;
@@ -715,8 +246,8 @@ function buildAssetName(params: {
 }
 
 export async function uploadReleaseAssets(params: {
-  token: string;
-  releaseId: number;
+  backend: ReleaseBackend;
+  releaseId: string;
   artifacts: Artifact[];
   assetNameTemplate?: string;
   releaseAssetNamePattern?: string;
@@ -725,12 +256,12 @@ export async function uploadReleaseAssets(params: {
   appVersion?: string;
   retryAttempts?: number;
   uploadUpdaterSignatures?: boolean;
-  owner?: string;
-  repo?: string;
-  githubBaseUrl?: string;
+  checksumSha512?: boolean;
+  // Names already uploaded in this run (other apps), so they are not replaced.
+  usedNames?: Set<string>;
 }): Promise<UploadedReleaseAsset[]> {
   const {
-    token,
+    backend,
     releaseId,
     artifacts,
     assetNameTemplate,
@@ -740,9 +271,14 @@ export async function uploadReleaseAssets(params: {
     appVersion,
     retryAttempts = 0,
     uploadUpdaterSignatures = true,
+    checksumSha512 = false,
+    usedNames = new Set<string>(),
   } = params;
-  const octokit = getOctokitClient(token, params.githubBaseUrl);
-  const { owner, repo } = resolveReleaseRepositoryContext(params);
+  const computeChecksum = async (name: string, path: string): Promise<ReleaseAssetChecksum> => ({
+    name,
+    sha256: await hashFile(path, 'sha256'),
+    ...(checksumSha512 ? { sha512: await hashFile(path, 'sha512') } : {}),
+  });
   core.info(`Preparing release asset upload. release_id=${releaseId}, artifacts=${artifacts.length}`);
 
   const filteredArtifacts = filterArtifactsForUpload(artifacts).filter((artifact) => {
@@ -760,59 +296,24 @@ export async function uploadReleaseAssets(params: {
     throw new Error(`Missing artifacts on disk:\n${missingArtifacts.join('\n')}`);
   }
 
-  const usedNames = new Set<string>();
   const uploadedAssets: UploadedReleaseAsset[] = [];
   const maxAttempts = Math.max(2, Math.trunc(retryAttempts) + 1);
 
   const uploadAssetWithRetry = async (
     assetName: string,
     uploadPath: string,
-  ): Promise<{ id: number; name: string; url: string }> => {
+  ): Promise<ReleaseAssetSummary> => {
     const uploaded = await retry(async () => {
-      const existingAssets = await listReleaseAssets(octokit, owner, repo, releaseId);
+      const existingAssets = await backend.listAssets(releaseId);
       const existing = existingAssets.find((asset) => asset.name === assetName);
       if (existing) {
-        try {
-          await octokit.rest.repos.deleteReleaseAsset({
-            owner,
-            repo,
-            asset_id: existing.id,
-          });
-          core.info(`Replaced existing release asset "${assetName}" (asset_id=${existing.id}).`);
-        } catch (error) {
-          const status = (error as { status?: number }).status;
-          if (status !== 404) {
-            throw error;
-          }
-        }
+        await backend.deleteAsset(releaseId, existing);
+        core.info(`Replaced existing release asset "${assetName}" (asset_id=${existing.id}).`);
       }
 
       const uploadStat = statSync(uploadPath);
       core.info(`Uploading asset "${assetName}" (${uploadStat.size} bytes)...`);
-      try {
-        const response = await octokit.rest.repos.uploadReleaseAsset({
-          owner,
-          repo,
-          release_id: releaseId,
-          name: assetName,
-          data: createReadStream(uploadPath) as unknown as string,
-          headers: {
-            'content-type': 'application/octet-stream',
-            'content-length': uploadStat.size,
-          },
-        });
-        return {
-          id: response.data.id,
-          name: response.data.name,
-          url: response.data.browser_download_url,
-        };
-      } catch (error) {
-        const status = (error as { status?: number }).status;
-        if (status === 422) {
-          throw new Error(`Asset upload conflict for "${assetName}"`);
-        }
-        throw error;
-      }
+      return backend.uploadAsset(releaseId, assetName, { path: uploadPath });
     }, maxAttempts, 700, (attempt, error) => {
       core.warning(
         `Upload attempt ${attempt}/${maxAttempts} failed for "${assetName}": ${(error as Error).message}`,
@@ -863,21 +364,26 @@ export async function uploadReleaseAssets(params: {
     assetName = ensureUniqueAssetName(assetName, usedNames);
 
     const uploaded = await uploadAssetWithRetry(assetName, uploadPath);
+    const checksum = await computeChecksum(uploaded.name, uploadPath);
 
-    uploadedAssets.push({
+    const uploadedAsset: UploadedReleaseAsset = {
       id: uploaded.id,
       name: uploaded.name,
-      url: uploaded.url,
+      url: uploaded.browser_download_url,
       artifact,
       uploadPath,
-    });
+      sha256: checksum.sha256,
+      sha512: checksum.sha512,
+    };
+    uploadedAssets.push(uploadedAsset);
 
     if (uploadUpdaterSignatures && getExtensionInfo(uploadPath).lower !== 'sig') {
       const companionSignaturePath = findCompanionSignaturePath(artifact.path, uploadPath);
       if (companionSignaturePath) {
         let signatureAssetName = `${assetName}.sig`;
         signatureAssetName = ensureUniqueAssetName(signatureAssetName, usedNames);
-        await uploadAssetWithRetry(signatureAssetName, companionSignaturePath);
+        const uploadedSignature = await uploadAssetWithRetry(signatureAssetName, companionSignaturePath);
+        uploadedAsset.signature = await computeChecksum(uploadedSignature.name, companionSignaturePath);
       }
     }
   }
@@ -885,6 +391,62 @@ export async function uploadReleaseAssets(params: {
   return uploadedAssets;
 }
 
+export type PlannedReleaseAsset = {
+  name: string;
+  artifact: Artifact;
+  uploadPath: string;
+  signatureName?: string;
+};
+
+/**
+ * Render the asset names `uploadReleaseAssets` would use, without reading or uploading anything.
+ * Directory artifacts (e.g. `.app` bundles) are assumed to be zipped as `<dir>.zip`.
+ */
+export function planReleaseAssets(params: {
+  artifacts: Artifact[];
+  assetNameTemplate?: string;
+  releaseAssetNamePattern?: string;
+  assetPrefix?: string;
+  appName?: string;
+  appVersion?: string;
+  uploadUpdaterSignatures?: boolean;
+  // Whether signable updater artifacts will have a `.sig` next to them by upload time.
+  expectUpdaterSignatures?: boolean;
+  usedNames?: Set<string>;
+}): PlannedReleaseAsset[] {
+  const {
+    artifacts,
+    uploadUpdaterSignatures = true,
+    expectUpdaterSignatures = false,
+    usedNames = new Set<string>(),
+  } = params;
+  // Planned artifacts are not on disk yet, so judge signability by file name; `.app` bundles are never signed.
+  const hasUpdaterSignature = (artifact: Artifact): boolean =>
+    existsSync(`${artifact.path}.sig`) ||
+    (expectUpdaterSignatures && hasSignableUpdaterFormat(artifact) && getExtensionInfo(artifact.path).lower !== 'app');
+
+  const planned: PlannedReleaseAsset[] = [];
+  for (const artifact of filterArtifactsForUpload(artifacts, hasUpdaterSignature)) {
+    if (!uploadUpdaterSignatures && getExtensionInfo(artifact.path).lower === 'sig') {
+      continue;
+    }
+
+    const isDirectory = existsSync(artifact.path)
+      ? statSync(artifact.path).isDirectory()
+      : getExtensionInfo(artifact.path).lower === 'app';
+    const uploadPath = isDirectory ? join(tmpdir(), `${basename(artifact.path)}.zip`) : artifact.path;
+    const name = ensureUniqueAssetName(buildAssetName({ ...params, artifact, uploadPath }), usedNames);
+
+    const asset: PlannedReleaseAsset = { name, artifact, uploadPath };
+    if (uploadUpdaterSignatures && getExtensionInfo(uploadPath).lower !== 'sig' && hasUpdaterSignature(artifact)) {
+      asset.signatureName = ensureUniqueAssetName(`${name}.sig`, usedNames);
+    }
+    planned.push(asset);
+  }
+
+  return planned;
+}
+
 type UpdaterPlatformName = 'windows' | 'linux' | 'darwin' | 'android' | 'ios';
 
 type UpdaterAssetCandidate = {
@@ -895,15 +457,27 @@ type UpdaterAssetCandidate = {
   format?: UpdaterFormat;
 };
 
-type UpdaterJsonDocument = {
+/**
+ * What an updater JSON write did, for the job summary.
+ */
+export type UpdaterJsonReport = {
+  // `<backend target> release id=<id>` or the updater feed target.
+  target: string;
+  // Files written; empty when the write was skipped (see `note`).
+  files: string[];
+  note?: string;
+  // `<platform>-<arch>` entries taken from this run's candidates.
+  entries: { platform: string; asset_name: string }[];
+  skipped: { asset_name: string; reason: string }[];
+};
+
+export type UpdaterJsonDocument = {
   version: string;
   notes: string;
   pub_date: string;
   platforms: Record<string, UpdaterPlatformEntry>;
 };
 
-const UPDATER_JSON_ASSET_NAME = 'latest.json';
-
 const UPDATER_FORMAT_PRIORITY: Record<UpdaterPlatformName, UpdaterFormat[]> = {
   windows: ['nsis', 'wix'],
   linux: ['appimage'],
@@ -931,11 +505,11 @@ function isSignatureAssetName(name: string): boolean {
   return trimToString(name).toLowerCase().endsWith('.sig');
 }
 
-function isUpdaterJsonAssetName(name: string): boolean {
-  return trimToString(name).toLowerCase() === UPDATER_JSON_ASSET_NAME;
+function isDeltaPatchAssetName(name: string): boolean {
+  return trimToString(name).toLowerCase().endsWith('.patch');
 }
 
-function toUpdaterPlatformName(platform: TargetPlatform): UpdaterPlatformName {
+function toUpdaterPlatformName(platform: Exclude<TargetPlatform, 'web'>): UpdaterPlatformName {
   return platform === 'macos' ? 'darwin' : platform;
 }
 
@@ -1005,7 +579,7 @@ function inferPlatformFromAssetName(fileName: string, format?: string): TargetPl
     return 'windows';
   }
 
-  if (lower.includes('android') || lower.endsWith('.apk')) {
+  if (lower.includes('android') || lower.endsWith('.apk') || lower.endsWith('.aab')) {
     return 'android';
   }
 
@@ -1013,6 +587,10 @@ function inferPlatformFromAssetName(fileName: string, format?: string): TargetPl
     return 'ios';
   }
 
+  if (lower.includes('wasm') || /(^|[._-])web([._-]|$)/.test(lower)) {
+    return 'web';
+  }
+
   if (
     lower.includes('darwin') ||
     lower.includes('macos') ||
@@ -1033,6 +611,12 @@ function inferPlatformFromAssetName(fileName: string, format?: string): TargetPl
 
 function inferArchFromAssetName(fileName: string): TargetArch | undefined {
   const lower = fileName.toLowerCase();
+  if (lower.includes('universal')) {
+    return 'universal';
+  }
+  if (lower.includes('wasm32') || /(^|[._-])web([._-]|$)/.test(lower)) {
+    return 'wasm32';
+  }
   if (lower.includes('x86_64') || lower.includes('amd64') || lower.includes('x64')) {
     return 'x86_64';
   }
@@ -1080,14 +664,35 @@ function normalizeUpdaterPlatforms(value: unknown): Record<string, UpdaterPlatfo
     const signature = trimToString(obj.signature);
     if (!signature && !isMobileUpdaterPlatform(platform)) continue;
 
-    result[key] = signature
+    const entry: UpdaterPlatformEntry = signature
       ? { url, signature, format }
       : { url, format };
+    const patches = normalizeUpdaterPatches(obj.patches);
+    if (patches) {
+      entry.patches = patches;
+    }
+    result[key] = entry;
   }
 
   return result;
 }
 
+function normalizeUpdaterPatches(value: unknown): Record<string, UpdaterPatchEntry> | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const result: Record<string, UpdaterPatchEntry> = {};
+  for (const [version, item] of Object.entries(value as Record<string, unknown>)) {
+    const obj = (item ?? {}) as Record<string, unknown>;
+    const url = trimToString(obj.url);
+    const size = Number(obj.size);
+    if (url && Number.isFinite(size)) {
+      result[version] = { url, size };
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
 function resolveUpdaterVersion(
   appVersion?: string,
   releaseTagName?: string | null,
@@ -1107,18 +712,105 @@ function resolveUpdaterVersion(
   return '0.0.0';
 }
 
-function buildReleaseAssetDownloadUrl(
-  owner: string,
-  repo: string,
-  tagName?: string | null,
-  assetName?: string,
-): string | undefined {
-  const tag = normalizeTagName(trimToString(tagName));
-  const name = trimToString(assetName);
-  if (!tag || !name) {
+type ExistingUpdaterJson = {
+  version?: string;
+  notes?: string;
+  pub_date?: string;
+  platforms: Record<string, UpdaterPlatformEntry>;
+};
+
+function parseUpdaterJson(text: string): ExistingUpdaterJson {
+  const parsed = JSON.parse(text) as Record<string, unknown>;
+  return {
+    version: trimToString(parsed.version) || undefined,
+    notes: trimToString(parsed.notes) || undefined,
+    pub_date: trimToString(parsed.pub_date) || undefined,
+    platforms: normalizeUpdaterPlatforms(parsed.platforms),
+  };
+}
+
+/**
+ * True when `url` has a path segment naming another release: a semver tag or version (`v1.2.0`,
+ * `1.2.0-beta.1`) that is neither `tagName` nor `version`. URLs without such a segment (fixed
+ * feed base URLs, custom tag schemes) are never considered foreign.
+ */
+function pointsAtOtherRelease(url: string, tagName: string, version: string): boolean {
+  let segments: string[];
+  try {
+    segments = new URL(url).pathname.split('/').map((segment) => decodeURIComponent(segment));
+  } catch {
+    return false;
+  }
+  if (segments.some((segment) => segment === tagName || segment === version)) {
+    return false;
+  }
+  return segments.some((segment) => parseSemver(segment) !== undefined);
+}
+
+/**
+ * Merge this run's entries over an existing document; entries for other platforms are kept
+ * unless their URL points at another release. Returns undefined when no platform entry remains.
+ *
+ * Downgrades (a lower semver than the existing `version`, or than `channelVersion`) throw unless
+ * `allowDowngrade` is set, so a rerun of an old job cannot roll clients back.
+ */
+export function mergeUpdaterJson(
+  existing: ExistingUpdaterJson | undefined,
+  entries: Map<string, UpdaterPlatformEntry>,
+  meta: {
+    appVersion?: string;
+    tagName?: string | null;
+    notes?: string | null;
+    pubDate?: string | null;
+    channel?: string;
+    allowDowngrade?: boolean;
+    // Version of the channel's document in the newest other release, which clients poll.
+    channelVersion?: string;
+  },
+): UpdaterJsonDocument | undefined {
+  const version = resolveUpdaterVersion(meta.appVersion, meta.tagName, existing?.version);
+  const previousVersion = existing?.version;
+  const channel = meta.channel ?? DEFAULT_UPDATE_CHANNEL;
+  for (const guardVersion of new Set([previousVersion, meta.channelVersion])) {
+    if (!guardVersion || guardVersion === version) continue;
+    const order = compareSemver(version, guardVersion);
+    if (order === undefined) {
+      core.warning(
+        `Cannot compare updater versions "${guardVersion}" and "${version}" as semver; replacing the "${channel}" channel version.`,
+      );
+    } else if (order < 0 && !meta.allowDowngrade) {
+      throw new Error(
+        `Refusing to move update channel "${channel}" backward from ${guardVersion} to ${version}. Set allow_updater_downgrade to override.`,
+      );
+    } else if (order < 0) {
+      core.warning(`Moving update channel "${channel}" backward from ${guardVersion} to ${version} (allow_updater_downgrade).`);
+    }
+  }
+
+  const tagName = normalizeTagName(trimToString(meta.tagName));
+  const platforms: Record<string, UpdaterPlatformEntry> = {};
+  for (const [key, entry] of Object.entries(existing?.platforms ?? {})) {
+    if (!entries.has(key) && pointsAtOtherRelease(entry.url, tagName, version)) {
+      core.info(`Dropping updater entry "${key}" from another release: ${entry.url}`);
+      continue;
+    }
+    platforms[key] = entry;
+  }
+  for (const [key, entry] of entries) {
+    platforms[key] = entry;
+  }
+  if (Object.keys(platforms).length === 0) {
     return undefined;
   }
-  return `https://github.com/${owner}/${repo}/releases/download/${tag}/${encodeURIComponent(name)}`;
+
+  // Notes and date of a previous version do not describe this one.
+  const previous = previousVersion === version ? existing : undefined;
+  return {
+    version,
+    notes: trimToString(meta.notes) || previous?.notes || 'Draft release, will be updated later.',
+    pub_date: trimToString(meta.pubDate) || previous?.pub_date || new Date().toISOString(),
+    platforms,
+  };
 }
 
 function buildUpdaterCandidateFromReleaseAsset(
@@ -1126,11 +818,17 @@ function buildUpdaterCandidateFromReleaseAsset(
   uploadedByName: Map<string, UploadedReleaseAsset>,
   releaseAssetUrl: (asset: ReleaseAssetSummary) => string,
 ): UpdaterAssetCandidate | null {
-  if (isUpdaterJsonAssetName(asset.name) || isSignatureAssetName(asset.name)) {
+  if (isUpdaterJsonFileName(asset.name) || isSignatureAssetName(asset.name) || isDeltaPatchAssetName(asset.name)) {
     return null;
   }
+  return buildUpdaterCandidate(asset.name, releaseAssetUrl(asset), uploadedByName.get(asset.name));
+}
 
-  const uploaded = uploadedByName.get(asset.name);
+function buildUpdaterCandidate(
+  assetName: string,
+  url: string,
+  uploaded?: Pick<UploadedReleaseAsset, 'artifact' | 'uploadPath'>,
+): UpdaterAssetCandidate | null {
   let platform: TargetPlatform | undefined;
   let arch: TargetArch | undefined;
   let format: UpdaterFormat | undefined;
@@ -1138,17 +836,18 @@ function buildUpdaterCandidateFromReleaseAsset(
   if (uploaded) {
     platform = uploaded.artifact.platform;
     arch = uploaded.artifact.arch;
-    format = inferUpdaterFormat(uploaded.uploadPath, platform) ?? inferUpdaterFormat(asset.name, platform);
+    format = inferUpdaterFormat(uploaded.uploadPath, platform) ?? inferUpdaterFormat(assetName, platform);
   } else {
-    format = inferUpdaterFormat(asset.name);
-    platform = inferPlatformFromAssetName(asset.name, format);
-    arch = inferArchFromAssetName(asset.name);
+    format = inferUpdaterFormat(assetName);
+    platform = inferPlatformFromAssetName(assetName, format);
+    arch = inferArchFromAssetName(assetName);
     if (platform && !format) {
-      format = inferUpdaterFormat(asset.name, platform);
+      format = inferUpdaterFormat(assetName, platform);
     }
   }
 
-  if (!platform || !arch || !format || !isUpdaterFormat(format)) {
+  // Web bundles are served as-is and have no updater entry.
+  if (!platform || platform === 'web' || !arch || !format || !isUpdaterFormat(format)) {
     return null;
   }
 
@@ -1157,78 +856,341 @@ function buildUpdaterCandidateFromReleaseAsset(
   }
 
   return {
-    assetName: asset.name,
-    url: releaseAssetUrl(asset),
+    assetName,
+    url,
     platform: toUpdaterPlatformName(platform),
     arch,
     format,
   };
 }
 
-function resolveGithubApiBaseUrl(githubBaseUrl?: string): string {
-  const configured = trimToString(githubBaseUrl) || trimToString(process.env.GITHUB_API_URL);
-  const base = configured || 'https://api.github.com';
-  return base.replace(/\/+$/, '');
-}
-
-async function downloadReleaseAssetText(params: {
-  asset: ReleaseAssetSummary;
-  token: string;
-  owner: string;
-  repo: string;
-  githubBaseUrl?: string;
-}): Promise<string> {
-  const { asset, token, owner, repo, githubBaseUrl } = params;
-  const headers: Record<string, string> = {
-    Accept: 'application/octet-stream',
-    'User-Agent': 'makepad-packaging-action',
-  };
-  if (trimToString(token)) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-
-  const apiBase = resolveGithubApiBaseUrl(githubBaseUrl);
-  const encodedOwner = encodeURIComponent(owner);
-  const encodedRepo = encodeURIComponent(repo);
-  const apiUrl = `${apiBase}/repos/${encodedOwner}/${encodedRepo}/releases/assets/${asset.id}`;
-  const apiResponse = await fetch(apiUrl, {
-    method: 'GET',
-    headers,
-    redirect: 'follow',
-  });
-
-  if (apiResponse.ok) {
-    return apiResponse.text();
-  }
+/**
+ * Pick one entry per `<platform>-<arch>`, preferring formats by updater priority.
+ * Desktop entries without a signature are skipped. Selected and skipped assets are added to `report`.
+ */
+async function selectUpdaterEntries(
+  candidates: UpdaterAssetCandidate[],
+  getSignatureForAsset: (assetName: string) => Promise<string | undefined>,
+  getPatchesForAsset?: (assetName: string) => Record<string, UpdaterPatchEntry> | undefined,
+  report?: Pick<UpdaterJsonReport, 'entries' | 'skipped'>,
+): Promise<Map<string, UpdaterPlatformEntry>> {
+  const baseEntries = new Map<string, { priority: number; entry: UpdaterPlatformEntry; assetName: string }>();
 
-  const fallbackResponse = await fetch(asset.browser_download_url, {
-    method: 'GET',
-    headers,
-    redirect: 'follow',
-  });
-  if (!fallbackResponse.ok) {
-    throw new Error(
-      `Failed to download release asset via API (${apiResponse.status} ${apiResponse.statusText}) and browser URL (${fallbackResponse.status} ${fallbackResponse.statusText}).`,
+  for (const candidate of candidates) {
+    if (!candidate.format) {
+      continue;
+    }
+    const requiresSignature = !isMobileUpdaterPlatform(candidate.platform);
+    const signature = await getSignatureForAsset(candidate.assetName);
+    if (requiresSignature && !signature) {
+      core.warning(
+        `Skipping updater entry for "${candidate.assetName}" because no signature asset was available.`,
+      );
+      report?.skipped.push({ asset_name: candidate.assetName, reason: 'no signature asset was available' });
+      continue;
+    }
+
+    const entry: UpdaterPlatformEntry = {
+      url: candidate.url,
+      format: candidate.format,
+    };
+    if (signature) {
+      entry.signature = signature;
+    }
+    const patches = getPatchesForAsset?.(candidate.assetName);
+    if (patches) {
+      entry.patches = patches;
+    }
+
+    const baseKey = `${candidate.platform}-${candidate.arch}`;
+    const priority = getUpdaterFormatPriority(
+      candidate.platform,
+      candidate.format,
     );
+    const existing = baseEntries.get(baseKey);
+    if (!existing || priority < existing.priority) {
+      if (existing) {
+        report?.skipped.push({ asset_name: existing.assetName, reason: `${candidate.format} is preferred for ${baseKey}` });
+      }
+      baseEntries.set(baseKey, { priority, entry, assetName: candidate.assetName });
+    } else {
+      report?.skipped.push({ asset_name: candidate.assetName, reason: `${existing.entry.format} is preferred for ${baseKey}` });
+    }
+  }
+
+  report?.entries.push(...Array.from(baseEntries, ([platform, value]) => ({ platform, asset_name: value.assetName })));
+  return new Map(Array.from(baseEntries, ([key, value]) => [key, value.entry]));
+}
+
+// Desktop formats whose updater payload is the artifact file itself.
+const SIGNABLE_UPDATER_FORMATS = new Set<UpdaterFormat>(['nsis', 'wix', 'appimage', 'app']);
+
+// bsdiff runs in memory with a suffix array of about 8 bytes per byte of the previous file.
+const MAX_DELTA_PATCH_INPUT_BYTES = 128 * 1024 * 1024;
+
+function hasSignableUpdaterFormat(artifact: Artifact): boolean {
+  if (artifact.platform !== 'windows' && artifact.platform !== 'linux' && artifact.platform !== 'macos') {
+    return false;
+  }
+  const format = inferUpdaterFormat(basename(artifact.path), artifact.platform);
+  return Boolean(format && SIGNABLE_UPDATER_FORMATS.has(format));
+}
+
+function isUpdaterSignableArtifact(artifact: Artifact): boolean {
+  if (!hasSignableUpdaterFormat(artifact)) {
+    return false;
+  }
+  // A macOS `.app` bundle directory is zipped on upload; only the `.app.tar.gz` is an updater payload.
+  return existsSync(artifact.path) && statSync(artifact.path).isFile();
+}
+
+/**
+ * Sign every updater-eligible artifact (NSIS, MSI, AppImage, `.app.tar.gz`) and write its `.sig`.
+ * Existing `.sig` files are replaced so the signature always matches the uploaded file.
+ */
+export async function signUpdaterArtifacts(
+  artifacts: Artifact[],
+  key: UpdaterSigningKey,
+): Promise<string[]> {
+  const signed: string[] = [];
+  for (const artifact of artifacts) {
+    if (!isUpdaterSignableArtifact(artifact)) {
+      continue;
+    }
+    const signaturePath = await writeUpdaterSignature(artifact.path, key);
+    core.info(`Signed updater artifact: ${artifact.path} -> ${basename(signaturePath)}`);
+    signed.push(signaturePath);
+  }
+  if (signed.length === 0) {
+    core.warning('Updater signing enabled, but no NSIS/MSI/AppImage/.app.tar.gz artifacts were built.');
+  }
+  return signed;
+}
+
+export type DeltaPatch = {
+  // Release asset the patch reconstructs.
+  assetName: string;
+  sourceVersion: string;
+  name: string;
+  url: string;
+  size: number;
+  // Digests of the patch asset, for the checksum files.
+  checksum: ReleaseAssetChecksum;
+};
+
+/**
+ * Name of the patch that turns the `sourceVersion` file into `assetName`,
+ * e.g. `app-1.1.0-linux-x86_64-release.AppImage.from-1.0.0.patch`.
+ */
+export function deltaPatchAssetName(assetName: string, sourceVersion: string): string {
+  return `${assetName}.from-${sourceVersion}.patch`;
+}
+
+// Trailing semver of a tag: `v1.2.0` -> `1.2.0`, `myapp-1.2.0-beta.1` -> `1.2.0-beta.1`.
+function versionFromTagName(tagName?: string | null): string | undefined {
+  return /(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)$/.exec(normalizeTagName(trimToString(tagName)))?.[1];
+}
+
+/**
+ * Newest published release on `channel` with a lower version than `version`.
+ */
+async function findPreviousRelease(
+  backend: ReleaseBackend,
+  releaseId: string,
+  version: string,
+  channel: string,
+): Promise<{ release: ReleaseSummary; version: string } | undefined> {
+  let previous: { release: ReleaseSummary; version: string } | undefined;
+  for (const release of await backend.listReleases()) {
+    const releaseVersion = versionFromTagName(release.tag_name);
+    if (release.id === releaseId || release.draft || !releaseVersion) continue;
+    if (inferUpdateChannel(releaseVersion) !== channel) continue;
+    if ((compareSemver(releaseVersion, version) ?? 0) >= 0) continue;
+    if (!previous || (compareSemver(releaseVersion, previous.version) ?? 0) > 0) {
+      previous = { release, version: releaseVersion };
+    }
+  }
+  return previous;
+}
+
+/**
+ * `fileName` of the newest published release on `channel` (other than `releaseId`) that has one:
+ * the document clients of the channel poll until this release is published.
+ */
+async function findChannelUpdaterJson(
+  backend: ReleaseBackend,
+  releaseId: string,
+  channel: string,
+  fileName: string,
+): Promise<{ release: ReleaseSummary; document: ExistingUpdaterJson } | undefined> {
+  const releases = (await backend.listReleases())
+    .map((release) => ({ release, version: versionFromTagName(release.tag_name) }))
+    .filter((item): item is { release: ReleaseSummary; version: string } =>
+      item.release.id !== releaseId && !item.release.draft && Boolean(item.version)
+      && inferUpdateChannel(item.version as string) === channel)
+    .sort((a, b) => compareSemver(b.version, a.version) ?? 0);
+  for (const { release } of releases) {
+    const asset = (await backend.listAssets(release.id)).find((item) => item.name === fileName);
+    if (!asset) continue;
+    try {
+      return { release, document: parseUpdaterJson(await backend.downloadAssetText(release.id, asset)) };
+    } catch (error) {
+      core.warning(`Failed to parse ${fileName} of release ${release.tag_name}: ${(error as Error).message}`);
+      return undefined;
+    }
   }
-  return fallbackResponse.text();
+  return undefined;
+}
+
+/**
+ * Upload bsdiff patches from the previous release on the same channel to this run's desktop
+ * updater assets (NSIS, MSI, AppImage, `.app.tar.gz`).
+ *
+ * The previous file is the asset with the same `platform-arch` and format, preferring the one
+ * whose name matches after swapping the version. Each `.patch` asset is the gzip-compressed raw
+ * bsdiff stream; it is verified against the new file before upload and skipped when it is not
+ * smaller than the file itself. Files over `MAX_DELTA_PATCH_INPUT_BYTES` are skipped with a
+ * warning. Failures only warn: clients fall back to the full download.
+ */
+export async function uploadDeltaPatches(params: {
+  backend: ReleaseBackend;
+  releaseId: string;
+  tagName: string;
+  appVersion?: string;
+  channel?: string;
+  uploadedAssets: UploadedReleaseAsset[];
+  retryAttempts?: number;
+}): Promise<DeltaPatch[]> {
+  const {
+    backend,
+    releaseId,
+    tagName,
+    uploadedAssets,
+    channel = DEFAULT_UPDATE_CHANNEL,
+    retryAttempts = 0,
+  } = params;
+  const version = resolveUpdaterVersion(params.appVersion, tagName);
+  if (!parseSemver(version)) {
+    core.warning(`Delta updates need a semver app version; "${version}" is not one. Skipping patches.`);
+    return [];
+  }
+
+  const targets = uploadedAssets
+    .map((asset) => ({ asset, candidate: buildUpdaterCandidate(asset.name, asset.url, asset) }))
+    .filter(({ candidate }) => candidate && SIGNABLE_UPDATER_FORMATS.has(candidate.format as UpdaterFormat));
+  if (targets.length === 0) {
+    core.info('No desktop updater assets were uploaded; skipping delta patches.');
+    return [];
+  }
+
+  const previous = await findPreviousRelease(backend, releaseId, version, channel);
+  if (!previous) {
+    core.info(`No previous "${channel}" release older than ${version} was found; skipping delta patches.`);
+    return [];
+  }
+  core.info(`Creating delta patches from ${previous.release.tag_name} (${previous.version}).`);
+
+  const previousCandidates = (await backend.listAssets(previous.release.id))
+    .filter((asset) => !isSignatureAssetName(asset.name) && !isDeltaPatchAssetName(asset.name))
+    .map((asset) => ({ asset, candidate: buildUpdaterCandidate(asset.name, asset.browser_download_url) }));
+
+  const patches: DeltaPatch[] = [];
+  for (const { asset, candidate } of targets) {
+    const matches = previousCandidates.filter((item) =>
+      item.candidate
+      && item.candidate.platform === candidate?.platform
+      && item.candidate.arch === candidate?.arch
+      && item.candidate.format === candidate?.format);
+    const source = matches.find((item) => item.asset.name.split(previous.version).join(version) === asset.name)
+      ?? (matches.length === 1 ? matches[0] : undefined);
+    if (!source) {
+      core.info(
+        matches.length > 1
+          ? `Several ${previous.release.tag_name} assets match "${asset.name}"; skipping its delta patch.`
+          : `No ${previous.release.tag_name} asset matches "${asset.name}"; skipping its delta patch.`,
+      );
+      continue;
+    }
+
+    try {
+      const newSize = statSync(asset.uploadPath).size;
+      if (newSize > MAX_DELTA_PATCH_INPUT_BYTES) {
+        core.warning(
+          `"${asset.name}" is larger than ${MAX_DELTA_PATCH_INPUT_BYTES / 1024 / 1024} MiB; skipping its delta patch.`,
+        );
+        continue;
+      }
+      const oldData = await backend.downloadAsset(previous.release.id, source.asset);
+      if (oldData.length > MAX_DELTA_PATCH_INPUT_BYTES) {
+        core.warning(
+          `"${source.asset.name}" of ${previous.release.tag_name} is larger than ${MAX_DELTA_PATCH_INPUT_BYTES / 1024 / 1024} MiB; skipping the delta patch for "${asset.name}".`,
+        );
+        continue;
+      }
+      const newData = readFileSync(asset.uploadPath);
+      const raw = createBsdiffPatch(oldData, newData);
+      if (!applyBsdiffPatch(oldData, raw).equals(newData)) {
+        throw new Error('patch verification failed');
+      }
+      const content = gzipSync(raw, { level: 9 });
+      if (content.length >= newData.length) {
+        core.info(`Delta patch for "${asset.name}" is not smaller than the file; skipping.`);
+        continue;
+      }
+
+      const name = deltaPatchAssetName(asset.name, previous.version);
+      const uploaded = await replaceGeneratedReleaseAsset({
+        backend,
+        releaseId,
+        name,
+        contentType: 'application/octet-stream',
+        content,
+        maxAttempts: Math.max(2, Math.trunc(retryAttempts) + 1),
+      });
+      patches.push({
+        assetName: asset.name,
+        sourceVersion: previous.version,
+        name,
+        url: backend.assetDownloadUrl(tagName, name) ?? uploaded.browser_download_url,
+        size: content.length,
+        checksum: {
+          name,
+          sha256: createHash('sha256').update(content).digest('hex'),
+          sha512: createHash('sha512').update(content).digest('hex'),
+        },
+      });
+      core.info(`Uploaded delta patch "${name}" (${content.length} of ${newData.length} bytes).`);
+    } catch (error) {
+      core.warning(`Failed to create delta patch for "${asset.name}": ${(error as Error).message}`);
+    }
+  }
+  return patches;
 }
 
 export async function uploadUpdaterJson(params: {
-  token: string;
-  releaseId: number;
+  backend: ReleaseBackend;
+  releaseId: string;
   appVersion?: string;
   releaseTagName?: string | null;
   releaseBody?: string | null;
   releaseCreatedAt?: string | null;
   uploadedAssets?: UploadedReleaseAsset[];
   retryAttempts?: number;
-  owner?: string;
-  repo?: string;
-  githubBaseUrl?: string;
-}): Promise<void> {
+  // Writes `latest.json` for stable and `latest-<channel>.json` otherwise.
+  channel?: string;
+  // Also record the channel in `channels.json`.
+  channelIndex?: boolean;
+  // Replace a newer `version` instead of failing.
+  allowDowngrade?: boolean;
+  // Added as `patches` to the entries of the assets they reconstruct.
+  deltaPatches?: DeltaPatch[];
+  // App of a multi-app run or flavor (`updaterFilePrefix`): writes `<app>-latest.json` from that
+  // app's assets only (`assetNames`); its entries from other jobs are kept from the existing file.
+  app?: string;
+  assetNames?: string[];
+}): Promise<UpdaterJsonReport> {
   const {
-    token,
+    backend,
     releaseId,
     appVersion,
     releaseTagName,
@@ -1236,63 +1198,71 @@ export async function uploadUpdaterJson(params: {
     releaseCreatedAt,
     uploadedAssets,
     retryAttempts = 0,
+    channel = DEFAULT_UPDATE_CHANNEL,
+    channelIndex = false,
+    allowDowngrade = false,
+    deltaPatches = [],
+    app,
+    assetNames,
   } = params;
+  const updaterJsonName = updaterJsonFileName(channel, app);
+  const channelIndexName = channelIndexFileName(app);
+  const report: UpdaterJsonReport = {
+    target: `${backend.target} release id=${releaseId}`,
+    files: [],
+    entries: [],
+    skipped: [],
+  };
 
-  const octokit = getOctokitClient(token, params.githubBaseUrl);
-  const { owner, repo } = resolveReleaseRepositoryContext(params);
-  const release = await octokit.rest.repos.getRelease({
-    owner,
-    repo,
-    release_id: releaseId,
-  });
+  const release = await backend.getRelease(releaseId);
+  if (!release) {
+    throw new Error(`Release id=${releaseId} was not found on ${backend.target}.`);
+  }
   const resolvedReleaseTag = normalizeTagName(
-    trimToString(releaseTagName) || trimToString(release.data.tag_name),
+    trimToString(releaseTagName) || trimToString(release.tag_name),
   );
-  if (release.data.draft) {
+  if (release.draft) {
     core.warning(
       `Release id=${releaseId} is draft. Asset URLs in updater JSON are prepared for tag "${resolvedReleaseTag || '(missing-tag)'}" and will be publicly downloadable only after publishing the release.`,
     );
   }
   const releaseAssetUrl = (asset: ReleaseAssetSummary): string =>
-    buildReleaseAssetDownloadUrl(owner, repo, resolvedReleaseTag, asset.name) ??
+    (resolvedReleaseTag ? backend.assetDownloadUrl(resolvedReleaseTag, asset.name) : undefined) ??
     asset.browser_download_url;
 
-  const releaseAssets = await listReleaseAssets(octokit, owner, repo, releaseId);
+  const releaseAssets = await backend.listAssets(releaseId);
   const releaseAssetByName = new Map(releaseAssets.map((asset) => [asset.name, asset]));
   const uploadedByName = new Map((uploadedAssets ?? []).map((asset) => [asset.name, asset]));
 
-  let existingPlatforms: Record<string, UpdaterPlatformEntry> = {};
-  let existingVersion: string | undefined;
-  let existingNotes: string | undefined;
-  let existingPubDate: string | undefined;
-
-  const existingUpdaterAsset = releaseAssetByName.get(UPDATER_JSON_ASSET_NAME);
+  let existing: ExistingUpdaterJson | undefined;
+  const existingUpdaterAsset = releaseAssetByName.get(updaterJsonName);
   if (existingUpdaterAsset) {
     try {
-      const existingText = await downloadReleaseAssetText({
-        asset: existingUpdaterAsset,
-        token,
-        owner,
-        repo,
-        githubBaseUrl: params.githubBaseUrl,
-      });
-      const parsed = JSON.parse(existingText) as Record<string, unknown>;
-      existingVersion = trimToString(parsed.version);
-      existingNotes = trimToString(parsed.notes);
-      existingPubDate = trimToString(parsed.pub_date);
-      existingPlatforms = normalizeUpdaterPlatforms(parsed.platforms);
+      existing = parseUpdaterJson(await backend.downloadAssetText(releaseId, existingUpdaterAsset));
     } catch (error) {
-      core.warning(`Failed to parse existing ${UPDATER_JSON_ASSET_NAME}: ${(error as Error).message}`);
+      core.warning(`Failed to parse existing ${updaterJsonName}: ${(error as Error).message}`);
     }
   }
+  // The first job of a release starts from the channel's current document, so the downgrade check
+  // and the pruning of other releases' entries see what clients poll today. Later jobs merge over
+  // the release's own file but are still checked against that document.
+  const channelDocument = await findChannelUpdaterJson(backend, releaseId, channel, updaterJsonName);
+  if (channelDocument && !existingUpdaterAsset) {
+    const { release: channelRelease, document } = channelDocument;
+    core.info(`Merging over ${updaterJsonName} of release ${channelRelease.tag_name} (${document.version ?? 'no version'}).`);
+    existing = document;
+  }
 
+  const appAssetNames = assetNames ? new Set(assetNames) : undefined;
   const candidates = releaseAssets
+    .filter((asset) => !appAssetNames || appAssetNames.has(asset.name))
     .map((asset) => buildUpdaterCandidateFromReleaseAsset(asset, uploadedByName, releaseAssetUrl))
     .filter((candidate): candidate is UpdaterAssetCandidate => Boolean(candidate));
 
   if (candidates.length === 0) {
     core.warning(`No release assets were mappable for updater JSON on release id=${releaseId}; skipping.`);
-    return;
+    report.note = 'no release assets map to an updater platform';
+    return report;
   }
 
   const signatureByAssetName = new Map<string, ReleaseAssetSummary>();
@@ -1316,15 +1286,7 @@ export async function uploadUpdaterJson(params: {
     }
 
     try {
-      const signatureText = trimToString(
-        await downloadReleaseAssetText({
-          asset: signatureAsset,
-          token,
-          owner,
-          repo,
-          githubBaseUrl: params.githubBaseUrl,
-        }),
-      );
+      const signatureText = trimToString(await backend.downloadAssetText(releaseId, signatureAsset));
       const value = signatureText || undefined;
       signatureCache.set(assetName, value);
       return value;
@@ -1335,104 +1297,410 @@ export async function uploadUpdaterJson(params: {
     }
   };
 
-  const baseEntries = new Map<string, { priority: number; entry: UpdaterPlatformEntry }>();
+  const patchesByAssetName = new Map<string, Record<string, UpdaterPatchEntry>>();
+  for (const patch of deltaPatches) {
+    const patches = patchesByAssetName.get(patch.assetName) ?? {};
+    patches[patch.sourceVersion] = { url: patch.url, size: patch.size };
+    patchesByAssetName.set(patch.assetName, patches);
+  }
 
-  for (const candidate of candidates) {
-    if (!candidate.format) {
-      continue;
-    }
-    const requiresSignature = !isMobileUpdaterPlatform(candidate.platform);
-    const signature = await getSignatureForAsset(candidate.assetName);
-    if (requiresSignature && !signature) {
-      core.warning(
-        `Skipping updater entry for "${candidate.assetName}" because no signature asset was available.`,
-      );
-      continue;
-    }
+  const baseEntries = await selectUpdaterEntries(
+    candidates,
+    getSignatureForAsset,
+    (assetName) => patchesByAssetName.get(assetName),
+    report,
+  );
+  const payload = mergeUpdaterJson(existing, baseEntries, {
+    appVersion,
+    tagName: releaseTagName,
+    notes: releaseBody,
+    pubDate: releaseCreatedAt,
+    channel,
+    allowDowngrade,
+    channelVersion: channelDocument?.document.version,
+  });
+  if (!payload) {
+    core.warning(`No valid signed updater entries remained for release id=${releaseId}; skipping ${updaterJsonName} upload.`);
+    report.note = 'no valid signed updater entries remained';
+    return report;
+  }
 
-    const entry: UpdaterPlatformEntry = {
-      url: candidate.url,
-      format: candidate.format,
-    };
-    if (signature) {
-      entry.signature = signature;
-    }
+  const encoded = Buffer.from(`${JSON.stringify(payload, null, 2)}\n`, 'utf8');
 
-    const baseKey = `${candidate.platform}-${candidate.arch}`;
-    const priority = getUpdaterFormatPriority(
-      candidate.platform,
-      candidate.format,
-    );
-    const existing = baseEntries.get(baseKey);
-    if (!existing || priority < existing.priority) {
-      baseEntries.set(baseKey, { priority, entry });
+  await replaceGeneratedReleaseAsset({
+    backend,
+    releaseId,
+    name: updaterJsonName,
+    contentType: 'application/json',
+    content: encoded,
+    maxAttempts: Math.max(2, Math.trunc(retryAttempts) + 1),
+  });
+
+  core.info(
+    `Uploaded updater JSON asset "${updaterJsonName}" with ${Object.keys(payload.platforms).length} platform entry(ies).`,
+  );
+  report.files.push(updaterJsonName);
+
+  if (channelIndex) {
+    const existingIndexAsset = releaseAssetByName.get(channelIndexName);
+    let existingIndex: string | undefined;
+    if (existingIndexAsset) {
+      try {
+        existingIndex = await backend.downloadAssetText(releaseId, existingIndexAsset);
+      } catch (error) {
+        core.warning(`Failed to read existing ${channelIndexName}: ${(error as Error).message}`);
+      }
     }
+    const index = mergeChannelIndex(existingIndex, channel, {
+      file: updaterJsonName,
+      version: payload.version,
+      pub_date: payload.pub_date,
+    });
+    await replaceGeneratedReleaseAsset({
+      backend,
+      releaseId,
+      name: channelIndexName,
+      contentType: 'application/json',
+      content: Buffer.from(`${JSON.stringify(index, null, 2)}\n`, 'utf8'),
+      maxAttempts: Math.max(2, Math.trunc(retryAttempts) + 1),
+    });
+    core.info(`Uploaded channel index "${channelIndexName}" (${Object.keys(index.channels).join(', ')}).`);
+    report.files.push(channelIndexName);
   }
+  return report;
+}
+
+export type UpdaterFeedAsset = Pick<PlannedReleaseAsset, 'name' | 'artifact' | 'uploadPath'>;
 
-  const platforms: Record<string, UpdaterPlatformEntry> = { ...existingPlatforms };
-  for (const [key, value] of baseEntries) {
-    platforms[key] = value.entry;
+/**
+ * Write the updater document for this run's assets to the channel's static feed file, merging
+ * with the entries already there. Signatures are read from the `.sig` files next to the artifacts.
+ */
+export async function writeUpdaterFeed(params: {
+  store: UpdaterFeedStore;
+  channel: string;
+  channelIndex?: boolean;
+  allowDowngrade?: boolean;
+  assets: UpdaterFeedAsset[];
+  assetUrl: (assetName: string) => string;
+  appVersion?: string;
+  tagName?: string;
+  notes?: string | null;
+  // App of a multi-app run or flavor (`updaterFilePrefix`): writes `<app>-latest.json`.
+  app?: string;
+}): Promise<UpdaterJsonReport> {
+  const {
+    store,
+    channel,
+    channelIndex = false,
+    allowDowngrade = false,
+    assets,
+    assetUrl,
+    appVersion,
+    tagName,
+    notes,
+    app,
+  } = params;
+  const fileName = updaterJsonFileName(channel, app);
+  const channelIndexName = channelIndexFileName(app);
+  const report: UpdaterJsonReport = { target: store.target, files: [], entries: [], skipped: [] };
+
+  const candidates = assets
+    .filter((asset) => !isSignatureAssetName(asset.name))
+    .map((asset) => buildUpdaterCandidate(asset.name, assetUrl(asset.name), asset))
+    .filter((candidate): candidate is UpdaterAssetCandidate => Boolean(candidate));
+  if (candidates.length === 0) {
+    core.warning('No built artifacts were mappable for the updater feed; skipping.');
+    report.note = 'no built artifacts map to an updater platform';
+    return report;
   }
-  if (Object.keys(platforms).length === 0) {
-    core.warning(`No valid signed updater entries remained for release id=${releaseId}; skipping latest.json upload.`);
-    return;
+
+  const assetByName = new Map(assets.map((asset) => [asset.name, asset]));
+  const entries = await selectUpdaterEntries(candidates, async (assetName) => {
+    const asset = assetByName.get(assetName);
+    const signaturePath = asset && [`${asset.artifact.path}.sig`, `${asset.uploadPath}.sig`].find(existsSync);
+    return signaturePath ? trimToString(readFileSync(signaturePath, 'utf8')) || undefined : undefined;
+  }, undefined, report);
+
+  let existing: ExistingUpdaterJson | undefined;
+  try {
+    const existingText = await store.read(fileName);
+    existing = existingText === undefined ? undefined : parseUpdaterJson(existingText);
+  } catch (error) {
+    core.warning(`Failed to parse existing ${store.target}/${fileName}: ${(error as Error).message}`);
   }
 
-  const payload: UpdaterJsonDocument = {
-    version: resolveUpdaterVersion(appVersion, releaseTagName, existingVersion),
-    notes: trimToString(releaseBody) || existingNotes || 'Draft release, will be updated later.',
-    pub_date: trimToString(releaseCreatedAt) || existingPubDate || new Date().toISOString(),
-    platforms,
+  const document = mergeUpdaterJson(existing, entries, {
+    appVersion,
+    tagName,
+    notes,
+    channel,
+    allowDowngrade,
+  });
+  if (!document) {
+    core.warning(`No valid signed updater entries for ${store.target}/${fileName}; skipping.`);
+    report.note = 'no valid signed updater entries remained';
+    return report;
+  }
+  await store.write(fileName, `${JSON.stringify(document, null, 2)}\n`);
+  core.info(
+    `Wrote updater feed ${store.target}/${fileName} with ${Object.keys(document.platforms).length} platform entry(ies).`,
+  );
+  report.files.push(fileName);
+  if (!channelIndex) {
+    return report;
+  }
+
+  const index = mergeChannelIndex(await store.read(channelIndexName), channel, {
+    file: fileName,
+    version: document.version,
+    pub_date: document.pub_date,
+  });
+  await store.write(channelIndexName, `${JSON.stringify(index, null, 2)}\n`);
+  core.info(`Wrote channel index ${store.target}/${channelIndexName} (${Object.keys(index.channels).join(', ')}).`);
+  report.files.push(channelIndexName);
+  return report;
+}
+
+/**
+ * Preview the latest.json entries contributed by planned release assets.
+ * Entries already present in a published latest.json are not fetched, so the preview only
+ * covers this run's assets; desktop signatures are shown as placeholders.
+ */
+export async function previewUpdaterJson(params: {
+  plannedAssets: PlannedReleaseAsset[];
+  releaseTagName: string;
+  appVersion?: string;
+  releaseBody?: string | null;
+  backend: Pick<ReleaseBackend, 'assetDownloadUrl'>;
+}): Promise<UpdaterJsonDocument | undefined> {
+  const { plannedAssets, releaseTagName, appVersion, releaseBody, backend } = params;
+
+  const candidates = plannedAssets
+    .map((asset) => buildUpdaterCandidate(
+      asset.name,
+      backend.assetDownloadUrl(releaseTagName, asset.name) ?? asset.name,
+      asset,
+    ))
+    .filter((candidate): candidate is UpdaterAssetCandidate => Boolean(candidate));
+  const signatureNames = new Map(
+    plannedAssets
+      .filter((asset) => asset.signatureName)
+      .map((asset) => [asset.name, `<contents of ${asset.signatureName}>`]),
+  );
+
+  const entries = await selectUpdaterEntries(candidates, async (assetName) => signatureNames.get(assetName));
+  if (entries.size === 0) {
+    return undefined;
+  }
+
+  return {
+    version: resolveUpdaterVersion(appVersion, releaseTagName),
+    notes: trimToString(releaseBody) || 'Draft release, will be updated later.',
+    pub_date: new Date().toISOString(),
+    platforms: Object.fromEntries(entries),
   };
+}
 
-  const encoded = Buffer.from(`${JSON.stringify(payload, null, 2)}\n`, 'utf8');
+const CHECKSUM_ASSET_NAMES = {
+  sha256: 'SHA256SUMS',
+  sha512: 'SHA512SUMS',
+} as const;
+
+type ChecksumAlgorithm = keyof typeof CHECKSUM_ASSET_NAMES;
+
+function isChecksumAssetName(name: string): boolean {
+  return Object.values(CHECKSUM_ASSET_NAMES).includes(name as typeof CHECKSUM_ASSET_NAMES[ChecksumAlgorithm]);
+}
 
+/**
+ * Parse a `sha256sum`-style file (`<hex>  <name>`, optionally `<hex> *<name>`) into name -> digest.
+ */
+function parseChecksumFile(text: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^([0-9a-fA-F]+)\s+\*?(.+)$/.exec(line.trim());
+    if (match) {
+      entries.set(match[2], match[1].toLowerCase());
+    }
+  }
+  return entries;
+}
+
+function renderChecksumFile(entries: Map<string, string>): string {
+  return Array.from(entries.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, digest]) => `${digest}  ${name}\n`)
+    .join('');
+}
+
+/**
+ * Collect the checksums of uploaded assets and their `.sig` companions, keyed by final asset name.
+ */
+function collectUploadedChecksums(uploadedAssets: UploadedReleaseAsset[]): ReleaseAssetChecksum[] {
+  const checksums: ReleaseAssetChecksum[] = [];
+  for (const asset of uploadedAssets) {
+    checksums.push({ name: asset.name, sha256: asset.sha256, sha512: asset.sha512 });
+    if (asset.signature) {
+      checksums.push(asset.signature);
+    }
+  }
+  return checksums;
+}
+
+/**
+ * Replace a generated (non-artifact) release asset such as `SHA256SUMS` with new content.
+ */
+async function replaceGeneratedReleaseAsset(params: {
+  backend: ReleaseBackend;
+  releaseId: string;
+  name: string;
+  contentType: string;
+  content: Buffer;
+  maxAttempts: number;
+}): Promise<ReleaseAssetSummary> {
+  const { backend, releaseId, name, contentType, content, maxAttempts } = params;
+  return retry(async () => {
+    const currentAssets = await backend.listAssets(releaseId);
+    const staleAsset = currentAssets.find((asset) => asset.name === name);
+    if (staleAsset) {
+      await backend.deleteAsset(releaseId, staleAsset);
+      core.info(`Replaced existing release asset "${name}".`);
+    }
+    return backend.uploadAsset(releaseId, name, { data: content, contentType });
+  }, maxAttempts, 600, (attempt, error) => {
+    core.warning(
+      `${name} upload attempt ${attempt}/${maxAttempts} failed: ${(error as Error).message}`,
+    );
+  });
+}
+
+/**
+ * Create/update `SHA256SUMS` (and `SHA512SUMS` when requested) on the release.
+ *
+ * Entries from an existing checksum asset are kept when their asset is still attached to the
+ * release, so parallel matrix jobs accumulate one combined file.
+ */
+export async function uploadChecksumFiles(params: {
+  backend: ReleaseBackend;
+  releaseId: string;
+  uploadedAssets: UploadedReleaseAsset[];
+  // Delta patches uploaded by this run.
+  deltaPatches?: DeltaPatch[];
+  includeSha512?: boolean;
+  retryAttempts?: number;
+}): Promise<void> {
+  const {
+    backend,
+    releaseId,
+    uploadedAssets,
+    deltaPatches = [],
+    includeSha512 = false,
+    retryAttempts = 0,
+  } = params;
+
+  const releaseAssets = await backend.listAssets(releaseId);
+  const releaseAssetByName = new Map(releaseAssets.map((asset) => [asset.name, asset]));
+  const uploadedChecksums = [
+    ...collectUploadedChecksums(uploadedAssets),
+    ...deltaPatches.map((patch) => patch.checksum),
+  ];
   const maxAttempts = Math.max(2, Math.trunc(retryAttempts) + 1);
-  await retry(async () => {
-    const currentAssets = await listReleaseAssets(octokit, owner, repo, releaseId);
-    const staleUpdaterAsset = currentAssets.find((asset) => isUpdaterJsonAssetName(asset.name));
-    if (staleUpdaterAsset) {
+
+  const algorithms: ChecksumAlgorithm[] = includeSha512 ? ['sha256', 'sha512'] : ['sha256'];
+  for (const algorithm of algorithms) {
+    const assetName = CHECKSUM_ASSET_NAMES[algorithm];
+    const entries = new Map<string, string>();
+
+    const existingAsset = releaseAssetByName.get(assetName);
+    if (existingAsset) {
       try {
-        await octokit.rest.repos.deleteReleaseAsset({
-          owner,
-          repo,
-          asset_id: staleUpdaterAsset.id,
-        });
-        core.info(`Replaced existing updater JSON asset "${UPDATER_JSON_ASSET_NAME}".`);
-      } catch (error) {
-        const status = (error as { status?: number }).status;
-        if (status !== 404) {
-          throw error;
+        const existingText = await backend.downloadAssetText(releaseId, existingAsset);
+        for (const [name, digest] of parseChecksumFile(existingText)) {
+          if (releaseAssetByName.has(name) && !isChecksumAssetName(name)) {
+            entries.set(name, digest);
+          }
         }
+      } catch (error) {
+        core.warning(`Failed to parse existing ${assetName}: ${(error as Error).message}`);
       }
     }
 
-    try {
-      await octokit.rest.repos.uploadReleaseAsset({
-        owner,
-        repo,
-        release_id: releaseId,
-        name: UPDATER_JSON_ASSET_NAME,
-        data: encoded as unknown as string,
-        headers: {
-          'content-type': 'application/json',
-          'content-length': encoded.byteLength,
-        },
-      });
-    } catch (error) {
-      const status = (error as { status?: number }).status;
-      if (status === 422) {
-        throw new Error('latest.json upload conflict, retrying...');
+    for (const checksum of uploadedChecksums) {
+      const digest = checksum[algorithm];
+      if (digest) {
+        entries.set(checksum.name, digest);
       }
-      throw error;
     }
-  }, maxAttempts, 600, (attempt, error) => {
-    core.warning(
-      `latest.json upload attempt ${attempt}/${maxAttempts} failed: ${(error as Error).message}`,
-    );
+    if (entries.size === 0) {
+      continue;
+    }
+
+    await replaceGeneratedReleaseAsset({
+      backend,
+      releaseId,
+      name: assetName,
+      contentType: 'text/plain',
+      content: Buffer.from(renderChecksumFile(entries), 'utf8'),
+      maxAttempts,
+    });
+    core.info(`Uploaded checksum asset "${assetName}" with ${entries.size} entry(ies).`);
+  }
+}
+
+/**
+ * Attach a job's `makepad-artifacts.json` to the release under `assetName`.
+ */
+export async function uploadArtifactManifest(params: {
+  backend: ReleaseBackend;
+  releaseId: string;
+  assetName: string;
+  manifest: ArtifactManifest;
+  retryAttempts?: number;
+}): Promise<void> {
+  const { backend, releaseId, assetName, manifest, retryAttempts = 0 } = params;
+  await replaceGeneratedReleaseAsset({
+    backend,
+    releaseId,
+    name: assetName,
+    contentType: 'application/json',
+    content: Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, 'utf8'),
+    maxAttempts: Math.max(2, Math.trunc(retryAttempts) + 1),
   });
+  core.info(`Uploaded artifact manifest "${assetName}".`);
+}
 
-  core.info(
-    `Uploaded updater JSON asset "${UPDATER_JSON_ASSET_NAME}" with ${Object.keys(platforms).length} platform entry(ies).`,
-  );
+/**
+ * Compare the platforms of a release's assets with `expectedPlatforms` (`<platform>-<arch>` keys).
+ * Platform and arch are inferred from asset names, which the default asset naming always includes;
+ * generated files (updater JSON, signatures, patches, checksums, manifests) are ignored.
+ */
+export async function checkExpectedPlatforms(params: {
+  backend: ReleaseBackend;
+  releaseId: string;
+  expectedPlatforms: string[];
+}): Promise<{ present: string[]; missing: string[] }> {
+  const { backend, releaseId, expectedPlatforms } = params;
+  const present = new Set<string>();
+  for (const asset of await backend.listAssets(releaseId)) {
+    const name = asset.name;
+    if (
+      isUpdaterJsonFileName(name) ||
+      isSignatureAssetName(name) ||
+      isDeltaPatchAssetName(name) ||
+      isChecksumAssetName(name) ||
+      name.toLowerCase().endsWith('.json')
+    ) {
+      continue;
+    }
+    const platform = inferPlatformFromAssetName(name, inferUpdaterFormat(name));
+    const arch = inferArchFromAssetName(name);
+    if (platform && arch) {
+      present.add(platformKey(platform, arch));
+    }
+  }
+  return {
+    present: Array.from(present).sort(),
+    missing: findMissingPlatforms(expectedPlatforms, present),
+  };
 }
@@ -0,0 +1,184 @@
+import * as core from '@actions/core';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { trimToString } from '../utils';
+
+export type ReleaseNotesSource = 'changelog' | 'commits' | 'auto';
+
+const RELEASE_NOTES_SOURCES: readonly ReleaseNotesSource[] = ['changelog', 'commits', 'auto'];
+
+export const DEFAULT_CHANGELOG_PATH = 'CHANGELOG.md';
+
+/**
+ * Parse `release_notes`; returns undefined when notes should not be generated.
+ */
+export function parseReleaseNotesSource(value?: string): ReleaseNotesSource | undefined {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (!normalized || normalized === 'none' || normalized === 'false') {
+    return undefined;
+  }
+  if (!RELEASE_NOTES_SOURCES.includes(normalized as ReleaseNotesSource)) {
+    throw new Error(
+      `Unsupported release_notes "${value}". Expected one of: none, ${RELEASE_NOTES_SOURCES.join(', ')}.`,
+    );
+  }
+  return normalized as ReleaseNotesSource;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Body of the `## [<version>]` section of a Keep a Changelog file (headings like
+ * `## [1.2.0] - 2024-05-01`, `## v1.2.0` or `## 1.2.0`), without trailing link definitions.
+ */
+export function extractChangelogSection(text: string, version: string): string | undefined {
+  const bare = version.replace(/^v/, '');
+  const heading = new RegExp(`^##\\s+\\[?v?${escapeRegExp(bare)}\\]?(?:\\s|$)`);
+  const lines = text.split(/\r?\n/);
+  const start = lines.findIndex((line) => heading.test(line));
+  if (start < 0) {
+    return undefined;
+  }
+
+  const section: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^##\s/.test(line)) break;
+    section.push(line);
+  }
+  while (section.length > 0 && /^\s*(\[[^\]]+\]:\s*\S+.*)?$/.test(section[section.length - 1])) {
+    section.pop();
+  }
+  return trimToString(section.join('\n')) || undefined;
+}
+
+type ConventionalCommit = {
+  hash: string;
+  type: string;
+  scope?: string;
+  description: string;
+  breaking: boolean;
+};
+
+const COMMIT_GROUPS: { title: string; types: string[] }[] = [
+  { title: 'Features', types: ['feat'] },
+  { title: 'Bug Fixes', types: ['fix'] },
+  { title: 'Performance Improvements', types: ['perf'] },
+  { title: 'Reverts', types: ['revert'] },
+  { title: 'Documentation', types: ['docs'] },
+];
+
+// Housekeeping types that are left out of release notes unless they are breaking.
+const HIDDEN_COMMIT_TYPES = new Set(['chore', 'ci', 'build', 'test', 'style', 'refactor']);
+
+const CONVENTIONAL_SUBJECT = /^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/;
+
+function parseCommit(hash: string, subject: string, body: string): ConventionalCommit {
+  const match = CONVENTIONAL_SUBJECT.exec(subject);
+  if (!match) {
+    return { hash, type: '', description: subject, breaking: false };
+  }
+  return {
+    hash,
+    type: match[1].toLowerCase(),
+    scope: match[2],
+    description: match[4],
+    breaking: Boolean(match[3]) || /^BREAKING[ -]CHANGE:/m.test(body),
+  };
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+function findPreviousTag(cwd: string, ref: string): string | undefined {
+  try {
+    return git(cwd, ['describe', '--tags', '--abbrev=0', `${ref}^`]) || undefined;
+  } catch {
+    // No tag before `ref` (or `ref` is the root commit).
+    return undefined;
+  }
+}
+
+/**
+ * Group the conventional commits between the previous tag and `ref` (local `git log`).
+ * Commits that do not follow the convention are listed under "Other Changes".
+ */
+export function buildCommitNotes(cwd: string, ref: string): string | undefined {
+  if (git(cwd, ['rev-parse', '--is-shallow-repository']) === 'true') {
+    core.warning('The repository is a shallow clone; commit-based release notes may be incomplete (use fetch-depth: 0).');
+  }
+  const previousTag = findPreviousTag(cwd, ref);
+  const range = previousTag ? `${previousTag}..${ref}` : ref;
+  core.info(`Building release notes from commits in ${range}.`);
+
+  const log = git(cwd, ['log', '--no-merges', '--format=%H%x1f%s%x1f%b%x1e', range]);
+  const commits = log
+    .split('\x1e')
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, subject, body = ''] = record.split('\x1f');
+      return parseCommit(hash, subject, body);
+    });
+
+  const format = (commit: ConventionalCommit) =>
+    `- ${commit.scope ? `**${commit.scope}:** ` : ''}${commit.description} (${commit.hash.slice(0, 7)})`;
+  const sections: string[] = [];
+  const breaking = commits.filter((commit) => commit.breaking);
+  if (breaking.length > 0) {
+    sections.push(['### Breaking Changes', ...breaking.map(format)].join('\n'));
+  }
+  for (const group of COMMIT_GROUPS) {
+    const items = commits.filter((commit) => group.types.includes(commit.type) && !commit.breaking);
+    if (items.length > 0) {
+      sections.push([`### ${group.title}`, ...items.map(format)].join('\n'));
+    }
+  }
+  const known = new Set([...COMMIT_GROUPS.flatMap((group) => group.types), ...HIDDEN_COMMIT_TYPES]);
+  const other = commits.filter((commit) => !commit.breaking && !known.has(commit.type));
+  if (other.length > 0) {
+    sections.push(['### Other Changes', ...other.map(format)].join('\n'));
+  }
+  return sections.length > 0 ? sections.join('\n\n') : undefined;
+}
+
+/**
+ * Generate release notes for `version` from the changelog section or, with `auto`, from
+ * commits when the changelog has no section for it. Returns undefined when nothing was found.
+ */
+export function generateReleaseNotes(params: {
+  source: ReleaseNotesSource;
+  projectPath: string;
+  changelogPath?: string;
+  version?: string;
+  ref?: string;
+}): string | undefined {
+  const { source, projectPath, version } = params;
+
+  if (source !== 'commits') {
+    const changelogPath = resolve(projectPath, params.changelogPath || DEFAULT_CHANGELOG_PATH);
+    const section = version && existsSync(changelogPath)
+      ? extractChangelogSection(readFileSync(changelogPath, 'utf8'), version)
+      : undefined;
+    if (section) {
+      core.info(`Using release notes from ${changelogPath} (${version}).`);
+      return section;
+    }
+    const reason = `No "${version ?? '(unknown version)'}" section found in ${changelogPath}`;
+    if (source === 'changelog') {
+      core.warning(`${reason}; release notes were not generated.`);
+      return undefined;
+    }
+    core.info(`${reason}; falling back to commits.`);
+  }
+
+  try {
+    return buildCommitNotes(projectPath, trimToString(params.ref) || 'HEAD');
+  } catch (error) {
+    core.warning(`Failed to build release notes from git history: ${(error as Error).message}`);
+    return undefined;
+  }
+}
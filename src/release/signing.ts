@@ -0,0 +1,199 @@
+import { createHash, createPrivateKey, createPublicKey, scrypt, sign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { createReadStream, existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+
+/**
+ * Decoded minisign secret key, ready to produce updater signatures.
+ */
+export type UpdaterSigningKey = {
+  keyId: Buffer;
+  privateKey: KeyObject;
+};
+
+// Layout of a minisign secret key blob (all sizes in bytes).
+const SIGNATURE_ALGORITHM = 'Ed';
+const PREHASHED_SIGNATURE_ALGORITHM = 'ED';
+const KDF_ALGORITHM = 'Sc';
+const CHECKSUM_ALGORITHM = 'B2';
+const SALT_BYTES = 32;
+const KEY_ID_BYTES = 8;
+const SECRET_KEY_BYTES = 64;
+const CHECKSUM_BYTES = 32;
+const KEYNUM_SK_BYTES = KEY_ID_BYTES + SECRET_KEY_BYTES + CHECKSUM_BYTES;
+const SECRET_KEY_BLOB_BYTES = 2 + 2 + 2 + SALT_BYTES + 8 + 8 + KEYNUM_SK_BYTES;
+
+// DER prefix turning a raw 32-byte Ed25519 seed into a PKCS#8 private key.
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/**
+ * Load a minisign secret key, as produced by `minisign -G`, `cargo packager signer generate`
+ * or `tauri signer generate`. Accepts the key file text, the base64-wrapped form used by
+ * cargo-packager/Tauri, or a path to either.
+ */
+export async function loadUpdaterSigningKey(
+  value: string,
+  password?: string,
+): Promise<UpdaterSigningKey> {
+  const text = readKeyText(value);
+  const blob = Buffer.from(extractKeyPayload(text), 'base64');
+  if (blob.length !== SECRET_KEY_BLOB_BYTES) {
+    throw new Error(`Updater signing key has an unexpected length (${blob.length} bytes); expected a minisign secret key.`);
+  }
+
+  const signatureAlgorithm = blob.subarray(0, 2).toString('latin1');
+  const kdfAlgorithm = blob.subarray(2, 4);
+  const checksumAlgorithm = blob.subarray(4, 6).toString('latin1');
+  if (signatureAlgorithm !== SIGNATURE_ALGORITHM || checksumAlgorithm !== CHECKSUM_ALGORITHM) {
+    throw new Error('Updater signing key is not a minisign Ed25519 secret key.');
+  }
+
+  let offset = 6;
+  const salt = blob.subarray(offset, offset + SALT_BYTES);
+  offset += SALT_BYTES;
+  const opsLimit = blob.readBigUInt64LE(offset);
+  offset += 8;
+  const memLimit = blob.readBigUInt64LE(offset);
+  offset += 8;
+  const keynumSk = Buffer.from(blob.subarray(offset, offset + KEYNUM_SK_BYTES));
+
+  if (kdfAlgorithm.toString('latin1') === KDF_ALGORITHM) {
+    const stream = await deriveScryptKeystream(password ?? '', salt, opsLimit, memLimit);
+    for (let i = 0; i < keynumSk.length; i++) {
+      keynumSk[i] ^= stream[i];
+    }
+  } else if (kdfAlgorithm.readUInt16LE(0) !== 0) {
+    throw new Error('Updater signing key uses an unsupported key derivation algorithm.');
+  }
+
+  const keyId = keynumSk.subarray(0, KEY_ID_BYTES);
+  const secretKey = keynumSk.subarray(KEY_ID_BYTES, KEY_ID_BYTES + SECRET_KEY_BYTES);
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, secretKey.subarray(0, 32)]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+
+  // The second half of a libsodium secret key is the public key; a wrong password yields garbage here.
+  const derivedPublicKey = Buffer.from(
+    createPublicKey(privateKey).export({ format: 'jwk' }).x as string,
+    'base64url',
+  );
+  if (!derivedPublicKey.equals(secretKey.subarray(32))) {
+    throw new Error('Failed to decrypt the updater signing key; check the key password.');
+  }
+
+  return { keyId: Buffer.from(keyId), privateKey };
+}
+
+/**
+ * Sign a file and write the companion `<file>.sig` next to it.
+ *
+ * The signature is a prehashed minisign signature (BLAKE2b-512 + Ed25519), base64-wrapped
+ * the same way cargo-packager and Tauri updaters expect it in `latest.json`.
+ */
+export async function writeUpdaterSignature(filePath: string, key: UpdaterSigningKey): Promise<string> {
+  const digest = await blake2b512File(filePath);
+  const signature = sign(null, digest, key.privateKey);
+
+  const trustedComment = `timestamp:${Math.floor(Date.now() / 1000)}\tfile:${basename(filePath)}`;
+  const globalSignature = sign(
+    null,
+    Buffer.concat([signature, Buffer.from(trustedComment, 'utf8')]),
+    key.privateKey,
+  );
+
+  const signatureBox = [
+    'untrusted comment: signature from makepad-packaging-action secret key',
+    Buffer.concat([Buffer.from(PREHASHED_SIGNATURE_ALGORITHM, 'latin1'), key.keyId, signature]).toString('base64'),
+    `trusted comment: ${trustedComment}`,
+    globalSignature.toString('base64'),
+    '',
+  ].join('\n');
+
+  const signaturePath = `${filePath}.sig`;
+  writeFileSync(signaturePath, Buffer.from(signatureBox, 'utf8').toString('base64'));
+  return signaturePath;
+}
+
+function readKeyText(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed.includes('\n') && existsSync(trimmed) && statSync(trimmed).isFile()) {
+    return readKeyText(readFileSync(trimmed, 'utf8'));
+  }
+  if (trimmed.startsWith('untrusted comment:')) {
+    return trimmed;
+  }
+
+  const decoded = Buffer.from(trimmed.replace(/\s+/g, ''), 'base64').toString('utf8').trim();
+  if (decoded.startsWith('untrusted comment:')) {
+    return decoded;
+  }
+  // A bare base64 key payload without the comment line.
+  return trimmed;
+}
+
+function extractKeyPayload(text: string): string {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const payload = lines.find((line) => !line.startsWith('untrusted comment:'));
+  if (!payload) {
+    throw new Error('Updater signing key is empty.');
+  }
+  return payload;
+}
+
+/**
+ * Derive the minisign key-encryption stream with libsodium's `crypto_pwhash_scryptsalsa208sha256`
+ * parameter selection for the stored opslimit/memlimit.
+ */
+async function deriveScryptKeystream(
+  password: string,
+  salt: Buffer,
+  opsLimit: bigint,
+  memLimit: bigint,
+): Promise<Buffer> {
+  const r = 8;
+  const ops = opsLimit < 32768n ? 32768n : opsLimit;
+  let nLog2 = 1;
+  let p = 1;
+
+  if (ops < memLimit / 32n) {
+    const maxN = ops / BigInt(r * 4);
+    for (nLog2 = 1; nLog2 < 63; nLog2++) {
+      if ((1n << BigInt(nLog2)) > maxN / 2n) break;
+    }
+  } else {
+    const maxN = memLimit / BigInt(r * 128);
+    for (nLog2 = 1; nLog2 < 63; nLog2++) {
+      if ((1n << BigInt(nLog2)) > maxN / 2n) break;
+    }
+    let maxRp = (ops / 4n) / (1n << BigInt(nLog2));
+    if (maxRp > 0x3fffffffn) {
+      maxRp = 0x3fffffffn;
+    }
+    p = Number(maxRp / BigInt(r));
+  }
+
+  const N = 2 ** nLog2;
+  const maxmem = 256 * N * r * p + 1024 * 1024;
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEYNUM_SK_BYTES, { N, r, p, maxmem }, (error, derived) => {
+      if (error) {
+        reject(new Error(`Failed to derive the updater signing key: ${error.message}`));
+        return;
+      }
+      resolve(derived);
+    });
+  });
+}
+
+async function blake2b512File(filePath: string): Promise<Buffer> {
+  const hash = createHash('blake2b512');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest();
+}
@@ -0,0 +1,56 @@
+import type { TargetArch, TargetPlatform } from '../types';
+
+const PLATFORM_KEY_NAMES: Record<string, string> = {
+  windows: 'windows',
+  linux: 'linux',
+  darwin: 'darwin',
+  macos: 'darwin',
+  android: 'android',
+  ios: 'ios',
+  web: 'web',
+};
+
+const TARGET_ARCHES: readonly TargetArch[] = ['x86_64', 'aarch64', 'armv7', 'i686', 'wasm32', 'universal'];
+
+/**
+ * `<platform>-<arch>` key of a build target, named like updater JSON platforms
+ * (`darwin` for macOS), e.g. `linux-x86_64` or `darwin-aarch64`.
+ */
+export function platformKey(platform: TargetPlatform, arch: TargetArch): string {
+  return `${PLATFORM_KEY_NAMES[platform]}-${arch}`;
+}
+
+/**
+ * Parse `expected_platforms` (`linux-x86_64,darwin-aarch64,...`); `macos-*` is accepted for `darwin-*`.
+ * Returns undefined when unset.
+ */
+export function parseExpectedPlatforms(value?: string | string[]): string[] | undefined {
+  const items = (Array.isArray(value) ? value : (value ?? '').split(','))
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+  if (items.length === 0) {
+    return undefined;
+  }
+
+  const keys = new Set<string>();
+  for (const item of items) {
+    const separator = item.indexOf('-');
+    const platform = PLATFORM_KEY_NAMES[item.slice(0, separator)];
+    const arch = item.slice(separator + 1) as TargetArch;
+    if (separator < 0 || !platform || !TARGET_ARCHES.includes(arch)) {
+      throw new Error(
+        `Invalid expected_platforms entry "${item}". Use <platform>-<arch>, e.g. linux-x86_64 or darwin-aarch64.`,
+      );
+    }
+    keys.add(`${platform}-${arch}`);
+  }
+  return Array.from(keys);
+}
+
+/**
+ * Expected keys that are not in `present`, in the order they were configured.
+ */
+export function findMissingPlatforms(expected: string[], present: Iterable<string>): string[] {
+  const found = new Set(present);
+  return expected.filter((key) => !found.has(key));
+}
@@ -0,0 +1,176 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import type { UpdaterJsonReport } from './release';
+import type { SkippedTarget } from './targets';
+import type { ArtifactManifest } from './types';
+
+export type RunReport = {
+  manifest: ArtifactManifest;
+  updater: UpdaterJsonReport[];
+  // Set when `expected_platforms` was checked against the release.
+  missing_platforms?: string[];
+  // Triples of `targets` this host cannot build.
+  skipped_targets?: SkippedTarget[];
+  phases: { name: string; duration_ms: number }[];
+};
+
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// Keeps file names with `|` from breaking table rows.
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * Markdown report of a run: artifacts with size, checksum and download link, the release,
+ * the updater JSON entries that were written or skipped, and timing per phase.
+ */
+export function renderRunReport(report: RunReport): string {
+  const { manifest } = report;
+  const title = [manifest.app.name, manifest.app.version].filter(Boolean).join(' ') || 'Makepad build';
+  const lines = [`## 📦 ${title}`, ''];
+
+  if (manifest.release) {
+    const { backend, tag, url, id } = manifest.release;
+    const name = tag ?? `id=${id}`;
+    lines.push(`**Release:** ${url ? `[${name}](${url})` : name} (${backend})`, '');
+  }
+  if (report.missing_platforms) {
+    lines.push(report.missing_platforms.length > 0
+      ? `**Missing platforms:** ${report.missing_platforms.join(', ')}`
+      : '**All expected platforms are present.**', '');
+  }
+
+  if (report.skipped_targets?.length) {
+    lines.push('**Skipped targets:**', '');
+    for (const skipped of report.skipped_targets) {
+      lines.push(`- ⏭️ \`${skipped.triple}\`: ${skipped.reason}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('### Artifacts', '');
+  if (manifest.artifacts.length === 0) {
+    lines.push('No artifacts were built.', '');
+  } else {
+    // Multi-app runs (`apps`) tag each artifact with its app, flavored runs with its flavor.
+    const with_app = manifest.artifacts.some((artifact) => artifact.app);
+    const with_flavor = manifest.artifacts.some((artifact) => artifact.flavor);
+    const headers = [
+      ...(with_app ? ['App'] : []),
+      ...(with_flavor ? ['Flavor'] : []),
+      'Platform', 'Arch', 'Mode', 'File', 'Size', 'SHA-256', 'Download',
+    ];
+    lines.push(`| ${headers.join(' | ')} |`, `| ${headers.map(() => '---').join(' | ')} |`);
+    for (const artifact of manifest.artifacts) {
+      const name = artifact.asset_name ?? artifact.file_name;
+      lines.push(`| ${[
+        ...(with_app ? [artifact.app ?? '—'] : []),
+        ...(with_flavor ? [artifact.flavor ?? '—'] : []),
+        artifact.platform,
+        artifact.arch,
+        artifact.profile ? `${artifact.mode} (${artifact.profile})` : artifact.mode,
+        `\`${cell(name)}\``,
+        artifact.size !== undefined ? formatSize(artifact.size) : '—',
+        artifact.sha256 ? `\`${artifact.sha256.slice(0, 12)}\`` : '—',
+        artifact.download_url ? `[download](${artifact.download_url})` : '—',
+      ].join(' | ')} |`);
+    }
+    lines.push('');
+  }
+
+  for (const updater of report.updater) {
+    lines.push(`### Updater JSON (${updater.target})`, '');
+    lines.push(updater.files.length > 0
+      ? `Wrote ${updater.files.map((file) => `\`${file}\``).join(', ')}.`
+      : `Not written: ${updater.note ?? 'nothing to write'}.`);
+    for (const entry of updater.entries) {
+      lines.push(`- ✅ \`${entry.platform}\` ← \`${entry.asset_name}\``);
+    }
+    for (const skipped of updater.skipped) {
+      lines.push(`- ⏭️ \`${skipped.asset_name}\` skipped: ${skipped.reason}`);
+    }
+    lines.push('');
+  }
+
+  if (report.phases.length > 0) {
+    lines.push('### Timing', '', '| Phase | Duration |', '| --- | --- |');
+    for (const phase of report.phases) {
+      lines.push(`| ${phase.name} | ${formatDuration(phase.duration_ms)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Append the report to the job summary. Outside GitHub Actions (CLI) there is no summary file.
+ */
+export async function writeJobSummary(markdown: string): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    core.info('GITHUB_STEP_SUMMARY is not set; skipping the job summary.');
+    return;
+  }
+  await core.summary.addRaw(markdown, true).write();
+}
+
+/**
+ * Post the report as a pull request comment, updating the comment of an earlier run with the same
+ * `key` (one per app and target, so matrix jobs each keep their own comment).
+ * Failures only warn: tokens of pull requests from forks cannot write comments.
+ */
+export async function postPullRequestComment(params: {
+  markdown: string;
+  key: string;
+  token: string;
+  githubBaseUrl?: string;
+}): Promise<void> {
+  const { markdown, key, token, githubBaseUrl } = params;
+  const pull_number = github.context.payload.pull_request?.number;
+  if (!pull_number) {
+    core.info('pr_comment is enabled, but this run is not for a pull request; skipping the comment.');
+    return;
+  }
+  if (!token) {
+    core.warning('pr_comment needs GITHUB_TOKEN (or the github_token input); skipping the comment.');
+    return;
+  }
+
+  const marker = `<!-- makepad-packaging-action:${key} -->`;
+  const body = `${marker}\n${markdown}`;
+  const { owner, repo } = github.context.repo;
+  const octokit = githubBaseUrl ? github.getOctokit(token, { baseUrl: githubBaseUrl }) : github.getOctokit(token);
+  try {
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: pull_number,
+      per_page: 100,
+    });
+    const existing = comments.find((comment) => comment.body?.startsWith(marker));
+    if (existing) {
+      await octokit.rest.issues.updateComment({ owner, repo, comment_id: existing.id, body });
+      core.info(`Updated report comment on pull request #${pull_number}.`);
+    } else {
+      await octokit.rest.issues.createComment({ owner, repo, issue_number: pull_number, body });
+      core.info(`Posted report comment on pull request #${pull_number}.`);
+    }
+  } catch (error) {
+    core.warning(`Failed to post the report on pull request #${pull_number}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,110 @@
+import * as core from '@actions/core';
+import { execFileSync } from 'node:child_process';
+import type { AndroidABI, Artifact, BuildOptions, TargetInfo, TargetPlatform } from './types';
+import { execCommand, getTargetInfo, isCommandAvailable, tripleTargetPlatform } from './utils';
+
+/**
+ * One triple of the `targets` input that builds on this host.
+ */
+export interface BuildTarget {
+  triple: string;
+  target_info: TargetInfo;
+  // The host triple itself: desktop builds then run without `--target`, as on a native runner.
+  native: boolean;
+}
+
+export interface SkippedTarget {
+  triple: string;
+  reason: string;
+}
+
+// Hosts each platform builds on (see "Platform-specific considerations" in the README);
+// Android and web build anywhere.
+const BUILD_HOSTS: Partial<Record<TargetPlatform, TargetPlatform[]>> = {
+  linux: ['linux'],
+  windows: ['windows'],
+  macos: ['macos'],
+  ios: ['macos'],
+};
+
+function readHostTriple(): string | undefined {
+  try {
+    const output = execFileSync('rustc', ['-vV'], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'], timeout: 30_000 });
+    return /^host:\s*(\S+)/m.exec(output)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split the `targets` input into the triples this host builds and the ones it skips, with the reason.
+ * Unknown or unsupported triples fail instead of being skipped, since they fail on every host.
+ */
+export function resolveBuildTargets(triples: string[]): { targets: BuildTarget[]; skipped: SkippedTarget[] } {
+  const host = getTargetInfo();
+  const host_triple = readHostTriple();
+  const targets: BuildTarget[] = [];
+  const skipped: SkippedTarget[] = [];
+
+  for (const triple of Array.from(new Set(triples))) {
+    const platform = tripleTargetPlatform(triple);
+    if (!platform) {
+      throw new Error(`Unsupported target "${triple}" in targets. Use a Rust target triple, e.g. x86_64-unknown-linux-gnu.`);
+    }
+    const hosts = BUILD_HOSTS[platform];
+    if (hosts && !hosts.includes(host.target_platform)) {
+      skipped.push({ triple, reason: `${platform} targets only build on ${hosts.join('/')} hosts; this host is ${host.target_platform}` });
+      continue;
+    }
+    const target_info = getTargetInfo(triple);
+    const native = host_triple
+      ? triple === host_triple
+      : target_info.type === 'desktop' && target_info.arch === host.arch;
+    targets.push({ triple, target_info, native });
+  }
+
+  return { targets, skipped };
+}
+
+/**
+ * Build options of one target: `--target <triple>` in `args`, the triple's ABI for Android and
+ * simulator builds for `*-apple-ios-sim` and `x86_64-apple-ios`.
+ */
+export function targetBuildOptions(buildOptions: BuildOptions, target: BuildTarget): BuildOptions {
+  const { triple, target_info } = target;
+  return {
+    ...buildOptions,
+    args: target.native ? buildOptions.args : [...(buildOptions.args ?? []), '--target', triple],
+    ...(target_info.target_platform === 'android' ? { android_abi: target_info.arch as AndroidABI } : {}),
+    ...(target_info.target_platform === 'ios'
+      ? { ios_sim: triple.endsWith('-sim') || triple === 'x86_64-apple-ios' }
+      : {}),
+  };
+}
+
+export function tagTargetArtifact(target: BuildTarget, artifact: Artifact): Artifact {
+  return { ...artifact, target_triple: target.triple };
+}
+
+/**
+ * Add the Rust targets rustup does not have yet. Without rustup the build tools install them
+ * (cargo-makepad) or the build reports the missing target.
+ */
+export async function installRustTargets(triples: string[]): Promise<void> {
+  if (triples.length === 0) {
+    return;
+  }
+  if (!isCommandAvailable('rustup').installed) {
+    core.warning(`rustup not found; make sure the Rust targets ${triples.join(', ')} are installed.`);
+    return;
+  }
+  const { output } = await execCommand('rustup', ['target', 'list', '--installed'], { captureOutput: true });
+  const installed = new Set(output.split('\n').map((line) => line.trim()).filter(Boolean));
+  const missing = triples.filter((triple) => !installed.has(triple));
+  if (missing.length === 0) {
+    core.info(`Rust targets already installed: ${triples.join(', ')}`);
+    return;
+  }
+  core.info(`Installing Rust targets: ${missing.join(', ')}`);
+  await execCommand('rustup', ['target', 'add', ...missing]);
+}
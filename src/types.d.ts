@@ -9,18 +9,31 @@ export interface BuildOptions {
   args: string[] | null;
   target_info?: TargetInfo;
   mode?: 'debug' | 'release';
+  // Custom cargo profile of release-mode builds (e.g. `small`, `dist`); unset builds with `--release`.
+  profile?: string;
+  // Cargo features enabled for the build, from the flavor.
+  features?: string[];
   app_name?: string;
   app_version?: string;
   identifier?: string;
   main_binary_name?: string;
+  // Cargo package cargo-makepad builds (`-p`); its output directories are named after it.
+  package_name?: string;
   packager_args?: string[];
   packager_formats?: string[];
   mobile_cargo_extra_args?: string[];
   android_cargo_extra_args?: string[];
   ios_cargo_extra_args?: string[];
-  android_abi?: AndroidABI;
+  web_cargo_extra_args?: string[];
+  android_abi?: AndroidABI | AndroidABI[];
+  android_universal_apk?: boolean;
+  android_package_format?: AndroidPackageFormat;
   android_full_ndk?: boolean;
   android_variant?: AndroidVariant;
+  android_keystore_base64?: string;
+  android_keystore_password?: string;
+  android_key_alias?: string;
+  android_key_password?: string;
   ios_org?: string;
   ios_app?: string;
   ios_profile?: string;
@@ -52,15 +65,58 @@ export interface Artifact {
   version: string;
   platform: TargetPlatform;
   arch: TargetArch;
+  // Package name of the app the artifact belongs to; only set when `apps` packages several apps.
+  app?: string;
+  // Build flavor (`[flavors.<name>]`) the artifact was built for.
+  flavor?: string;
+  // Custom cargo profile the artifact was built with; unset for the default `release` and `dev` profiles.
+  profile?: string;
+  // Triple the artifact was built for; set by builds of several `targets`, derived for the manifest otherwise.
+  target_triple?: string;
+}
+
+// Entry of the `artifacts` action output: the artifact plus its digests and uploaded asset name.
+export interface ArtifactOutput extends Artifact {
+  asset_name?: string;
+  sha256?: string;
+  sha512?: string;
+}
+
+// Entry of `makepad-artifacts.json`: the `artifacts` output plus packaging and publishing metadata.
+export interface ArtifactManifestEntry extends ArtifactOutput {
+  file_name: string;
+  // cargo-packager format name (deb, rpm, appimage, dmg, app, nsis, wix, ...) or apk/aab/ipa/web.
+  format: string;
+  // Size of the uploaded file (the zip for directory artifacts); absent for unzipped directories.
+  size?: number;
+  download_url?: string;
+  signed: boolean;
+  signature_asset_name?: string;
+  build_duration_ms?: number;
+}
+
+export interface ArtifactManifest {
+  schema_version: number;
+  generated_at: string;
+  app: { name?: string; version?: string; identifier?: string };
+  release?: { backend: string; id?: string; tag?: string; url?: string; update_channel?: string };
+  // e.g. { rustc: 'rustc 1.80.0 (...)', cargo: 'cargo 1.80.0 (...)', 'cargo-packager': '0.11.1' }
+  toolchain: Record<string, string>;
+  builds: { mode: 'debug' | 'release'; duration_ms: number }[];
+  artifacts: ArtifactManifestEntry[];
 }
 
 export type MobileTarget = 'ios' | 'android';
 export type DesktopTarget = 'windows' | 'linux' | 'macos';
-export type TargetPlatform =  MobileTarget | DesktopTarget; // TODO: add 'wasm'
-export type TargetPlatformType = 'desktop' | 'mobile'; // TODO: add 'web'
-export type TargetArch = 'x86_64' | 'aarch64' | 'armv7' | 'i686'; // TODO: add 'wasm32' or experimental 'wasm64'
+export type WebTarget = 'web';
+export type TargetPlatform =  MobileTarget | DesktopTarget | WebTarget;
+export type TargetPlatformType = 'desktop' | 'mobile' | 'web';
+// 'universal' marks a multi-ABI Android APK.
+export type TargetArch = 'x86_64' | 'aarch64' | 'armv7' | 'i686' | 'wasm32' | 'universal'; // TODO: experimental 'wasm64'
 export type AndroidABI = 'all' | 'x86_64' | 'aarch64' | 'armv7' | 'i686';
+export type ConcreteAndroidABI = Exclude<AndroidABI, 'all'>;
 export type AndroidVariant = 'default' | 'quest';
+export type AndroidPackageFormat = 'apk' | 'aab' | 'both';
 
 export interface TargetInfo {
   target_platform: TargetPlatform;
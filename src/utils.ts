@@ -1,9 +1,10 @@
 import os from "os";
 import { execSync, spawn } from "child_process";
-import type { DesktopBuildDependencies, MobileTarget, TargetArch, TargetInfo, TargetPlatform, TargetPlatformType } from "./types";
+import type { BuildOptions, DesktopBuildDependencies, MobileTarget, TargetArch, TargetInfo, TargetPlatform, TargetPlatformType } from "./types";
 import which from 'which';
-import { existsSync, readFileSync } from "fs";
-import { dirname, join, resolve } from "path";
+import { createReadStream, existsSync, readFileSync } from "fs";
+import { createHash } from "crypto";
+import { basename, dirname, join, resolve } from "path";
 import { JsonMap, parse as parseToml } from '@iarna/toml';
 
 /**
@@ -21,18 +22,17 @@ export function getTargetInfo(triple?: string): TargetInfo {
       : (() => { throw new Error(`Unsupported host architecture: ${process.arch}`) })();
 
   if (triple) {
-    if (triple.includes('android')) {
-      target_platform = 'android';
-      type = 'mobile';
-    } else if (triple.includes('ios')) {
-      target_platform = 'ios';
-      type = 'mobile';
-    } else if (triple.includes('windows')) {
-      target_platform = 'windows';
-    } else if (triple.includes('darwin') || triple.includes('macos')) {
-      target_platform = 'macos';
-    } else if (triple.includes('linux')) {
-      target_platform = 'linux';
+    if (triple.startsWith('wasm32') && (triple.includes('wasi') || triple.includes('emscripten'))) {
+      throw new Error(
+        `Unsupported wasm target: ${triple}. Web builds use wasm32-unknown-unknown.`,
+      );
+    }
+    const triple_platform = tripleTargetPlatform(triple);
+    if (triple_platform) {
+      target_platform = triple_platform;
+      type = triple_platform === 'web' ? 'web'
+        : triple_platform === 'android' || triple_platform === 'ios' ? 'mobile'
+        : 'desktop';
     }
 
     if (triple.includes('ohos') || triple.includes('openharmony')) {
@@ -44,7 +44,7 @@ export function getTargetInfo(triple?: string): TargetInfo {
     if (triple.includes('-')) {
       // cargo target triples always start with arch.
       arch = triple.split('-')[0] as TargetArch;
-      const supported_arches: TargetArch[] = ['x86_64', 'aarch64', 'armv7', 'i686'];
+      const supported_arches: TargetArch[] = ['x86_64', 'aarch64', 'armv7', 'i686', 'wasm32'];
       if (!supported_arches.includes(arch)) {
         throw new Error(`Unsupported target architecture: ${arch}`);
       }
@@ -77,6 +77,40 @@ export function getTargetInfo(triple?: string): TargetInfo {
   }
 }
 
+/**
+ * Platform a Rust target triple builds for; undefined when the triple names none this action knows.
+ */
+export function tripleTargetPlatform(triple: string): TargetPlatform | undefined {
+  if (triple.startsWith('wasm32')) return 'web';
+  if (triple.includes('android')) return 'android';
+  if (triple.includes('ios')) return 'ios';
+  if (triple.includes('windows')) return 'windows';
+  if (triple.includes('darwin') || triple.includes('macos')) return 'macos';
+  if (triple.includes('linux')) return 'linux';
+  return undefined;
+}
+
+/**
+ * Cargo flag selecting the build profile: none for debug builds, `--release`, or `--profile=<name>`.
+ */
+export function cargoProfileArgs(buildOptions: Pick<BuildOptions, 'mode' | 'profile'>): string[] {
+  if (buildOptions.mode === 'debug') return [];
+  return buildOptions.profile ? [`--profile=${buildOptions.profile}`] : ['--release'];
+}
+
+/**
+ * Directory cargo writes a profile's output to: `debug`, `release`, or the custom profile name.
+ */
+export function cargoProfileDir(buildOptions: Pick<BuildOptions, 'mode' | 'profile'>): string {
+  if (buildOptions.mode === 'debug') return 'debug';
+  return buildOptions.profile ?? 'release';
+}
+
+export function cargoFeatureArgs(buildOptions: Pick<BuildOptions, 'features'>): string[] {
+  const features = buildOptions.features ?? [];
+  return features.length > 0 ? [`--features=${features.join(',')}`] : [];
+}
+
 export function isCommandAvailable(command: string): { installed: boolean; path?: string } {
   try {
     const cmdPath = which.sync(command);
@@ -138,6 +172,62 @@ export function execCommand(
   });
 }
 
+/**
+ * Zip a directory (including the directory itself as the top-level entry).
+ */
+export async function zipDirectory(sourceDir: string, destZip: string): Promise<void> {
+  if (process.platform === 'win32') {
+    const escapedSource = sourceDir.replace(/'/g, "''");
+    const escapedDest = destZip.replace(/'/g, "''");
+    const command = `Compress-Archive -Path '${escapedSource}' -DestinationPath '${escapedDest}' -Force`;
+    await execCommand('powershell', ['-NoProfile', '-Command', command]);
+    return;
+  }
+
+  await execCommand('zip', ['-r', destZip, basename(sourceDir)], { cwd: dirname(sourceDir) });
+}
+
+/**
+ * Zip the contents of a directory so its entries sit at the archive root.
+ */
+export async function zipDirectoryContents(sourceDir: string, destZip: string): Promise<void> {
+  if (process.platform === 'win32') {
+    const escapedSource = join(sourceDir, '*').replace(/'/g, "''");
+    const escapedDest = destZip.replace(/'/g, "''");
+    const command = `Compress-Archive -Path '${escapedSource}' -DestinationPath '${escapedDest}' -Force`;
+    await execCommand('powershell', ['-NoProfile', '-Command', command]);
+    return;
+  }
+
+  await execCommand('zip', ['-r', '-q', destZip, '.'], { cwd: sourceDir });
+}
+
+/**
+ * Extract a zip archive into a directory.
+ */
+export async function extractZip(archive: string, destDir: string): Promise<void> {
+  if (process.platform === 'win32') {
+    const escapedArchive = archive.replace(/'/g, "''");
+    const escapedDest = destDir.replace(/'/g, "''");
+    const command = `Expand-Archive -Path '${escapedArchive}' -DestinationPath '${escapedDest}' -Force`;
+    await execCommand('powershell', ['-NoProfile', '-Command', command]);
+    return;
+  }
+
+  await execCommand('unzip', ['-q', '-o', archive, '-d', destDir]);
+}
+
+/**
+ * Compute the hex digest of a file by streaming it through the given hash algorithm.
+ */
+export async function hashFile(path: string, algorithm: 'sha256' | 'sha512'): Promise<string> {
+  const hash = createHash(algorithm);
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
 /**
  * Retry a function with fixed delay.
  */
@@ -179,64 +269,6 @@ export function parse_manifest_toml(path: string): JsonMap | null {
   }
 }
 
-function toNonEmptyString(value: unknown): string | undefined {
-  if (typeof value !== 'string') return undefined;
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function isWorkspaceFieldRef(value: unknown): boolean {
-  if (!value || typeof value !== 'object') return false;
-  const obj = value as Record<string, unknown>;
-  return obj.workspace === true;
-}
-
-function resolveWorkspacePackageField(
-  startPath: string,
-  field: 'name' | 'version',
-): string | undefined {
-  let dir = resolve(startPath);
-
-  while (true) {
-    const manifestPath = join(dir, 'Cargo.toml');
-    if (existsSync(manifestPath)) {
-      const manifest = parse_manifest_toml(dir) as Record<string, unknown> | null;
-      const workspace = manifest?.workspace as Record<string, unknown> | undefined;
-      const workspacePackage = workspace?.package as Record<string, unknown> | undefined;
-      const resolvedField = toNonEmptyString(workspacePackage?.[field]);
-      if (resolvedField) {
-        return resolvedField;
-      }
-    }
-
-    const parent = dirname(dir);
-    if (parent === dir) {
-      break;
-    }
-    dir = parent;
-  }
-
-  return undefined;
-}
-
-export function resolveManifestPackageField(
-  path: string,
-  field: 'name' | 'version',
-): string | undefined {
-  const manifest = parse_manifest_toml(path) as Record<string, unknown> | null;
-  const packageTable = manifest?.package as Record<string, unknown> | undefined;
-  const directField = toNonEmptyString(packageTable?.[field]);
-  if (directField) {
-    return directField;
-  }
-
-  if (isWorkspaceFieldRef(packageTable?.[field])) {
-    return resolveWorkspacePackageField(path, field);
-  }
-
-  return undefined;
-}
-
 /**
  * Convert arbitrary input to a trimmed string.
  */
@@ -338,11 +370,88 @@ export function resolveAppStoreConnectApiKey(): string | undefined {
   return direct;
 }
 
+/**
+ * Resolve the Google Play service account JSON from GOOGLE_PLAY_SERVICE_ACCOUNT_JSON_BASE64
+ * or GOOGLE_PLAY_SERVICE_ACCOUNT_JSON (plain JSON, or base64 of it).
+ */
+export function resolveGooglePlayServiceAccountJson(): string | undefined {
+  const explicit_base64 = getEnvValue('GOOGLE_PLAY_SERVICE_ACCOUNT_JSON_BASE64');
+  if (explicit_base64) {
+    const decoded = decodeBase64Utf8(explicit_base64, 'GOOGLE_PLAY_SERVICE_ACCOUNT_JSON_BASE64');
+    if (!decoded.startsWith('{')) {
+      throw new Error('GOOGLE_PLAY_SERVICE_ACCOUNT_JSON_BASE64 did not decode to a JSON document.');
+    }
+    return decoded;
+  }
+
+  const direct = getEnvValue('GOOGLE_PLAY_SERVICE_ACCOUNT_JSON');
+  if (!direct) {
+    return undefined;
+  }
+  if (direct.trim().startsWith('{')) {
+    return direct.trim();
+  }
+
+  const decoded = Buffer.from(direct.replace(/\s+/g, ''), 'base64').toString('utf8').trim();
+  return decoded.startsWith('{') ? decoded : direct;
+}
+
 export function replaceVersion(input: string, version?: string): string {
   if (!version) return input;
   return input.replace(/__VERSION__/g, version);
 }
 
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+};
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse `1.2.3`, `v1.2.3-beta.1` or `1.2.3+build`; returns undefined for anything else.
+ */
+export function parseSemver(version?: string | null): SemVer | undefined {
+  const match = SEMVER_PATTERN.exec(trimToString(version));
+  if (!match) return undefined;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare two versions by semver precedence (build metadata ignored).
+ * Returns undefined when either side is not a valid semver.
+ */
+export function compareSemver(a?: string | null, b?: string | null): number | undefined {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (!left || !right) return undefined;
+
+  const order = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (order !== 0) return Math.sign(order);
+  // A version without prerelease ranks above any of its prereleases.
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return Math.sign(right.prerelease.length - left.prerelease.length);
+  }
+  for (let i = 0; i < Math.min(left.prerelease.length, right.prerelease.length); i += 1) {
+    const x = left.prerelease[i];
+    const y = right.prerelease[i];
+    if (x === y) continue;
+    const xNumeric = /^\d+$/.test(x);
+    const yNumeric = /^\d+$/.test(y);
+    if (xNumeric && yNumeric) return Math.sign(Number(x) - Number(y));
+    if (xNumeric !== yNumeric) return xNumeric ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return Math.sign(left.prerelease.length - right.prerelease.length);
+}
+
 export function normalizeTagName(tagName: string): string {
   const trimmed = trimToString(tagName);
   if (trimmed.startsWith('refs/tags/')) {
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+import { applyBsdiffPatch, createBsdiffPatch } from '../src/release/bsdiff';
+
+// Deterministic pseudo-random bytes (xorshift32), so failures reproduce.
+function randomBytes(size: number, seed: number): Buffer {
+  const data = Buffer.alloc(size);
+  let state = seed >>> 0 || 1;
+  for (let i = 0; i < size; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    data[i] = state & 0xff;
+  }
+  return data;
+}
+
+describe('bsdiff', () => {
+  test('round-trips an edited binary', () => {
+    const oldData = randomBytes(256 * 1024, 7);
+    const newData = Buffer.concat([
+      oldData.subarray(0, 40_000),
+      Buffer.from('inserted section'),
+      oldData.subarray(40_000, 120_000),
+      randomBytes(3000, 11),
+      oldData.subarray(130_000),
+    ]);
+    // Small bytewise changes inside copied regions exercise the add bytes.
+    for (let i = 50_000; i < newData.length; i += 997) {
+      newData[i] = (newData[i] + 1) & 0xff;
+    }
+
+    const patch = createBsdiffPatch(oldData, newData);
+    expect(applyBsdiffPatch(oldData, patch).equals(newData)).toBe(true);
+  });
+
+  test('round-trips unrelated and empty inputs', () => {
+    const oldData = randomBytes(4096, 3);
+    const newData = randomBytes(5000, 5);
+    expect(applyBsdiffPatch(oldData, createBsdiffPatch(oldData, newData)).equals(newData)).toBe(true);
+    expect(applyBsdiffPatch(Buffer.alloc(0), createBsdiffPatch(Buffer.alloc(0), newData)).equals(newData)).toBe(true);
+    expect(applyBsdiffPatch(oldData, createBsdiffPatch(oldData, Buffer.alloc(0))).length).toBe(0);
+  });
+
+  test('rejects a truncated patch', () => {
+    const oldData = randomBytes(4096, 3);
+    const newData = Buffer.concat([oldData, Buffer.from('tail')]);
+    const patch = createBsdiffPatch(oldData, newData);
+    expect(() => applyBsdiffPatch(oldData, patch.subarray(0, patch.length - 2))).toThrow();
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { uploadToGooglePlay } from '../src/builds/mobile/android/googleplay';
+import type { Artifact } from '../src/types';
+import { startHttpStub } from './helpers/http-stub';
+import type { HttpStub, StubRequest, StubResponse } from './helpers/http-stub';
+
+const PACKAGE = 'org.example.app';
+const EDITS_PATH = `/androidpublisher/v3/applications/${PACKAGE}/edits`;
+
+let service_account_json: string;
+let work_dir: string;
+let stub: HttpStub | undefined;
+
+beforeAll(() => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  service_account_json = JSON.stringify({
+    client_email: 'uploader@example.iam.gserviceaccount.com',
+    private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+  });
+  work_dir = mkdtempSync(join(tmpdir(), 'makepad-googleplay-'));
+});
+
+afterEach(async () => {
+  await stub?.close();
+  stub = undefined;
+});
+
+function androidArtifact(file: string, arch: Artifact['arch']): Artifact {
+  const path = join(work_dir, file);
+  writeFileSync(path, `contents of ${file}`);
+  return { path, mode: 'release', version: '1.0.0', platform: 'android', arch };
+}
+
+// Android Publisher stand-in; `fail` makes the matching request answer 500.
+function publisherApi(fail?: (request: StubRequest) => boolean) {
+  let version_code = 100;
+  return (request: StubRequest): StubResponse => {
+    if (fail?.(request)) {
+      return { status: 500, json: { error: { message: 'stub failure' } } };
+    }
+    const { method, url } = request;
+    if (method === 'POST' && url === '/token') {
+      return { json: { access_token: 'stub-token' } };
+    }
+    if (method === 'POST' && url === EDITS_PATH) {
+      return { json: { id: 'edit-1' } };
+    }
+    if (method === 'POST' && url.startsWith(`/upload${EDITS_PATH}/edit-1/`)) {
+      version_code += 1;
+      return { json: { versionCode: version_code } };
+    }
+    if (method === 'PUT' && url === `${EDITS_PATH}/edit-1/tracks/internal`) {
+      return { json: JSON.parse(request.body.toString()) };
+    }
+    if (method === 'POST' && url === `${EDITS_PATH}/edit-1:commit`) {
+      return { json: {} };
+    }
+    if (method === 'DELETE' && url === `${EDITS_PATH}/edit-1`) {
+      return { json: {} };
+    }
+    return { status: 404, json: { error: { message: `unexpected ${method} ${url}` } } };
+  };
+}
+
+function upload(artifacts: Artifact[], url: string) {
+  return uploadToGooglePlay({
+    artifacts,
+    serviceAccountJson: service_account_json,
+    packageName: PACKAGE,
+    track: 'internal',
+    releaseNotes: 'Bug fixes',
+    apiBaseUrl: url,
+    tokenUri: `${url}/token`,
+  });
+}
+
+describe('uploadToGooglePlay', () => {
+  test('inserts an edit, uploads the bundle, assigns the track and commits', async () => {
+    stub = await startHttpStub(publisherApi());
+    const artifacts = [androidArtifact('app.aab', 'aarch64'), androidArtifact('app-universal.apk', 'universal')];
+
+    const result = await upload(artifacts, stub.url);
+
+    expect(result).toEqual({ versionCodes: [101], editId: 'edit-1' });
+    expect(stub.requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'POST /token',
+      `POST ${EDITS_PATH}`,
+      `POST /upload${EDITS_PATH}/edit-1/bundles?uploadType=media`,
+      `PUT ${EDITS_PATH}/edit-1/tracks/internal`,
+      `POST ${EDITS_PATH}/edit-1:commit`,
+    ]);
+    const token_request = new URLSearchParams(stub.requests[0].body.toString());
+    expect(token_request.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    expect(stub.requests[1].headers.authorization).toBe('Bearer stub-token');
+    expect(stub.requests[2].body.toString()).toBe('contents of app.aab');
+    expect(JSON.parse(stub.requests[3].body.toString())).toEqual({
+      track: 'internal',
+      releases: [{
+        versionCodes: ['101'],
+        status: 'completed',
+        releaseNotes: [{ language: 'en-US', text: 'Bug fixes' }],
+      }],
+    });
+  });
+
+  test('uploads every per-ABI APK into one track release', async () => {
+    stub = await startHttpStub(publisherApi());
+    const artifacts = [androidArtifact('app-aarch64.apk', 'aarch64'), androidArtifact('app-armv7.apk', 'armv7')];
+
+    const result = await upload(artifacts, stub.url);
+
+    expect(result.versionCodes).toEqual([101, 102]);
+    const uploads = stub.requests.filter((request) => request.url.startsWith('/upload'));
+    expect(uploads.map((request) => request.url)).toEqual([
+      `/upload${EDITS_PATH}/edit-1/apks?uploadType=media`,
+      `/upload${EDITS_PATH}/edit-1/apks?uploadType=media`,
+    ]);
+    const track = stub.requests.find((request) => request.method === 'PUT');
+    expect(JSON.parse(track!.body.toString()).releases[0].versionCodes).toEqual(['101', '102']);
+  });
+
+  test('deletes the edit when a step fails', async () => {
+    stub = await startHttpStub(publisherApi((request) => request.method === 'PUT'));
+    const artifacts = [androidArtifact('app.aab', 'aarch64')];
+
+    await expect(upload(artifacts, stub.url)).rejects.toThrow('stub failure');
+
+    const calls = stub.requests.map((request) => `${request.method} ${request.url}`);
+    expect(calls).toContain(`DELETE ${EDITS_PATH}/edit-1`);
+    expect(calls).not.toContain(`POST ${EDITS_PATH}/edit-1:commit`);
+  });
+
+  test('fails without an Android package', async () => {
+    await expect(upload([], 'http://127.0.0.1:9')).rejects.toThrow('no Android .aab/.apk artifact was built');
+  });
+});
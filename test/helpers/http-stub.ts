@@ -0,0 +1,67 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  // Path and query, as sent by the client.
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+}
+
+export interface StubResponse {
+  status?: number;
+  json?: unknown;
+  body?: string | Buffer;
+  headers?: Record<string, string>;
+}
+
+export interface HttpStub {
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local HTTP stand-in for the APIs the action talks to. `handler` answers each request; every request
+ * is recorded in `requests` for assertions.
+ */
+export async function startHttpStub(
+  handler: (request: StubRequest, stub: HttpStub) => StubResponse | Promise<StubResponse>,
+): Promise<HttpStub> {
+  const requests: StubRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', async () => {
+      const request: StubRequest = {
+        method: req.method ?? 'GET',
+        url: req.url ?? '/',
+        headers: req.headers,
+        body: Buffer.concat(chunks),
+      };
+      requests.push(request);
+      try {
+        const response = await handler(request, stub);
+        const body = response.json !== undefined ? JSON.stringify(response.json) : response.body ?? '';
+        res.writeHead(response.status ?? 200, {
+          ...(response.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...response.headers,
+        });
+        res.end(body);
+      } catch (error) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end((error as Error).message);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const stub: HttpStub = {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+  return stub;
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildCommitNotes, extractChangelogSection } from '../src/release/notes';
+
+const CHANGELOG = `# Changelog
+
+## [Unreleased]
+
+- Work in progress
+
+## [1.2.0] - 2026-05-01
+
+### Added
+- Dark mode
+
+### Fixed
+- Crash on start
+
+[1.2.0]: https://github.com/owner/app/compare/v1.1.0...v1.2.0
+[1.1.0]: https://github.com/owner/app/compare/v1.0.0...v1.1.0
+
+## v1.1.0
+
+- First public build
+
+## 1.0.0
+
+- Initial release
+`;
+
+describe('extractChangelogSection', () => {
+  test('reads a bracketed heading with a date and drops trailing link definitions', () => {
+    expect(extractChangelogSection(CHANGELOG, 'v1.2.0')).toBe('### Added\n- Dark mode\n\n### Fixed\n- Crash on start');
+  });
+
+  test('reads `## v1.2.0` and bare version headings', () => {
+    expect(extractChangelogSection(CHANGELOG, '1.1.0')).toBe('- First public build');
+    expect(extractChangelogSection(CHANGELOG, 'v1.0.0')).toBe('- Initial release');
+  });
+
+  test('does not match a longer version or a missing one', () => {
+    expect(extractChangelogSection('## [1.2.0-beta.1]\n\n- Beta\n', '1.2.0')).toBeUndefined();
+    expect(extractChangelogSection(CHANGELOG, '2.0.0')).toBeUndefined();
+  });
+});
+
+describe('buildCommitNotes', () => {
+  let repo: string | undefined;
+
+  afterEach(() => {
+    if (repo) rmSync(repo, { recursive: true, force: true });
+    repo = undefined;
+  });
+
+  function git(args: string[]): string {
+    return execFileSync('git', args, {
+      cwd: repo,
+      encoding: 'utf8',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+      },
+    }).trim();
+  }
+
+  function commit(message: string): string {
+    git(['commit', '--allow-empty', '-q', '-m', message]);
+    return git(['rev-parse', '--short=7', 'HEAD']);
+  }
+
+  test('groups commits since the previous tag', () => {
+    repo = mkdtempSync(join(tmpdir(), 'makepad-notes-'));
+    git(['init', '-q']);
+    commit('feat: before the previous release');
+    git(['tag', 'v1.0.0']);
+    const feature = commit('feat(ui): dark mode');
+    const fix = commit('fix: crash on start');
+    const bang = commit('feat!: drop the old config format');
+    const footer = commit('refactor: move settings\n\nBREAKING CHANGE: settings moved to a new file');
+    commit('chore: bump dependencies');
+    const other = commit('Update README');
+
+    expect(buildCommitNotes(repo, 'HEAD')).toBe(
+      [
+        '### Breaking Changes',
+        `- move settings (${footer})`,
+        `- drop the old config format (${bang})`,
+        '',
+        '### Features',
+        `- **ui:** dark mode (${feature})`,
+        '',
+        '### Bug Fixes',
+        `- crash on start (${fix})`,
+        '',
+        '### Other Changes',
+        `- Update README (${other})`,
+      ].join('\n'),
+    );
+  });
+
+  test('returns undefined when only housekeeping commits were made', () => {
+    repo = mkdtempSync(join(tmpdir(), 'makepad-notes-'));
+    git(['init', '-q']);
+    commit('chore: set up');
+    commit('ci: add workflow');
+    expect(buildCommitNotes(repo, 'HEAD')).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { mergeUpdaterJson } from '../src/release/index';
+
+const base = 'https://github.com/owner/app/releases/download';
+
+function entry(url: string) {
+  return { url, signature: 'sig', format: 'app' as const };
+}
+
+describe('mergeUpdaterJson', () => {
+  const existing = {
+    version: '1.2.0',
+    notes: 'old notes',
+    pub_date: '2026-01-01T00:00:00Z',
+    platforms: { 'linux-x86_64': entry(`${base}/v1.2.0/app.tar.gz`) },
+  };
+
+  test('refuses to move the channel to a lower version', () => {
+    expect(() =>
+      mergeUpdaterJson(existing, new Map([['linux-x86_64', entry(`${base}/v1.1.0/app.tar.gz`)]]), {
+        appVersion: '1.1.0',
+        tagName: 'v1.1.0',
+      }),
+    ).toThrow('Refusing to move update channel "stable" backward from 1.2.0 to 1.1.0');
+  });
+
+  test('refuses a downgrade against the version clients poll', () => {
+    expect(() =>
+      mergeUpdaterJson(undefined, new Map([['linux-x86_64', entry(`${base}/v1.1.0/app.tar.gz`)]]), {
+        appVersion: '1.1.0',
+        tagName: 'v1.1.0',
+        channel: 'beta',
+        channelVersion: '1.3.0-beta.1',
+      }),
+    ).toThrow('Refusing to move update channel "beta" backward from 1.3.0-beta.1 to 1.1.0');
+  });
+
+  test('moves the channel backward when allowDowngrade is set', () => {
+    const document = mergeUpdaterJson(existing, new Map([['linux-x86_64', entry(`${base}/v1.1.0/app.tar.gz`)]]), {
+      appVersion: '1.1.0',
+      tagName: 'v1.1.0',
+      notes: 'rollback',
+      allowDowngrade: true,
+    });
+    expect(document?.version).toBe('1.1.0');
+    expect(document?.notes).toBe('rollback');
+    expect(document?.platforms['linux-x86_64'].url).toBe(`${base}/v1.1.0/app.tar.gz`);
+  });
+
+  test('drops entries of other releases and keeps fixed and same-release URLs', () => {
+    const document = mergeUpdaterJson(
+      {
+        version: '1.2.0',
+        platforms: {
+          'linux-x86_64': entry(`${base}/v1.2.0/app.tar.gz`),
+          'windows-x86_64': entry(`${base}/v1.2.0/app.msi`),
+          'darwin-aarch64': entry(`${base}/v1.3.0/app.app.tar.gz`),
+          'darwin-x86_64': entry('https://cdn.example.com/latest/app.app.tar.gz'),
+        },
+      },
+      new Map([['linux-x86_64', entry(`${base}/v1.3.0/app.tar.gz`)]]),
+      { appVersion: '1.3.0', tagName: 'v1.3.0', notes: 'new' },
+    );
+    expect(document?.version).toBe('1.3.0');
+    expect(Object.keys(document?.platforms ?? {}).sort()).toEqual(['darwin-aarch64', 'darwin-x86_64', 'linux-x86_64']);
+    expect(document?.platforms['linux-x86_64'].url).toBe(`${base}/v1.3.0/app.tar.gz`);
+  });
+
+  test('returns undefined when no platform entry remains', () => {
+    const document = mergeUpdaterJson(
+      { version: '1.2.0', platforms: { 'linux-x86_64': entry(`${base}/v1.2.0/app.tar.gz`) } },
+      new Map(),
+      { appVersion: '1.3.0', tagName: 'v1.3.0' },
+    );
+    expect(document).toBeUndefined();
+  });
+});